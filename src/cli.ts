@@ -2,14 +2,45 @@
 
 import { Logger } from './utils/logger';
 import { ErrorCollector } from './utils/error-handler';
+import { LOAD_METHODS, LoadMethod, MigrationMode } from './database/migration';
+import { COMPARISON_REPORT_FORMATS, getComparisonReportFormat } from './utils/comparison-report';
+
+const MIGRATION_MODES: MigrationMode[] = ['append', 'sync', 'replace'];
+
+export type CLICommand = 'migrate' | 'history' | 'rollback' | 'categories' | 'compare';
+
+const CLI_COMMANDS: CLICommand[] = ['migrate', 'history', 'rollback', 'categories', 'compare'];
 
 export interface CLIOptions {
+  command: CLICommand;
+  commandArgs: string[];
   help: boolean;
   verbose: boolean;
   quiet: boolean;
   dryRun: boolean;
   tableName?: string;
   configOnly: boolean;
+  mode: MigrationMode;
+  /** Load method overriding LOAD_METHOD */
+  loadMethod?: LoadMethod;
+  prune: boolean;
+  limit?: number;
+  /** Dry-run report path (without extension) */
+  reportPath?: string;
+  /** Run whose table contents the rollback command restores */
+  toRunId?: number;
+  /** Source location overriding the configured one for --table */
+  source?: string;
+  /** Mapping profile overriding the configured one for --table */
+  mappingProfile?: string;
+  /** Refuse sheets whose required columns are missing or ambiguous */
+  strictHeaders: boolean;
+  /** Continue the latest interrupted run from its checkpoints */
+  resume: boolean;
+  /** Migrate tables whose source did not change since their last migration */
+  force: boolean;
+  /** Comparison report path (.csv, .xlsx or .json) */
+  outputPath?: string;
 }
 
 export class CLI {
@@ -26,13 +57,22 @@ export class CLI {
    */
   parseArguments(args: string[]): CLIOptions {
     const options: CLIOptions = {
+      command: 'migrate',
+      commandArgs: [],
       help: false,
       verbose: false,
       quiet: false,
       dryRun: false,
       configOnly: false,
+      mode: 'sync',
+      prune: false,
+      strictHeaders: false,
+      resume: false,
+      force: false,
     };
 
+    const positionals: string[] = [];
+
     for (let i = 2; i < args.length; i++) {
       const arg = args[i];
 
@@ -61,6 +101,49 @@ export class CLI {
           options.configOnly = true;
           break;
         
+        case '--prune':
+          options.prune = true;
+          break;
+        
+        case '--strict-headers':
+          options.strictHeaders = true;
+          break;
+        
+        case '--resume':
+          options.resume = true;
+          break;
+        
+        case '--force':
+          options.force = true;
+          break;
+        
+        case '--mode':
+        case '-m':
+          if (i + 1 < args.length) {
+            const mode = args[i + 1] as MigrationMode;
+            if (!MIGRATION_MODES.includes(mode)) {
+              throw new Error(`Invalid mode: ${mode}. Valid options: ${MIGRATION_MODES.join(', ')}`);
+            }
+            options.mode = mode;
+            i++; // Skip next argument as it's the mode
+          } else {
+            throw new Error('--mode option requires a mode name');
+          }
+          break;
+        
+        case '--load-method':
+          if (i + 1 < args.length) {
+            const loadMethod = args[i + 1] as LoadMethod;
+            if (!LOAD_METHODS.includes(loadMethod)) {
+              throw new Error(`Invalid load method: ${loadMethod}. Valid options: ${LOAD_METHODS.join(', ')}`);
+            }
+            options.loadMethod = loadMethod;
+            i++; // Skip next argument as it's the load method
+          } else {
+            throw new Error('--load-method option requires a method name');
+          }
+          break;
+        
         case '--table':
         case '-t':
           if (i + 1 < args.length) {
@@ -71,14 +154,89 @@ export class CLI {
           }
           break;
         
+        case '--report':
+          if (i + 1 < args.length) {
+            options.reportPath = args[i + 1];
+            i++; // Skip next argument as it's the report path
+          } else {
+            throw new Error('--report option requires a file path');
+          }
+          break;
+        
+        case '--output':
+        case '-o':
+          if (i + 1 < args.length) {
+            options.outputPath = args[i + 1];
+            i++; // Skip next argument as it's the output path
+          } else {
+            throw new Error('--output option requires a file path');
+          }
+          break;
+        
+        case '--source':
+        case '-s':
+          if (i + 1 < args.length) {
+            options.source = args[i + 1];
+            i++; // Skip next argument as it's the source location
+          } else {
+            throw new Error('--source option requires a file path or URL');
+          }
+          break;
+        
+        case '--mapping-profile':
+          if (i + 1 < args.length) {
+            options.mappingProfile = args[i + 1];
+            i++; // Skip next argument as it's the profile name
+          } else {
+            throw new Error('--mapping-profile option requires a profile name');
+          }
+          break;
+        
+        case '--to-run':
+          if (i + 1 < args.length) {
+            const toRunId = parseInt(args[i + 1], 10);
+            if (isNaN(toRunId) || toRunId <= 0) {
+              throw new Error(`Invalid run id: ${args[i + 1]}`);
+            }
+            options.toRunId = toRunId;
+            i++; // Skip next argument as it's the run id
+          } else {
+            throw new Error('--to-run option requires a run id');
+          }
+          break;
+        
+        case '--limit':
+        case '-l':
+          if (i + 1 < args.length) {
+            const limit = parseInt(args[i + 1], 10);
+            if (isNaN(limit) || limit <= 0) {
+              throw new Error(`Invalid limit: ${args[i + 1]}`);
+            }
+            options.limit = limit;
+            i++; // Skip next argument as it's the limit
+          } else {
+            throw new Error('--limit option requires a number');
+          }
+          break;
+        
         default:
           if (arg.startsWith('-')) {
             throw new Error(`Unknown option: ${arg}`);
           }
+          positionals.push(arg);
           break;
       }
     }
 
+    if (positionals.length > 0) {
+      const command = positionals[0] as CLICommand;
+      if (!CLI_COMMANDS.includes(command)) {
+        throw new Error(`Unknown command: ${command}. Valid commands: ${CLI_COMMANDS.join(', ')}`);
+      }
+      options.command = command;
+      options.commandArgs = positionals.slice(1);
+    }
+
     return options;
   }
 
@@ -90,22 +248,73 @@ export class CLI {
 XLSX to Database Migration Tool
 
 USAGE:
-  npm start [OPTIONS]
+  npm start [COMMAND] [OPTIONS]
+
+COMMANDS:
+  migrate             Migrate the configured tables (default)
+  history [RUN_ID]    List recent migration runs, or show the rule changes of one run
+                      (use --table to filter by table and --limit to cap the output)
+  rollback            Restore a table to its contents after a previous run
+                      (requires --table and --to-run)
+  categories [CODE]   Show the category tree of --table, or the rules that apply to one
+                      category including those inherited from its ancestors
+  compare [TABLE...]  Compare the attributes of the configured tables (or the given ones):
+                      requirement level, type and validations per marketplace, with conflicts
 
 OPTIONS:
   -h, --help          Show this help message
   -v, --verbose       Enable verbose logging
   -q, --quiet         Enable quiet mode (errors only)
-  -d, --dry-run       Run migration simulation without actual database changes
+  -d, --dry-run       Compare the sheets with the database without changing it and
+                      write a JSON/markdown report of the rules that would change
+  --report PATH       Dry-run report path without extension (default: reports/dry-run-<time>)
   -t, --table NAME    Migrate specific table only
+  -s, --source LOC    Read --table from LOC instead of its configured source: a Google Sheets
+                      URL, a .xlsx/.csv file, a directory, a glob (./in/*.xlsx) or a file:// URL
+  --mapping-profile NAME
+                      Map --table's columns with mapping-profiles/NAME.json instead of its
+                      configured profile ("default" for the built-in headers)
+  --strict-headers    Refuse tables whose sheets miss a required column, or where a column
+                      matches several headers or a header matches several columns
+  -m, --mode MODE     Write mode: sync (default, upsert on code + category + variant)
+                      append (insert rows whose key is not present yet) or
+                      replace (load a shadow table and swap it in atomically)
+  --load-method M     How batches are loaded: copy (COPY FROM STDIN, default unless
+                      LOAD_METHOD says otherwise) or insert (multi-row INSERT)
+  --prune             Hard-delete rules soft-deleted longer than DELETION_GRACE_DAYS
+  --force             Migrate tables even when their source did not change since their
+                      last migration (by default they are skipped and reported unchanged)
+  --resume            Continue the latest interrupted run from its last committed batch, with
+                      its mode and table; refused for tables whose source changed since
   --config-only       Only setup configuration tables, don't migrate data
+  -l, --limit N       Maximum number of runs, changes, rules or attributes shown by history,
+                      categories and compare
+  --to-run RUN_ID     Run whose table contents the rollback command restores
+  -o, --output PATH   Export the compare matrix to PATH (.csv, .xlsx or .json)
 
 EXAMPLES:
   npm start                           # Migrate all configured tables
   npm start --verbose                 # Migrate with detailed logging
   npm start --table rules_worten_pt   # Migrate only the worten_pt rules
   npm start --dry-run                 # Preview migration without changes
+  npm start --dry-run --report review # Write review.json and review.md
+  npm start --table rules_pccomp_es --source ./incoming/pccomp.xlsx --dry-run
+  npm start --table rules_carrefour_fr --mapping-profile mirakl-export-extended --dry-run
+  npm start --strict-headers          # Stop instead of loading blank columns
+  npm start --mode append             # Only add rules that are not in the table yet
+  npm start --mode replace            # Rebuild tables without exposing partial data
+  npm start --load-method insert      # Load with INSERT statements instead of COPY
+  npm start --prune                   # Sync and purge rules removed past the grace period
+  npm start --force                   # Re-migrate every table, changed or not
+  npm start --resume                  # Finish the run a crash or failure interrupted
   npm start --config-only             # Setup configuration tables only
+  npm start history                   # List the last 20 migration runs
+  npm start history 42 --table rules_worten_pt  # Rule changes made by run 42
+  npm start rollback --table rules_pccomp_es --to-run 41  # Undo everything after run 41
+  npm start categories --table rules_worten_pt           # Category tree and its problems
+  npm start categories 1001 --table rules_worten_pt      # Rules that apply to category 1001
+  npm start compare --output reports/attributes.xlsx     # Attribute matrix of all marketplaces
+  npm start compare rules_worten_pt rules_pccomp_es      # Conflicts between two marketplaces
 
 ENVIRONMENT VARIABLES:
   See .env.example for required environment variables
@@ -137,11 +346,22 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
       version: '1.0.0',
       timestamp: new Date().toISOString(),
       options: {
+        command: options.command,
         verbose: options.verbose,
         quiet: options.quiet,
         dryRun: options.dryRun,
         tableName: options.tableName,
         configOnly: options.configOnly,
+        mode: options.mode,
+        loadMethod: options.loadMethod,
+        prune: options.prune,
+        reportPath: options.reportPath,
+        source: options.source,
+        mappingProfile: options.mappingProfile,
+        strictHeaders: options.strictHeaders,
+        resume: options.resume,
+        force: options.force,
+        outputPath: options.outputPath,
       },
     });
   }
@@ -159,13 +379,13 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
 
     try {
       // Validate environment variables
+      // Google credentials are only needed for Google Sheets sources and are checked when one is fetched
       const requiredEnvVars = [
         'DB_HOST',
         'DB_PORT',
         'DB_NAME',
         'DB_USER',
         'DB_PASSWORD',
-        'GOOGLE_APPLICATION_CREDENTIALS',
       ];
 
       for (const envVar of requiredEnvVars) {
@@ -179,6 +399,58 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
         errors.push('Cannot use both --verbose and --quiet options');
       }
 
+      // Validate command arguments
+      if (options.command === 'history' && options.commandArgs.length > 0) {
+        const runId = parseInt(options.commandArgs[0], 10);
+        if (isNaN(runId) || runId <= 0) {
+          errors.push(`Invalid run id: ${options.commandArgs[0]}`);
+        }
+      }
+
+      if (options.command === 'categories' && !options.tableName) {
+        errors.push('The categories command requires --table');
+      }
+
+      if (options.command === 'compare') {
+        const invalid = options.commandArgs.filter(tableName => !tableName.startsWith('rules_'));
+        if (invalid.length > 0) {
+          errors.push(`Invalid table name: ${invalid.join(', ')}. Compared tables start with rules_`);
+        }
+      }
+
+      if (options.outputPath) {
+        if (options.command !== 'compare') {
+          errors.push('--output can only be used with the compare command');
+        } else if (!getComparisonReportFormat(options.outputPath)) {
+          errors.push(`Unsupported --output format: ${options.outputPath} (use ${COMPARISON_REPORT_FORMATS.map(format => `.${format}`).join(', ')})`);
+        }
+      }
+
+      if (options.command === 'rollback') {
+        if (!options.tableName) {
+          errors.push('The rollback command requires --table');
+        }
+        if (!options.toRunId) {
+          errors.push('The rollback command requires --to-run');
+        }
+      }
+
+      if (options.source && !options.tableName) {
+        errors.push('--source can only be used together with --table');
+      }
+
+      if (options.mappingProfile && !options.tableName) {
+        errors.push('--mapping-profile can only be used together with --table');
+      }
+
+      if (options.reportPath && !options.dryRun) {
+        errors.push('--report can only be used with --dry-run');
+      }
+
+      if (options.resume && (options.command !== 'migrate' || options.dryRun || options.configOnly)) {
+        errors.push('--resume can only be used for migrations (not with --dry-run or --config-only)');
+      }
+
       // Validate table name if provided
       if (options.tableName) {
         const validTableNames = [
@@ -246,13 +518,28 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
     console.log('');
     console.log(`📊 Summary:`);
     console.log(`   Tables Processed: ${summary.tablesProcessed}/${summary.totalTables}`);
+    if (summary.tablesUnchanged > 0) {
+      console.log(`   Tables Unchanged: ${summary.tablesUnchanged} (source not modified, use --force to migrate)`);
+    }
     console.log(`   Records Migrated: ${summary.recordsMigrated.toLocaleString()}`);
+    console.log(`   Records Updated:  ${summary.recordsUpdated.toLocaleString()}`);
+    console.log(`   Unchanged:        ${summary.recordsUnchanged.toLocaleString()}`);
+    console.log(`   Records Removed:  ${summary.recordsRemoved.toLocaleString()}`);
     console.log(`   Records Skipped:  ${summary.recordsSkipped.toLocaleString()}`);
     console.log(`   Total Errors:     ${summary.totalErrors}`);
     console.log(`   Duration:         ${(summary.duration / 1000).toFixed(2)}s`);
+    if (summary.runId) {
+      console.log(`   Run ID:           ${summary.runId} (see: npm start history ${summary.runId})`);
+    }
+
+    this.displayMappingReports(summary);
+    this.displaySchemaChanges(summary, options);
+    this.displayCategoryTrees(summary);
+    this.displayValueLists(summary);
 
     if (options.dryRun) {
       console.log('\n🔍 DRY RUN MODE - No actual database changes were made');
+      this.displayDryRunPreview(summary, options);
     }
 
     // Display table-specific results
@@ -260,13 +547,27 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
       console.log('\n📋 Table Results:');
       
       for (const result of summary.tableResults) {
+        if (result.unchanged) {
+          console.log(`   ⏭️  ${result.tableName}: unchanged`);
+          continue;
+        }
+
         const status = result.errors.length === 0 ? '✅' : '❌';
         console.log(`   ${status} ${result.tableName}:`);
-        console.log(`      Inserted: ${result.recordsInserted.toLocaleString()}`);
-        console.log(`      Skipped:  ${result.recordsSkipped.toLocaleString()}`);
+        console.log(`      Inserted:  ${result.recordsInserted.toLocaleString()}`);
+        console.log(`      Updated:   ${result.recordsUpdated.toLocaleString()}`);
+        console.log(`      Unchanged: ${result.recordsUnchanged.toLocaleString()}`);
+        console.log(`      Removed:   ${result.recordsRemoved.toLocaleString()}`);
+        if (result.recordsPruned > 0) {
+          console.log(`      Pruned:    ${result.recordsPruned.toLocaleString()}`);
+        }
+        console.log(`      Skipped:   ${result.recordsSkipped.toLocaleString()}`);
+        if (result.recordsResumed) {
+          console.log(`      Resumed:   ${result.recordsResumed.toLocaleString()} (committed by the interrupted run)`);
+        }
         
         if (result.errors.length > 0) {
-          console.log(`      Errors:   ${result.errors.length}`);
+          console.log(`      Errors:    ${result.errors.length}`);
           if (options.verbose) {
             result.errors.slice(0, 3).forEach((error, index) => {
               console.log(`        ${index + 1}. ${error}`);
@@ -277,7 +578,10 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
           }
         }
         
-        console.log(`      Duration: ${(result.duration / 1000).toFixed(2)}s`);
+        console.log(`      Duration:  ${(result.duration / 1000).toFixed(2)}s`);
+        if (result.loadMethod) {
+          console.log(`      Loaded:    ${result.recordsPerSecond.toLocaleString()} records/s (${result.loadMethod})`);
+        }
       }
     }
 
@@ -293,6 +597,411 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
     }
   }
 
+  /**
+   * Displays how sheet headers were mapped to rule columns. Sheets sharing a layout are listed together.
+   * @param summary - Migration summary
+   */
+  private displayMappingReports(summary: any): void {
+    const matchLabels: Record<string, string> = { header: 'name', pattern: 'pattern', index: 'index' };
+
+    for (const result of summary.tableResults || []) {
+      const groups = new Map<string, { sheets: string[]; report: any }>();
+      for (const report of result.mappingReports || []) {
+        const layout = JSON.stringify([report.profile, report.columns, report.unusedHeaders, report.problems]);
+        const group = groups.get(layout) || groups.set(layout, { sheets: [], report }).get(layout)!;
+        group.sheets.push(report.sheetName);
+      }
+      if (groups.size === 0) continue;
+
+      console.log(`\n🧭 Column mapping for ${result.tableName}:`);
+      for (const { sheets, report } of groups.values()) {
+        console.log(`   ${sheets.join(', ')} (profile: ${report.profile})`);
+
+        for (const match of report.columns) {
+          const source = match.matchedBy
+            ? `${match.header !== null ? JSON.stringify(match.header) : `column ${match.index + 1}`} (${matchLabels[match.matchedBy]})`
+            : match.required ? '❌ missing' : '– missing, default used';
+          console.log(`      ${match.column.padEnd(30)} ← ${source}`);
+        }
+
+        if (report.unusedHeaders.length > 0) {
+          console.log(`      Unused headers (kept in extras): ${report.unusedHeaders.join(', ')}`);
+        }
+        for (const problem of report.problems) {
+          console.log(`      ⚠️  ${problem}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Displays the ALTER TABLE statements run (or, in dry runs, needed) to match each table's schema
+   * @param summary - Migration summary
+   * @param options - CLI options
+   */
+  private displaySchemaChanges(summary: any, options: CLIOptions): void {
+    for (const result of summary.tableResults || []) {
+      if (!result.schemaChanges || result.schemaChanges.length === 0) continue;
+
+      const heading = options.dryRun ? 'Schema changes needed' : 'Schema changes applied';
+      console.log(`\n🧱 ${heading} for ${result.tableName}:`);
+      for (const statement of result.schemaChanges) {
+        console.log(`   ${statement};`);
+      }
+    }
+  }
+
+  /**
+   * Displays the size of each rebuilt category tree and the problems found in it
+   * @param summary - Migration summary
+   */
+  private displayCategoryTrees(summary: any): void {
+    for (const result of summary.tableResults || []) {
+      const tree = result.categories;
+      if (!tree || tree.categories === 0) continue;
+
+      console.log(`\n🌳 Categories of ${result.tableName}: ${tree.categories} (${tree.roots} root, depth ${tree.maxDepth})`);
+      for (const cycle of tree.cycles) {
+        console.log(`   ⚠️  Parent cycle: ${[...cycle, cycle[0]].join(' → ')}`);
+      }
+      if (tree.missingParents.length > 0) {
+        console.log(`   ⚠️  Parent codes that never appear: ${tree.missingParents.join(', ')}`);
+        console.log(`      Orphaned categories: ${tree.orphans.join(', ')}`);
+      }
+      for (const conflict of tree.conflicts) {
+        console.log(`   ⚠️  ${conflict}`);
+      }
+    }
+  }
+
+  /**
+   * Displays the value lists stored for each table and the LIST rules whose list is missing
+   * @param summary - Migration summary
+   */
+  private displayValueLists(summary: any): void {
+    for (const result of summary.tableResults || []) {
+      const valueLists = result.valueLists;
+      if (!valueLists || valueLists.lists === 0) continue;
+
+      console.log(`\n🗂️  Value lists of ${result.tableName}: ${valueLists.lists} (${valueLists.values} values, ${valueLists.listRules} LIST rules)`);
+      for (const reference of valueLists.missing) {
+        console.log(`   ⚠️  Missing list: ${reference}`);
+      }
+    }
+  }
+
+  /**
+   * Displays what a dry run would change in each table
+   * @param summary - Migration summary
+   * @param options - CLI options
+   */
+  private displayDryRunPreview(summary: any, options: CLIOptions): void {
+    const sampleLimit = options.verbose ? 5 : 2;
+
+    for (const result of summary.tableResults || []) {
+      const preview = result.preview;
+      if (!preview) continue;
+
+      console.log(`\n🔎 ${preview.tableName}: +${preview.added} added, ~${preview.modified} changed, -${preview.removed} removed, ${preview.unchanged} unchanged`);
+
+      const columns = Object.entries(preview.columns as Record<string, any>)
+        .sort((a, b) => b[1].changed - a[1].changed);
+
+      for (const [column, columnSummary] of columns) {
+        console.log(`      ${column}: ${columnSummary.changed} rule(s)`);
+        for (const sample of columnSummary.samples.slice(0, sampleLimit)) {
+          console.log(`        ${sample.code}: ${JSON.stringify(sample.before)} → ${JSON.stringify(sample.after)}`);
+        }
+      }
+    }
+
+    if (summary.reportFiles) {
+      console.log('\n📝 Report written to:');
+      console.log(`   ${summary.reportFiles.json}`);
+      console.log(`   ${summary.reportFiles.markdown}`);
+    }
+  }
+
+  /**
+   * Displays recorded migration runs, or the rule changes of a single run
+   * @param options - CLI options
+   * @returns Exit code
+   */
+  private async runHistoryCommand(options: CLIOptions): Promise<number> {
+    const { MigrationService } = await import('./services/migration-service');
+    const migrationService = new MigrationService(this.errorCollector);
+
+    try {
+      if (options.commandArgs.length === 0) {
+        const runs = await migrationService.getRunHistory(options.limit);
+
+        console.log('\n' + '='.repeat(60));
+        console.log('MIGRATION HISTORY');
+        console.log('='.repeat(60));
+
+        if (runs.length === 0) {
+          console.log('No migration runs recorded yet.');
+        }
+
+        for (const run of runs) {
+          const totals = this.sumRunResults(run.tableResults);
+          const description = run.options.command === 'rollback'
+            ? `rollback ${run.options.tableName} to #${run.options.toRunId}`
+            : `mode=${run.options.mode || 'n/a'}${run.options.resumedFrom ? ` resumed #${run.options.resumedFrom}` : ''}`;
+          console.log(`#${run.id}  ${run.startedAt.toISOString()}  ${run.status.toUpperCase()}  ${description}`);
+          console.log(`      Tables: ${run.tableResults.length}  Inserted: ${totals.inserted}  Updated: ${totals.updated}  Removed: ${totals.removed}  Errors: ${totals.errors}`);
+          if (run.error) {
+            console.log(`      Error:  ${run.error}`);
+          }
+        }
+
+        console.log('='.repeat(60));
+        return 0;
+      }
+
+      const runId = parseInt(options.commandArgs[0], 10);
+      const details = await migrationService.getRunDetails(runId, options.tableName, options.limit);
+
+      if (!details) {
+        console.error(`Migration run not found: ${runId}`);
+        return 1;
+      }
+
+      const { run, changes } = details;
+
+      console.log('\n' + '='.repeat(60));
+      console.log(`MIGRATION RUN #${run.id}`);
+      console.log('='.repeat(60));
+      console.log(`   Status:   ${run.status}`);
+      console.log(`   Started:  ${run.startedAt.toISOString()}`);
+      console.log(`   Finished: ${run.finishedAt ? run.finishedAt.toISOString() : '-'}`);
+      console.log(`   Options:  ${JSON.stringify(run.options)}`);
+      if (run.error) {
+        console.log(`   Error:    ${run.error}`);
+      }
+
+      let currentTable: string | null = null;
+      for (const change of changes) {
+        if (change.tableName !== currentTable) {
+          currentTable = change.tableName;
+          console.log(`\n📋 ${currentTable}:`);
+        }
+
+        const marker = change.changeType === 'added' ? '+' : change.changeType === 'removed' ? '-' : '~';
+        console.log(`   ${marker} ${change.code} [${change.categoryCode}${change.variant ? ` / ${change.variant}` : ''}]`);
+
+        if (change.changeType === 'modified' || options.verbose) {
+          for (const [column, value] of Object.entries(change.changes)) {
+            console.log(`        ${column}: ${JSON.stringify(value.before)} → ${JSON.stringify(value.after)}`);
+          }
+        }
+      }
+
+      if (changes.length === 0) {
+        console.log('\nNo rule changes recorded for this run.');
+      }
+
+      console.log('='.repeat(60));
+      return 0;
+
+    } catch (error: any) {
+      Logger.error('History command failed', { error: error.message });
+      console.error(`\nHistory command failed: ${error.message}`);
+      return 1;
+    } finally {
+      await migrationService.cleanup();
+    }
+  }
+
+  /**
+   * Restores a table to the snapshot of a previous run
+   * @param options - CLI options
+   * @returns Exit code
+   */
+  private async runRollbackCommand(options: CLIOptions): Promise<number> {
+    const { MigrationService } = await import('./services/migration-service');
+    const migrationService = new MigrationService(this.errorCollector);
+
+    try {
+      const result = await migrationService.rollbackTable(options.tableName!, options.toRunId!);
+
+      console.log('\n' + '='.repeat(60));
+      console.log('ROLLBACK RESULTS');
+      console.log('='.repeat(60));
+      console.log(`✅ ${result.tableName} restored to its state after run #${result.snapshotRunId}`);
+      console.log(`   Rows Restored: ${result.rowsRestored.toLocaleString()}`);
+      console.log(`   Added:         ${result.changes.added.toLocaleString()}`);
+      console.log(`   Modified:      ${result.changes.modified.toLocaleString()}`);
+      console.log(`   Removed:       ${result.changes.removed.toLocaleString()}`);
+      console.log(`   Duration:      ${(result.duration / 1000).toFixed(2)}s`);
+      console.log(`   Run ID:        ${result.runId} (see: npm start history ${result.runId})`);
+      console.log('='.repeat(60));
+      return 0;
+
+    } catch (error: any) {
+      Logger.error('Rollback command failed', { error: error.message });
+      console.error(`\nRollback failed: ${error.message}`);
+      return 1;
+    } finally {
+      await migrationService.cleanup();
+    }
+  }
+
+  /**
+   * Displays a table's category tree, or the rules that apply to one category
+   * @param options - CLI options
+   * @returns Exit code
+   */
+  private async runCategoriesCommand(options: CLIOptions): Promise<number> {
+    const { MigrationService } = await import('./services/migration-service');
+    const migrationService = new MigrationService(this.errorCollector);
+    const problemLabels: Record<string, string> = { cycle: '⚠️  in a parent cycle', orphan: '⚠️  parent missing' };
+
+    try {
+      if (options.commandArgs.length === 0) {
+        const categories = await migrationService.getCategories(options.tableName!);
+
+        console.log('\n' + '='.repeat(60));
+        console.log(`CATEGORIES OF ${options.tableName}`);
+        console.log('='.repeat(60));
+
+        if (categories.length === 0) {
+          console.log('No categories recorded yet (the tree is built by each migration).');
+        }
+
+        for (const category of categories) {
+          const indent = '   '.repeat((category.depth ?? 0) + 1);
+          const problem = category.problem ? `  ${problemLabels[category.problem]}` : '';
+          console.log(`${indent}${category.code} ${category.name} (${category.rules} rules)${problem}`);
+        }
+
+        console.log('='.repeat(60));
+        return 0;
+      }
+
+      const code = options.commandArgs[0];
+      const details = await migrationService.getCategoryRules(options.tableName!, code);
+
+      if (!details) {
+        console.error(`Category not found in ${options.tableName}: ${code}`);
+        return 1;
+      }
+
+      const { category, rules } = details;
+      const applicable = options.limit ? rules.slice(0, options.limit) : rules;
+
+      console.log('\n' + '='.repeat(60));
+      console.log(`CATEGORY ${category.code} ${category.name}`);
+      console.log('='.repeat(60));
+      console.log(`   Path:  ${(category.path || []).join(' > ')}`);
+      console.log(`   Rules: ${rules.length} (${rules.filter(rule => rule.distance === 0).length} own)`);
+
+      for (const rule of applicable) {
+        const origin = rule.distance === 0 ? '' : rule.inheritedFrom ? `  ← ${rule.inheritedFrom}` : '  ← all categories';
+        console.log(`   ${rule.code.padEnd(30)} ${(rule.requirement_level || '-').padEnd(12)} ${rule.type || ''}${origin}`);
+      }
+      if (applicable.length < rules.length) {
+        console.log(`   ... and ${rules.length - applicable.length} more rules`);
+      }
+
+      console.log('='.repeat(60));
+      return 0;
+
+    } catch (error: any) {
+      Logger.error('Categories command failed', { error: error.message });
+      console.error(`\nCategories command failed: ${error.message}`);
+      return 1;
+    } finally {
+      await migrationService.cleanup();
+    }
+  }
+
+  /**
+   * Displays the attributes the compared marketplaces disagree on and exports the full matrix
+   * @param options - CLI options
+   * @returns Exit code
+   */
+  private async runCompareCommand(options: CLIOptions): Promise<number> {
+    const { MigrationService } = await import('./services/migration-service');
+    const migrationService = new MigrationService(this.errorCollector);
+
+    try {
+      const { comparison, skippedTables, reportFile } = await migrationService.compareMarketplaces(
+        options.commandArgs,
+        options.outputPath
+      );
+      const conflicting = comparison.rows.filter(row => row.conflicts.length > 0);
+      const shown = options.limit ? conflicting.slice(0, options.limit) : conflicting;
+      const columnLabels = comparison.tables.map(tableName => tableName.replace(/^rules_/, ''));
+      const width = Math.max(12, ...columnLabels.map(label => label.length));
+
+      console.log('\n' + '='.repeat(60));
+      console.log('MARKETPLACE COMPARISON');
+      console.log('='.repeat(60));
+      console.log(`   Tables:      ${comparison.tables.join(', ') || '-'}`);
+      if (skippedTables.length > 0) {
+        console.log(`   Not migrated yet (left out): ${skippedTables.join(', ')}`);
+      }
+      console.log(`   Attributes:  ${comparison.rows.length}`);
+      console.log(`   Conflicting: ${conflicting.length}`);
+
+      if (shown.length > 0) {
+        console.log(`\n   ${'code'.padEnd(30)} ${columnLabels.map(label => label.padEnd(width)).join(' ')}`);
+      }
+      for (const row of shown) {
+        const levels = comparison.tables.map(tableName => {
+          const cell = row.cells[tableName];
+          return (cell ? cell.requirementLevel || '?' : '—').padEnd(width);
+        });
+        console.log(`   ${row.code.padEnd(30)} ${levels.join(' ')}`);
+        for (const conflict of row.conflicts) {
+          console.log(`      ⚠️  ${conflict.kind}: ${conflict.message}`);
+        }
+      }
+      if (shown.length < conflicting.length) {
+        console.log(`   ... and ${conflicting.length - shown.length} more conflicting attributes`);
+      }
+
+      if (reportFile) {
+        console.log(`\n📄 Matrix written to ${reportFile}`);
+      } else if (comparison.rows.length > 0) {
+        console.log('\n   Export the full matrix with --output <file>.csv|.xlsx|.json');
+      }
+
+      console.log('='.repeat(60));
+      return 0;
+
+    } catch (error: any) {
+      Logger.error('Compare command failed', { error: error.message });
+      console.error(`\nCompare command failed: ${error.message}`);
+      return 1;
+    } finally {
+      await migrationService.cleanup();
+    }
+  }
+
+  /**
+   * Sums the per-table counts of a recorded run
+   * @param tableResults - Per-table results
+   * @returns Totals
+   */
+  private sumRunResults(tableResults: Array<{ recordsInserted: number; recordsUpdated: number; recordsRemoved: number; errors: number }>): {
+    inserted: number;
+    updated: number;
+    removed: number;
+    errors: number;
+  } {
+    return tableResults.reduce(
+      (totals, result) => ({
+        inserted: totals.inserted + result.recordsInserted,
+        updated: totals.updated + result.recordsUpdated,
+        removed: totals.removed + result.recordsRemoved,
+        errors: totals.errors + result.errors,
+      }),
+      { inserted: 0, updated: 0, removed: 0, errors: 0 }
+    );
+  }
+
   /**
    * Main CLI entry point
    * @param args - Command line arguments
@@ -316,6 +1025,22 @@ For more information, visit: https://github.com/your-repo/xlsx-database-migratio
         return 1;
       }
 
+      if (options.command === 'history') {
+        return await this.runHistoryCommand(options);
+      }
+
+      if (options.command === 'rollback') {
+        return await this.runRollbackCommand(options);
+      }
+
+      if (options.command === 'categories') {
+        return await this.runCategoriesCommand(options);
+      }
+
+      if (options.command === 'compare') {
+        return await this.runCompareCommand(options);
+      }
+
       Logger.info('CLI validation passed, starting migration process');
 
       // Import and run the main migration logic
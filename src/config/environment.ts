@@ -24,8 +24,29 @@ export interface GoogleCloudConfig {
 
 export interface MigrationConfig {
   batchSize: number;
+  /** How batches are sent to PostgreSQL: COPY through a staging table, or multi-row INSERT */
+  loadMethod: 'copy' | 'insert';
+  /** Retries of downloads, token requests and batch writes after transient errors */
   maxRetries: number;
+  /** Delay cap of the first retry in milliseconds (doubles on every retry, with jitter) */
+  retryBaseDelay: number;
+  /** Upper bound of a retry delay in milliseconds */
+  retryMaxDelay: number;
+  /** Error codes, HTTP statuses (5xx) and message fragments worth retrying (empty for the defaults) */
+  retryableErrors: string[];
+  /** Time allowed per table in milliseconds (0 for no limit) */
   timeout: number;
+  deletionGraceDays: number;
+  snapshotRetentionRuns: number;
+  mappingProfilesDir: string;
+  vocabulariesDir: string;
+}
+
+export interface SourcesConfig {
+  httpBearerToken: string;
+  httpUsername: string;
+  httpPassword: string;
+  miraklApiKey: string;
 }
 
 export interface AppConfig {
@@ -34,6 +55,7 @@ export interface AppConfig {
   database: DatabaseConfig;
   googleCloud: GoogleCloudConfig;
   migration: MigrationConfig;
+  sources: SourcesConfig;
 }
 
 function getEnvVar(name: string, defaultValue?: string): string {
@@ -55,6 +77,21 @@ function getEnvVarAsNumber(name: string, defaultValue: number): number {
   return num;
 }
 
+function getEnvVarAsLoadMethod(name: string, defaultValue: 'copy' | 'insert'): 'copy' | 'insert' {
+  const value = process.env[name];
+  if (!value) return defaultValue;
+  if (value !== 'copy' && value !== 'insert') {
+    throw new Error(`Environment variable ${name} must be 'copy' or 'insert'`);
+  }
+  return value;
+}
+
+function getEnvVarAsList(name: string, defaultValue: string[]): string[] {
+  const value = process.env[name];
+  if (!value) return defaultValue;
+  return value.split(',').map(item => item.trim()).filter(item => item !== '');
+}
+
 function getEnvVarAsBoolean(name: string, defaultValue: boolean): boolean {
   const value = process.env[name];
   if (!value) return defaultValue;
@@ -84,7 +121,21 @@ export const appConfig: AppConfig = {
   },
   migration: {
     batchSize: getEnvVarAsNumber('BATCH_SIZE', 1000),
+    loadMethod: getEnvVarAsLoadMethod('LOAD_METHOD', 'copy'),
     maxRetries: getEnvVarAsNumber('MAX_RETRIES', 3),
+    retryBaseDelay: getEnvVarAsNumber('RETRY_BASE_DELAY', 500),
+    retryMaxDelay: getEnvVarAsNumber('RETRY_MAX_DELAY', 30000),
+    retryableErrors: getEnvVarAsList('RETRYABLE_ERRORS', []),
     timeout: getEnvVarAsNumber('MIGRATION_TIMEOUT', 300000),
+    deletionGraceDays: getEnvVarAsNumber('DELETION_GRACE_DAYS', 30),
+    snapshotRetentionRuns: getEnvVarAsNumber('SNAPSHOT_RETENTION_RUNS', 10),
+    mappingProfilesDir: getEnvVar('MAPPING_PROFILES_DIR', './mapping-profiles'),
+    vocabulariesDir: getEnvVar('VOCABULARIES_DIR', './vocabularies'),
+  },
+  sources: {
+    httpBearerToken: process.env.SOURCE_HTTP_BEARER_TOKEN || '',
+    httpUsername: process.env.SOURCE_HTTP_USERNAME || '',
+    httpPassword: process.env.SOURCE_HTTP_PASSWORD || '',
+    miraklApiKey: process.env.MIRAKL_API_KEY || '',
   },
 };
\ No newline at end of file
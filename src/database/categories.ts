@@ -0,0 +1,214 @@
+import { Logger } from '../utils/logger';
+import { DatabaseConnection } from './connection';
+import { generateCategoryTableSQL, RuleRecord } from './schema';
+import { buildCategoryTree, CategorySource, CategoryTree, MiraklCategory } from '../processing/category-tree';
+
+/**
+ * Counts and problems of a rebuilt category tree
+ */
+export interface CategoryTreeSummary {
+  categories: number;
+  roots: number;
+  maxDepth: number;
+  cycles: string[][];
+  orphans: string[];
+  missingParents: string[];
+  conflicts: string[];
+}
+
+/**
+ * A rule that applies to a category, either its own or inherited from an ancestor
+ */
+export interface CategoryRule extends RuleRecord {
+  /** Category the rule is attached to ('' for rules that apply to every category) */
+  inheritedFrom: string;
+  /** Number of levels between the category and the one the rule is attached to (null for global rules) */
+  distance: number | null;
+}
+
+export class MiraklCategories {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * Creates the category table if it does not exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.db.query(generateCategoryTableSQL());
+  }
+
+  /**
+   * Rebuilds a marketplace's category tree from the category columns of its live rules
+   * @param tableName - Rule table name
+   * @returns Tree summary with the cycles, orphans, missing parents and conflicts found
+   */
+  async rebuild(tableName: string): Promise<CategoryTreeSummary> {
+    const result = await this.db.query(
+      `SELECT "codigo-categoria-mirakl" AS code,
+              COALESCE("nome-categoria-mirakl", '') AS name,
+              COALESCE("parent_code-categoria-mirakl", '') AS parent_code,
+              COUNT(*) AS rules
+       FROM "${tableName}"
+       WHERE deleted_at IS NULL AND COALESCE("codigo-categoria-mirakl", '') <> ''
+       GROUP BY 1, 2, 3`
+    );
+
+    const sources: CategorySource[] = result.rows.map((row: any) => ({
+      code: row.code,
+      name: row.name,
+      parentCode: row.parent_code,
+      rules: parseInt(row.rules, 10),
+    }));
+    const tree = buildCategoryTree(sources);
+
+    await this.db.transaction(async client => {
+      await client.query(`DELETE FROM "mirakl_categories" WHERE table_name = $1`, [tableName]);
+      if (tree.categories.length === 0) return;
+
+      await client.query(
+        `INSERT INTO "mirakl_categories" (table_name, code, name, parent_code, depth, path, problem, rule_count)
+         SELECT $1, code, name, parent_code, depth, path, problem, rule_count
+         FROM jsonb_to_recordset($2::jsonb) AS c(
+           code TEXT, name TEXT, parent_code TEXT, depth INTEGER, path TEXT[], problem TEXT, rule_count INTEGER
+         )`,
+        [tableName, JSON.stringify(tree.categories.map(category => this.toRow(category)))]
+      );
+    });
+
+    const summary = this.summarize(tree);
+    Logger.info('Category tree rebuilt', { tableName, ...summary });
+
+    if (tree.cycles.length > 0 || tree.orphans.length > 0 || tree.conflicts.length > 0) {
+      Logger.warn('Category tree has problems', {
+        tableName,
+        cycles: tree.cycles,
+        orphans: tree.orphans,
+        missingParents: tree.missingParents,
+        conflicts: tree.conflicts,
+      });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Lists the categories of a marketplace
+   * @param tableName - Rule table name
+   * @returns Categories ordered by path
+   */
+  async listCategories(tableName: string): Promise<MiraklCategory[]> {
+    const result = await this.db.query(
+      `SELECT code, name, parent_code, depth, path, problem, rule_count
+       FROM "mirakl_categories"
+       WHERE table_name = $1
+       ORDER BY path NULLS LAST, code`,
+      [tableName]
+    );
+
+    return result.rows.map((row: any) => this.fromRow(row));
+  }
+
+  /**
+   * Gets one category of a marketplace
+   * @param tableName - Rule table name
+   * @param code - Category code
+   * @returns Category, or null when the marketplace has no such category
+   */
+  async getCategory(tableName: string, code: string): Promise<MiraklCategory | null> {
+    const result = await this.db.query(
+      `SELECT code, name, parent_code, depth, path, problem, rule_count
+       FROM "mirakl_categories"
+       WHERE table_name = $1 AND code = $2`,
+      [tableName, code]
+    );
+
+    return result.rows.length > 0 ? this.fromRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Gets every live rule that applies to a category: its own rules, the rules of its ancestors
+   * and the rules without a category, nearest first
+   * @param tableName - Rule table name
+   * @param code - Category code
+   * @returns Applicable rules
+   */
+  async getRulesForCategory(tableName: string, code: string): Promise<CategoryRule[]> {
+    const category = await this.getCategory(tableName, code);
+    if (!category) {
+      throw new Error(`Category ${code} not found in ${tableName} (rebuilt on every migration)`);
+    }
+    if (!category.path) {
+      throw new Error(`Category ${code} of ${tableName} is in or below a parent cycle, so its ancestors are unknown`);
+    }
+
+    const result = await this.db.query(
+      `SELECT r.*,
+              COALESCE(r."codigo-categoria-mirakl", '') AS inherited_from,
+              $1::int - array_position($2::text[], r."codigo-categoria-mirakl") AS distance
+       FROM "${tableName}" r
+       WHERE r.deleted_at IS NULL
+       AND (r."codigo-categoria-mirakl" = ANY ($2::text[]) OR COALESCE(r."codigo-categoria-mirakl", '') = '')
+       ORDER BY distance NULLS LAST, r.code, r.variant`,
+      [category.path.length, category.path]
+    );
+
+    return result.rows.map((row: any) => {
+      const { inherited_from, distance, ...rule } = row;
+      return { ...rule, inheritedFrom: inherited_from, distance };
+    });
+  }
+
+  /**
+   * Converts a category to the column names used by the recordset insert
+   * @param category - Category
+   * @returns Row object
+   */
+  private toRow(category: MiraklCategory): Record<string, unknown> {
+    return {
+      code: category.code,
+      name: category.name,
+      parent_code: category.parentCode,
+      depth: category.depth,
+      path: category.path,
+      problem: category.problem,
+      rule_count: category.rules,
+    };
+  }
+
+  /**
+   * Converts a mirakl_categories row to a category
+   * @param row - Database row
+   * @returns Category
+   */
+  private fromRow(row: any): MiraklCategory {
+    return {
+      code: row.code,
+      name: row.name,
+      parentCode: row.parent_code,
+      depth: row.depth,
+      path: row.path,
+      problem: row.problem,
+      rules: row.rule_count,
+    };
+  }
+
+  /**
+   * Summarizes a tree for the migration results
+   * @param tree - Built tree
+   * @returns Summary
+   */
+  private summarize(tree: CategoryTree): CategoryTreeSummary {
+    return {
+      categories: tree.categories.length,
+      roots: tree.categories.filter(category => category.parentCode === null).length,
+      maxDepth: tree.categories.reduce((max, category) => Math.max(max, category.depth ?? 0), 0),
+      cycles: tree.cycles,
+      orphans: tree.orphans,
+      missingParents: tree.missingParents,
+      conflicts: tree.conflicts,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { PoolClient } from 'pg';
+import { Logger } from '../utils/logger';
+import { DatabaseConnection } from './connection';
+import { generateCheckpointTableSQL } from './schema';
+
+export type CheckpointStatus = 'in_progress' | 'completed';
+
+/**
+ * How far a run got migrating one table
+ */
+export interface TableCheckpoint {
+  runId: number;
+  tableName: string;
+  /** Revision of the source documents the run read */
+  sourceRevision: string;
+  status: CheckpointStatus;
+  /** Batches committed, counting those of the runs this one resumed */
+  batchesCommitted: number;
+  /** Source records (in transformation order) covered by the committed batches */
+  recordsCommitted: number;
+  /** Interrupted run whose progress this run continued */
+  resumedFromRun: number | null;
+  updatedAt: Date;
+}
+
+export class MigrationCheckpoints {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * Creates the checkpoint table if it does not exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.db.query(generateCheckpointTableSQL());
+  }
+
+  /**
+   * Records that a run started migrating a table, carrying over the progress of the run it resumes
+   * @param runId - Run id
+   * @param tableName - Rule table name
+   * @param sourceRevision - Revision of the source documents
+   * @param resumed - Checkpoint of the interrupted run, when resuming
+   */
+  async startTable(runId: number, tableName: string, sourceRevision: string, resumed?: TableCheckpoint): Promise<void> {
+    await this.db.query(
+      `INSERT INTO "migration_checkpoints"
+         (run_id, table_name, source_revision, batches_committed, records_committed, resumed_from_run)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (run_id, table_name) DO UPDATE SET
+         source_revision = EXCLUDED.source_revision,
+         status = 'in_progress',
+         batches_committed = EXCLUDED.batches_committed,
+         records_committed = EXCLUDED.records_committed,
+         resumed_from_run = EXCLUDED.resumed_from_run,
+         updated_at = CURRENT_TIMESTAMP`,
+      [
+        runId,
+        tableName,
+        sourceRevision,
+        resumed?.batchesCommitted || 0,
+        resumed?.recordsCommitted || 0,
+        resumed?.runId || null,
+      ]
+    );
+  }
+
+  /**
+   * Moves a table's checkpoint past a committed batch
+   * @param client - Client of the batch transaction, so the checkpoint commits together with the data
+   * @param runId - Run id
+   * @param tableName - Rule table name
+   * @param batchesCommitted - Batches committed so far
+   * @param recordsCommitted - Source records covered by the committed batches
+   */
+  async saveProgress(
+    client: PoolClient,
+    runId: number,
+    tableName: string,
+    batchesCommitted: number,
+    recordsCommitted: number
+  ): Promise<void> {
+    await client.query(
+      `UPDATE "migration_checkpoints"
+       SET batches_committed = $3, records_committed = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE run_id = $1 AND table_name = $2`,
+      [runId, tableName, batchesCommitted, recordsCommitted]
+    );
+  }
+
+  /**
+   * Marks a table as fully migrated by a run
+   * @param runId - Run id
+   * @param tableName - Rule table name
+   */
+  async completeTable(runId: number, tableName: string): Promise<void> {
+    await this.db.query(
+      `UPDATE "migration_checkpoints"
+       SET status = 'completed', updated_at = CURRENT_TIMESTAMP
+       WHERE run_id = $1 AND table_name = $2`,
+      [runId, tableName]
+    );
+    Logger.debug('Table checkpoint completed', { runId, tableName });
+  }
+
+  /**
+   * Gets the checkpoints of a run
+   * @param runId - Run id
+   * @returns Checkpoints keyed by table name
+   */
+  async getCheckpoints(runId: number): Promise<Map<string, TableCheckpoint>> {
+    const result = await this.db.query(
+      `SELECT * FROM "migration_checkpoints" WHERE run_id = $1`,
+      [runId]
+    );
+
+    return new Map(result.rows.map((row: any) => [row.table_name, {
+      runId: row.run_id,
+      tableName: row.table_name,
+      sourceRevision: row.source_revision,
+      status: row.status,
+      batchesCommitted: row.batches_committed,
+      recordsCommitted: row.records_committed,
+      resumedFromRun: row.resumed_from_run,
+      updatedAt: row.updated_at,
+    } as TableCheckpoint]));
+  }
+}
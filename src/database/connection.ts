@@ -1,7 +1,10 @@
-import { Pool, PoolClient } from 'pg';
+import { Pool, PoolClient, types } from 'pg';
 import { appConfig } from '../config/environment';
 import { Logger } from '../utils/logger';
 
+// DATE columns come back as YYYY-MM-DD, the form sheet values are stored in, instead of local-midnight Dates
+types.setTypeParser(types.builtins.DATE, (value: string) => value);
+
 export class DatabaseConnection {
   private static instance: DatabaseConnection;
   private pool: Pool;
@@ -70,6 +73,37 @@ export class DatabaseConnection {
     }
   }
 
+  /**
+   * Runs a callback inside a transaction on a dedicated client
+   * @param callback - Work to perform with the client
+   * @returns Callback result, after COMMIT
+   */
+  async transaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.connect();
+    let releaseError: Error | undefined;
+    try {
+      await client.query('BEGIN');
+      const result = await callback(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error: any) {
+      try {
+        await client.query('ROLLBACK');
+        Logger.debug('Transaction rolled back', { error: error.message });
+      } catch (rollbackError: any) {
+        // The connection is broken; the server discards the transaction and the client must not be reused
+        Logger.warn('Transaction rollback failed, discarding connection', {
+          error: error.message,
+          rollbackError: rollbackError.message,
+        });
+        releaseError = rollbackError;
+      }
+      throw error;
+    } finally {
+      client.release(releaseError);
+    }
+  }
+
   async createDatabase(): Promise<void> {
     try {
       Logger.info('Creating database if not exists', { database: appConfig.database.database });
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { toCopyCsvLine, getCopyErrorLine } from './copy-from';
+
+describe('toCopyCsvLine', () => {
+  it('quotes every value and doubles embedded quotes', () => {
+    assert.equal(toCopyCsvLine(['EAN', 'Say "hi"', 'a,b']), '"EAN","Say ""hi""","a,b"\n');
+  });
+
+  it('writes NULL as an unquoted empty field and the empty string quoted', () => {
+    assert.equal(toCopyCsvLine([null, '', 'x']), ',"","x"\n');
+  });
+
+  it('keeps backslashes and line breaks, which CSV does not escape', () => {
+    assert.equal(toCopyCsvLine(['C:\\rules', 'one\ntwo']), '"C:\\rules","one\ntwo"\n');
+  });
+
+  it('writes text arrays as quoted array literals', () => {
+    assert.equal(toCopyCsvLine([['MAIN_IMAGE', 'IMAGE']]), '"{""MAIN_IMAGE"",""IMAGE""}"\n');
+    assert.equal(toCopyCsvLine([[]]), '"{}"\n');
+  });
+
+  it('escapes backslashes and quotes inside array items', () => {
+    // Array literal {"a\\b","say \"hi\""}, then CSV doubles its quotes
+    assert.equal(toCopyCsvLine([['a\\b', 'say "hi"']]), '"{""a\\\\b"",""say \\""hi\\""""}"\n');
+  });
+});
+
+describe('getCopyErrorLine', () => {
+  it('reads the line from the error context', () => {
+    const error = { message: 'duplicate key', where: 'COPY rules_test_load, line 3, column code: "EAN"' };
+
+    assert.equal(getCopyErrorLine(error), 3);
+    assert.equal(getCopyErrorLine({ where: 'COPY "rules test", line 12' }), 12);
+  });
+
+  it('returns null for errors not tied to a line', () => {
+    assert.equal(getCopyErrorLine({ message: 'connection terminated' }), null);
+    assert.equal(getCopyErrorLine({ where: 'PL/pgSQL function check_rule() line 4 at RAISE' }), null);
+    assert.equal(getCopyErrorLine(null), null);
+  });
+});
@@ -0,0 +1,117 @@
+import { Connection, Submittable } from 'pg';
+
+/** Size of the CopyData messages rows are sent in */
+const COPY_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Value of one COPY column: text, a text array, or NULL
+ */
+export type CopyValue = string | string[] | null;
+
+/**
+ * Runs a COPY ... FROM STDIN (FORMAT csv) statement and sends rows to it.
+ * pg routes the COPY protocol messages to the active query, so no extra driver is needed.
+ *
+ * Usage: `await client.query(new CopyFromQuery(sql, rows)).done`
+ */
+export class CopyFromQuery implements Submittable {
+  /** Resolves with the number of rows copied once the server is ready for the next query */
+  readonly done: Promise<number>;
+
+  private rowCount = 0;
+  private error: Error | null = null;
+  private resolve!: (rowCount: number) => void;
+  private reject!: (error: Error) => void;
+
+  /**
+   * @param text - COPY statement reading CSV from STDIN
+   * @param rows - Rows, one value per copied column
+   */
+  constructor(private readonly text: string, private readonly rows: Iterable<CopyValue[]>) {
+    this.done = new Promise((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+  }
+
+  submit(connection: Connection): void {
+    connection.query(this.text);
+  }
+
+  handleCopyInResponse(connection: any): void {
+    try {
+      let chunk = '';
+      for (const row of this.rows) {
+        chunk += toCopyCsvLine(row);
+        if (chunk.length >= COPY_CHUNK_SIZE) {
+          connection.sendCopyFromChunk(Buffer.from(chunk, 'utf8'));
+          chunk = '';
+        }
+      }
+      if (chunk !== '') {
+        connection.sendCopyFromChunk(Buffer.from(chunk, 'utf8'));
+      }
+      connection.endCopyFrom();
+    } catch (error: any) {
+      // The server answers with an error and the query rejects with it
+      connection.sendCopyFail(error.message);
+    }
+  }
+
+  handleCommandComplete(message: { text: string }): void {
+    // Command tag: "COPY <rows>"
+    this.rowCount = parseInt(message.text.split(' ').pop() || '0', 10) || 0;
+  }
+
+  handleError(error: Error): void {
+    this.error = error;
+    // Connection-level errors are not followed by ReadyForQuery
+    this.reject(error);
+  }
+
+  handleReadyForQuery(): void {
+    if (!this.error) {
+      this.resolve(this.rowCount);
+    }
+  }
+
+  handleEmptyQuery(): void {
+    // Not sent for COPY statements
+  }
+
+  handleCopyData(): void {
+    // Only sent by COPY ... TO STDOUT
+  }
+}
+
+/**
+ * Formats a row as a CSV line for COPY: NULL is an unquoted empty field, every other value is quoted
+ * @param values - Column values
+ * @returns CSV line, newline included
+ */
+export function toCopyCsvLine(values: CopyValue[]): string {
+  return values.map(value => {
+    if (value === null) return '';
+    const text = Array.isArray(value) ? toArrayLiteral(value) : value;
+    return `"${text.replace(/"/g, '""')}"`;
+  }).join(',') + '\n';
+}
+
+/**
+ * Formats a text array as a PostgreSQL array literal
+ * @param items - Array items
+ * @returns Literal such as {"a","b"}
+ */
+function toArrayLiteral(items: string[]): string {
+  return `{${items.map(item => `"${item.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')}}`;
+}
+
+/**
+ * Gets the 1-based line a COPY error was raised on, from the error context ("COPY t, line 3, column x: ...")
+ * @param error - Error raised by a COPY statement
+ * @returns Line number, or null when the error is not tied to a line
+ */
+export function getCopyErrorLine(error: any): number | null {
+  const match = /COPY [^,]+, line (\d+)/.exec(error?.where || '');
+  return match ? parseInt(match[1], 10) : null;
+}
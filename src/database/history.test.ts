@@ -0,0 +1,56 @@
+import { describe, it, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MigrationHistory } from './history';
+
+describe('MigrationHistory run locks', () => {
+  let history: any;
+  let heldBy: number | null;
+  let queries: string[];
+  let released: number;
+
+  beforeEach(() => {
+    heldBy = null;
+    queries = [];
+    released = 0;
+
+    // Each client is a session; the lock is held by at most one of them
+    let sessions = 0;
+    history = new MigrationHistory();
+    history.db = {
+      getClient: async () => {
+        const session = ++sessions;
+        return {
+          query: async (text: string) => {
+            queries.push(text);
+            if (text.includes('pg_try_advisory_lock')) {
+              const locked = heldBy === null || heldBy === session;
+              if (locked) heldBy = session;
+              return { rows: [{ locked }] };
+            }
+            heldBy = null;
+            return { rows: [] };
+          },
+          release: () => released++,
+        };
+      },
+    };
+  });
+
+  it('keeps the connection of a taken lock until the locks are released', async () => {
+    assert.equal(await history.lockRun(3), true);
+    assert.equal(await history.lockRun(3), true);
+    assert.equal(released, 0);
+
+    await history.releaseRunLocks();
+
+    assert.equal(released, 1);
+    assert.ok(queries.some(text => text.includes('pg_advisory_unlock')));
+  });
+
+  it('reports a lock held by another session and returns the connection', async () => {
+    heldBy = 99;
+
+    assert.equal(await history.lockRun(3), false);
+    assert.equal(released, 1);
+  });
+});
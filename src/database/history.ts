@@ -0,0 +1,325 @@
+import { PoolClient } from 'pg';
+import { Logger } from '../utils/logger';
+import { ChangeType, RuleChange } from '../utils/record-diff';
+import { DatabaseConnection } from './connection';
+import { RULE_NATURAL_KEY_COLUMNS, SYSTEM_COLUMNS } from './schema';
+
+export type MigrationRunStatus = 'running' | 'completed' | 'failed';
+
+export interface MigrationRunTableResult {
+  tableName: string;
+  recordsInserted: number;
+  recordsUpdated: number;
+  recordsUnchanged: number;
+  recordsSkipped: number;
+  recordsRemoved: number;
+  errors: number;
+  duration: number;
+  recordsResumed?: number;
+  /** Skipped because the source did not change */
+  unchanged?: boolean;
+  loadMethod?: 'copy' | 'insert';
+  recordsPerSecond?: number;
+}
+
+export interface MigrationRun {
+  id: number;
+  startedAt: Date;
+  finishedAt: Date | null;
+  status: MigrationRunStatus;
+  options: Record<string, any>;
+  tableResults: MigrationRunTableResult[];
+  error: string | null;
+}
+
+export interface StoredRuleChange extends RuleChange {
+  id: number;
+  runId: number;
+  tableName: string;
+  createdAt: Date;
+}
+
+// Seven bind parameters per change keeps a 1000-row insert far below PostgreSQL's 65535 limit
+const CHANGE_INSERT_CHUNK = 1000;
+
+// First key of the advisory locks of migration runs (the second is the run id)
+const RUN_LOCK_NAMESPACE = 4201;
+
+export class MigrationHistory {
+  private db: DatabaseConnection;
+  private runLocks = new Map<number, PoolClient>();
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * Records the start of a migration run
+   * @param options - Options the run was started with
+   * @returns Run id
+   */
+  async startRun(options: Record<string, any>): Promise<number> {
+    const result = await this.db.query(
+      `INSERT INTO "migration_runs" (status, options) VALUES ('running', $1) RETURNING id`,
+      [JSON.stringify(options)]
+    );
+    const runId = result.rows[0].id;
+
+    Logger.info('Migration run started', { runId });
+    return runId;
+  }
+
+  /**
+   * Records the end of a migration run
+   * @param runId - Run id
+   * @param status - Final status
+   * @param tableResults - Per-table counts
+   * @param error - Error message for failed runs
+   */
+  async finishRun(
+    runId: number,
+    status: MigrationRunStatus,
+    tableResults: MigrationRunTableResult[],
+    error?: string
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE "migration_runs"
+       SET status = $2, finished_at = CURRENT_TIMESTAMP, table_results = $3, error = $4
+       WHERE id = $1`,
+      [runId, status, JSON.stringify(tableResults), error || null]
+    );
+
+    Logger.info('Migration run finished', { runId, status, tables: tableResults.length });
+  }
+
+  /**
+   * Takes the advisory lock of a run on a dedicated connection, held until releaseRunLocks. A run holds its
+   * own lock while it executes, and the lock of a crashed run goes away with its connection.
+   * @param runId - Run id
+   * @returns False when another session holds the lock (the run is still executing)
+   */
+  async lockRun(runId: number): Promise<boolean> {
+    if (this.runLocks.has(runId)) {
+      return true;
+    }
+
+    const client = await this.db.getClient();
+    let locked = false;
+    try {
+      const result = await client.query('SELECT pg_try_advisory_lock($1, $2) AS locked', [RUN_LOCK_NAMESPACE, runId]);
+      locked = result.rows[0].locked;
+    } finally {
+      if (locked) {
+        this.runLocks.set(runId, client);
+      } else {
+        client.release();
+      }
+    }
+
+    Logger.debug('Migration run lock requested', { runId, locked });
+    return locked;
+  }
+
+  /**
+   * Releases every run lock taken by this instance; failures only drop the connection
+   */
+  async releaseRunLocks(): Promise<void> {
+    for (const [runId, client] of this.runLocks) {
+      try {
+        await client.query('SELECT pg_advisory_unlock($1, $2)', [RUN_LOCK_NAMESPACE, runId]);
+        client.release();
+      } catch (error: any) {
+        Logger.warn('Failed to release migration run lock', { runId, error: error.message });
+        client.release(true);
+      }
+    }
+    this.runLocks.clear();
+  }
+
+  /**
+   * Stores row-level change events for a table
+   * @param runId - Run id
+   * @param tableName - Rule table name
+   * @param changes - Change events
+   * @param client - Client of an open transaction, so changes commit together with the data
+   */
+  async recordChanges(
+    runId: number,
+    tableName: string,
+    changes: RuleChange[],
+    client?: PoolClient
+  ): Promise<void> {
+    const executor = client || this.db;
+
+    for (let i = 0; i < changes.length; i += CHANGE_INSERT_CHUNK) {
+      const chunk = changes.slice(i, i + CHANGE_INSERT_CHUNK);
+      const values: any[] = [];
+      const placeholders = chunk.map((change, index) => {
+        const offset = index * 7;
+        values.push(
+          runId,
+          tableName,
+          change.changeType,
+          change.code,
+          change.categoryCode,
+          change.variant,
+          JSON.stringify(change.changes)
+        );
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`;
+      }).join(', ');
+
+      await executor.query(
+        `INSERT INTO "rule_changes" (run_id, table_name, change_type, code, category_code, variant, changes)
+         VALUES ${placeholders}`,
+        values
+      );
+    }
+
+    Logger.debug('Rule changes recorded', { runId, tableName, changes: changes.length });
+  }
+
+  /**
+   * Records the differences between a live table and the rows about to replace it
+   * (a shadow table in replace mode, a restored snapshot on rollback)
+   * @param runId - Run id
+   * @param tableName - Live table name
+   * @param replacementName - Table holding the replacement rows
+   * @param client - Client of an open transaction (needed for temporary tables)
+   * @returns Number of changes per change type
+   */
+  async recordTableDiff(
+    runId: number,
+    tableName: string,
+    replacementName: string,
+    client?: PoolClient
+  ): Promise<Record<ChangeType, number>> {
+    const executor = client || this.db;
+    const keyJoin = RULE_NATURAL_KEY_COLUMNS
+      .map(col => `COALESCE(o."${col}", '') = COALESCE(n."${col}", '')`)
+      .join(' AND ');
+    const keyValues = RULE_NATURAL_KEY_COLUMNS
+      .map(col => `COALESCE(n."${col}", o."${col}", '')`)
+      .join(', ');
+    const differs = `COALESCE(to_jsonb(o) ->> col, '') IS DISTINCT FROM COALESCE(to_jsonb(n) ->> col, '')`;
+
+    const sql = `
+      WITH inserted AS (
+        INSERT INTO "rule_changes" (run_id, table_name, change_type, code, category_code, variant, changes)
+        SELECT
+          $1,
+          $2,
+          CASE WHEN o.id IS NULL THEN 'added' WHEN n.id IS NULL THEN 'removed' ELSE 'modified' END,
+          ${keyValues},
+          COALESCE((
+            SELECT jsonb_object_agg(col, jsonb_build_object(
+              'before', CASE WHEN o.id IS NULL THEN NULL ELSE COALESCE(to_jsonb(o) ->> col, '') END,
+              'after', CASE WHEN n.id IS NULL THEN NULL ELSE COALESCE(to_jsonb(n) ->> col, '') END
+            ))
+            FROM unnest($3::text[]) AS col
+            WHERE ${differs}
+          ), '{}'::jsonb)
+        FROM (SELECT * FROM "${tableName}" WHERE deleted_at IS NULL) o
+        FULL OUTER JOIN (SELECT * FROM "${replacementName}" WHERE deleted_at IS NULL) n ON ${keyJoin}
+        WHERE o.id IS NULL OR n.id IS NULL OR EXISTS (
+          SELECT 1 FROM unnest($3::text[]) AS col WHERE ${differs}
+        )
+        RETURNING change_type
+      )
+      SELECT change_type, COUNT(*) AS count FROM inserted GROUP BY change_type
+    `;
+
+    // Compare every rule column of the live table, including the ones its schema adds
+    const columns = await executor.query(
+      `SELECT column_name FROM information_schema.columns
+       WHERE table_schema = 'public' AND table_name = $1 AND NOT (column_name = ANY($2::text[]))`,
+      [tableName, [...SYSTEM_COLUMNS]]
+    );
+    const ruleColumns = columns.rows.map((row: any) => row.column_name);
+
+    const result = await executor.query(sql, [runId, tableName, ruleColumns]);
+    const counts: Record<ChangeType, number> = { added: 0, modified: 0, removed: 0 };
+    for (const row of result.rows) {
+      counts[row.change_type as ChangeType] = parseInt(row.count, 10);
+    }
+
+    Logger.info('Table differences recorded', { runId, tableName, replacementName, ...counts });
+    return counts;
+  }
+
+  /**
+   * Lists the most recent migration runs
+   * @param limit - Maximum number of runs
+   * @returns Runs, newest first
+   */
+  async listRuns(limit: number = 20): Promise<MigrationRun[]> {
+    const result = await this.db.query(
+      `SELECT * FROM "migration_runs" ORDER BY id DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map((row: any) => this.mapRun(row));
+  }
+
+  /**
+   * Gets a single migration run
+   * @param runId - Run id
+   * @returns Run or null if it does not exist
+   */
+  async getRun(runId: number): Promise<MigrationRun | null> {
+    const result = await this.db.query(`SELECT * FROM "migration_runs" WHERE id = $1`, [runId]);
+    return result.rows.length > 0 ? this.mapRun(result.rows[0]) : null;
+  }
+
+  /**
+   * Gets the change events recorded by a run
+   * @param runId - Run id
+   * @param tableName - Optional table filter
+   * @param limit - Maximum number of changes
+   * @returns Change events in recording order
+   */
+  async getRunChanges(runId: number, tableName?: string, limit?: number): Promise<StoredRuleChange[]> {
+    const params: any[] = [runId];
+    let sql = `SELECT * FROM "rule_changes" WHERE run_id = $1`;
+
+    if (tableName) {
+      params.push(tableName);
+      sql += ` AND table_name = $${params.length}`;
+    }
+
+    sql += ' ORDER BY table_name, id';
+
+    if (limit) {
+      params.push(limit);
+      sql += ` LIMIT $${params.length}`;
+    }
+
+    const result = await this.db.query(sql, params);
+    return result.rows.map((row: any) => ({
+      id: Number(row.id),
+      runId: row.run_id,
+      tableName: row.table_name,
+      changeType: row.change_type,
+      code: row.code,
+      categoryCode: row.category_code,
+      variant: row.variant,
+      changes: row.changes,
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Maps a migration_runs row
+   * @param row - Database row
+   * @returns Migration run
+   */
+  private mapRun(row: any): MigrationRun {
+    return {
+      id: row.id,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      status: row.status,
+      options: row.options || {},
+      tableResults: row.table_results || [],
+      error: row.error,
+    };
+  }
+}
@@ -0,0 +1,213 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DatabaseMigration, MigrationOptions } from './migration';
+import { ErrorCollector } from '../utils/error-handler';
+import { DEFAULT_TABLE_SCHEMA } from './schema';
+import { TimeoutError } from '../utils/retry';
+import { appConfig } from '../config/environment';
+
+describe('DatabaseMigration deletion policy', () => {
+  let migration: any;
+  let markCalls: number;
+  const seenKeys = new Set(['code-1\u0000cat\u0000', 'code-2\u0000cat\u0000']);
+  const loaded = { tableName: 'rules_test', recordsInserted: 2, recordsUpdated: 0, recordsUnchanged: 0, recordsSkipped: 0, errors: [] };
+
+  beforeEach(() => {
+    migration = new DatabaseMigration();
+    markCalls = 0;
+    migration.markRemovedRecords = async () => {
+      markCalls++;
+      return 3;
+    };
+  });
+
+  const applyDeletionPolicy = (options: MigrationOptions, result = loaded) =>
+    migration.applyDeletionPolicy('rules_test', seenKeys, result, options, new ErrorCollector());
+
+  it('soft-deletes missing rules when every source row was loaded', async () => {
+    const deletion = await applyDeletionPolicy({ mode: 'sync', rejectedRecords: () => 0 });
+
+    assert.equal(markCalls, 1);
+    assert.equal(deletion.recordsRemoved, 3);
+  });
+
+  it('skips deletion detection when the source had rejected rows', async () => {
+    const deletion = await applyDeletionPolicy({ mode: 'sync', rejectedRecords: () => 1 });
+
+    assert.equal(markCalls, 0);
+    assert.equal(deletion.recordsRemoved, 0);
+  });
+
+  it('skips deletion detection when a batch failed', async () => {
+    const deletion = await applyDeletionPolicy({ mode: 'sync' }, { ...loaded, errors: ['Batch 1: failed'] });
+
+    assert.equal(markCalls, 0);
+    assert.equal(deletion.recordsRemoved, 0);
+  });
+
+  it('never removes rules outside sync mode', async () => {
+    await applyDeletionPolicy({ mode: 'append', rejectedRecords: () => 0 });
+
+    assert.equal(markCalls, 0);
+  });
+});
+
+describe('DatabaseMigration shadow table swap', () => {
+  let migration: any;
+  let queries: string[];
+  let columns: string[];
+  let triggers: string[];
+
+  beforeEach(() => {
+    queries = [];
+    columns = ['id', 'code', 'label', 'created_at'];
+    triggers = [];
+
+    const query = async (text: string) => {
+      queries.push(text);
+      if (text.includes('information_schema.columns')) return { rows: columns.map(column_name => ({ column_name })) };
+      if (text.includes('pg_trigger')) return { rows: triggers.map(tgname => ({ tgname })) };
+      if (text.includes('pg_description')) return { rows: [{ statement: 'GRANT SELECT ON "rules_test__shadow" TO reporting' }] };
+      return { rows: [] };
+    };
+    migration = new DatabaseMigration();
+    migration.db = { query, transaction: async (work: (client: any) => Promise<void>) => work({ query }) };
+  });
+
+  it('accepts a table holding only declared columns', async () => {
+    await migration.assertReplaceable('rules_test', DEFAULT_TABLE_SCHEMA);
+  });
+
+  it('refuses a table with columns the schema does not declare', async () => {
+    columns.push('internal_notes');
+
+    await assert.rejects(migration.assertReplaceable('rules_test', DEFAULT_TABLE_SCHEMA), /would drop columns .*internal_notes/);
+  });
+
+  it('refuses a table with triggers', async () => {
+    triggers.push('audit_rules');
+
+    await assert.rejects(migration.assertReplaceable('rules_test', DEFAULT_TABLE_SCHEMA), /triggers .*audit_rules/);
+  });
+
+  it('copies grants and comments to the shadow table before dropping the live table', async () => {
+    await migration.swapShadowTable('rules_test', 'rules_test__shadow');
+
+    const grant = queries.indexOf('GRANT SELECT ON "rules_test__shadow" TO reporting');
+    const drop = queries.indexOf('DROP TABLE IF EXISTS "rules_test"');
+    assert.ok(grant !== -1 && drop !== -1 && grant < drop);
+  });
+});
+
+describe('DatabaseMigration dry-run comparison', () => {
+  const rule = (code: string, label: string) => ({
+    code, label, description: '', requirement_level: 'REQUIRED', roles: '', type: 'TEXT', validations: '', variant: 'false',
+    'codigo-categoria-mirakl': '1204', 'nome-categoria-mirakl': 'Phones', 'parent_code-categoria-mirakl': '',
+  });
+  const table = [rule('EAN', 'EAN'), rule('COLOR', 'Colour'), rule('WEIGHT', 'Weight')].map(row => ({ ...row, deleted_at: null }));
+
+  async function* batchesOf(...batches: any[][]) {
+    yield* batches;
+  }
+
+  it('looks up only the keys of each batch and finds removed rules with one query', async () => {
+    const migration: any = new DatabaseMigration();
+    const queries: Array<{ text: string; codes: string[] }> = [];
+    migration.tableExists = async () => true;
+    migration.db = {
+      query: async (text: string, params: string[][]) => {
+        queries.push({ text, codes: params[0] });
+        const rows = text.includes('NOT EXISTS')
+          ? table.filter(row => !params[0].includes(row.code))
+          : table.filter(row => params[0].includes(row.code));
+        return { rows };
+      },
+    };
+
+    const result = await migration.previewChanges(
+      'rules_test',
+      batchesOf([rule('EAN', 'EAN')], [rule('COLOR', 'Color'), rule('SIZE', 'Size')]),
+      { mode: 'sync', dryRun: true, rejectedRecords: () => 0 },
+      new Set<string>()
+    );
+
+    assert.deepEqual(queries.map(query => query.codes), [['EAN'], ['COLOR', 'SIZE'], ['EAN', 'COLOR', 'SIZE']]);
+    assert.ok(queries.every(query => query.text.includes('unnest(')));
+    assert.equal(result.recordsInserted, 1);
+    assert.equal(result.recordsUpdated, 1);
+    assert.equal(result.recordsUnchanged, 1);
+    assert.equal(result.preview.removed, 1);
+  });
+});
+
+describe('DatabaseMigration timeout', () => {
+  const record = (code: string) => ({ code, 'codigo-categoria-mirakl': '1204', variant: 'false' });
+
+  async function* batchesOf(...batches: any[][]) {
+    yield* batches;
+  }
+
+  it('reports the batches committed before the timeout', async () => {
+    const migration: any = new DatabaseMigration();
+    let calls = 0;
+    migration.prepareRuleTable = async () => [];
+    migration.insertBatch = async () => {
+      if (++calls === 3) throw new TimeoutError('Table rules_test exceeded MIGRATION_TIMEOUT (1s)');
+      return { inserted: 1, updated: 1, unchanged: 0, skipped: 0, errors: [] };
+    };
+
+    const result = await migration.migrateToTable(
+      'rules_test',
+      batchesOf([record('EAN'), record('COLOR')], [record('SIZE'), record('WEIGHT')], [record('MODEL'), record('BRAND')]),
+      { mode: 'sync', batchSize: 2, loadMethod: 'insert' },
+      new ErrorCollector()
+    );
+
+    assert.equal(result.recordsInserted, 2);
+    assert.equal(result.recordsUpdated, 2);
+    assert.deepEqual(result.errors, ['Table rules_test exceeded MIGRATION_TIMEOUT (1s)']);
+  });
+});
+
+describe('DatabaseMigration batch retries', () => {
+  let migration: any;
+  let transactions: number;
+  const baseDelay = appConfig.migration.retryBaseDelay;
+
+  beforeEach(() => {
+    appConfig.migration.retryBaseDelay = 1;
+    transactions = 0;
+    migration = new DatabaseMigration();
+    migration.writeIsolatingFailures = async () => ({ rows: [{ inserted: true }], rejected: [] });
+    // The first COMMIT loses its connection after the batch was written
+    migration.db = {
+      transaction: async (work: (client: any) => Promise<any>) => {
+        const result = await work({});
+        if (++transactions === 1) throw new Error('Connection terminated unexpectedly');
+        return result;
+      },
+    };
+  });
+
+  const insertBatch = (options: MigrationOptions) =>
+    migration.insertBatch('rules_test', [{ code: 'EAN' }], { loadMethod: 'insert', ...options });
+
+  afterEach(() => {
+    appConfig.migration.retryBaseDelay = baseDelay;
+  });
+
+  it('replays a batch lost while committing into its conflict clause', async () => {
+    const result = await insertBatch({ mode: 'append', skipExisting: true });
+
+    assert.equal(transactions, 2);
+    assert.equal(result.inserted, 1);
+  });
+
+  it('does not replay a plain append batch that may have been written', async () => {
+    const result = await insertBatch({ mode: 'append', skipExisting: false });
+
+    assert.equal(transactions, 1);
+    assert.equal(result.inserted, 0);
+    assert.match(result.errors[0], /Connection terminated/);
+  });
+});
@@ -1,29 +1,155 @@
+import { PoolClient } from 'pg';
 import { Logger } from '../utils/logger';
 import { ErrorCollector } from '../utils/error-handler';
+import { createRuleChange, diffRuleRecords, RuleChange } from '../utils/record-diff';
+import { DiffPreview, DiffPreviewBuilder } from '../utils/diff-preview';
 import { DatabaseConnection } from './connection';
-import { RuleRecord, generateCreateTableSQL, generateConfigurationTableSQL, generateInsertConfigurationSQL } from './schema';
+import { MigrationHistory } from './history';
+import { CopyFromQuery, CopyValue, getCopyErrorLine } from './copy-from';
+import { RuleSnapshots } from './snapshots';
+import { MigrationCheckpoints } from './checkpoints';
+import {
+  RuleRecord,
+  TableSchema,
+  DEFAULT_TABLE_SCHEMA,
+  SYSTEM_COLUMNS,
+  DERIVED_COLUMNS,
+  RULE_NATURAL_KEY_COLUMNS,
+  getSchemaColumnNames,
+  getStoredColumnNames,
+  getNaturalKey,
+  splitNaturalKey,
+  getShadowTableName,
+  generateCreateTableSQL,
+  generateAlterTableSQL,
+  generateConfigurationTableSQL,
+  generateMigrationHistorySQL,
+  generateCategoryTableSQL,
+  generateValueListTablesSQL,
+  generateInsertConfigurationSQL,
+} from './schema';
 import { appConfig } from '../config/environment';
+import { ComparedRule } from '../processing/attribute-comparison';
+import { SourceState } from '../sources/source-state';
+import { throwIfAborted, TimeoutError, withRetry } from '../utils/retry';
+
+/**
+ * How records are written to a rule table
+ * - append: records whose natural key is not in the table yet are inserted; existing rules are kept as they are
+ * - sync: records are upserted on their natural key (code + category + variant)
+ * - replace: records are loaded into a shadow table that is swapped in atomically. Grants and comments of the
+ *   live table are copied to the shadow table; tables with columns their schema does not declare or with
+ *   triggers are refused, since the swap would drop them
+ */
+export type MigrationMode = 'append' | 'sync' | 'replace';
+
+/**
+ * How batches are sent to PostgreSQL
+ * - copy: COPY FROM STDIN into a staging table, then one INSERT ... SELECT per batch
+ * - insert: one multi-row parameterized INSERT per batch (fallback)
+ */
+export type LoadMethod = 'copy' | 'insert';
+
+export const LOAD_METHODS: LoadMethod[] = ['copy', 'insert'];
+
+// PostgreSQL accepts at most 65535 bind parameters per statement
+const MAX_BIND_PARAMETERS = 65535;
+
+// Temporary table batches are copied into; dropped once its rows are moved into the target table
+const COPY_STAGING_TABLE = 'rule_copy_staging';
+
+// Savepoint each attempt to write part of a batch runs under
+const BATCH_SAVEPOINT = 'batch_rows';
+
+// SQLSTATE classes raised by the data of a row (cardinality, data exception, integrity constraint);
+// other errors fail the whole batch
+const ROW_LEVEL_ERROR_CLASSES = ['21', '22', '23'];
 
 export interface MigrationResult {
   tableName: string;
   recordsInserted: number;
+  recordsUpdated: number;
+  recordsUnchanged: number;
   recordsSkipped: number;
+  /** Rows soft-deleted because they disappeared from the source (sync mode) */
+  recordsRemoved: number;
+  /** Soft-deleted rows hard-deleted by --prune */
+  recordsPruned: number;
   errors: string[];
   duration: number;
+  /** Comparison with the current table contents (dry runs only) */
+  preview?: DiffPreview;
+  /** ALTER TABLE statements that brought the table in line with its schema (planned only in dry runs) */
+  schemaChanges?: string[];
+  /** How the batches were sent (not set for dry runs) */
+  loadMethod?: LoadMethod;
+  /** Records read from the source per second of table migration */
+  recordsPerSecond?: number;
+  /** Records committed by the interrupted run this one resumed, not written again */
+  recordsResumed?: number;
 }
 
+type InsertionResult = Omit<
+  MigrationResult,
+  'duration' | 'recordsRemoved' | 'recordsPruned' | 'schemaChanges' | 'loadMethod' | 'recordsPerSecond'
+>;
+
 export interface MigrationOptions {
   dryRun?: boolean;
   batchSize?: number;
   skipExisting?: boolean;
   truncateTable?: boolean;
+  mode?: MigrationMode;
+  /** How batches are sent (default: appConfig.migration.loadMethod) */
+  loadMethod?: LoadMethod;
+  /** Number of records the transformation produced, read once the load finished and checked against the shadow table in replace mode */
+  expectedRecords?: () => number;
+  /**
+   * Number of source rows dropped before the load (unreadable rows, failed validation), read once the load finished.
+   * Their rules cannot be told from removed ones, so sync mode skips deletion detection when any were dropped.
+   */
+  rejectedRecords?: () => number;
+  /** Hard-delete soft-deleted rows older than the grace period */
+  prune?: boolean;
+  deletionGraceDays?: number;
+  /** Migration run that row-level change events and batch checkpoints are recorded against */
+  runId?: number;
+  /** Progress committed by an interrupted run: its first records are skipped (not used in replace mode) */
+  resumeFrom?: { batches: number; records: number };
+  /** Number of per-run table snapshots to keep */
+  snapshotRetentionRuns?: number;
+  /** Columns of the target table (default: the core rule columns) */
+  schema?: TableSchema;
+  /** Stops the load between batches: committed batches are kept, the rest of the source is not read */
+  signal?: AbortSignal;
+}
+
+interface BatchResult {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  errors: string[];
+}
+
+interface IsolatedWriteResult {
+  /** Rows written, as returned by the write statements */
+  rows: Array<{ inserted: boolean }>;
+  /** One message per record the database rejected */
+  rejected: string[];
 }
 
 export class DatabaseMigration {
   private db: DatabaseConnection;
+  private history: MigrationHistory;
+  private snapshots: RuleSnapshots;
+  private checkpoints: MigrationCheckpoints;
 
   constructor() {
     this.db = DatabaseConnection.getInstance();
+    this.history = new MigrationHistory();
+    this.snapshots = new RuleSnapshots();
+    this.checkpoints = new MigrationCheckpoints();
   }
 
   /**
@@ -44,6 +170,13 @@ export class DatabaseMigration {
       // Initialize configuration with URL mappings
       await this.initializeConfiguration();
 
+      // Create run history, checkpoint, change log, snapshot, category and value list tables
+      await this.createHistoryTables();
+      await this.checkpoints.ensureTable();
+      await this.snapshots.ensureTable();
+      await this.db.query(generateCategoryTableSQL());
+      await this.db.query(generateValueListTablesSQL());
+
       Logger.info('Database setup completed successfully');
       return true;
     } catch (error: any) {
@@ -58,13 +191,18 @@ export class DatabaseMigration {
    * Creates a rule table
    * @param tableName - Name of the table to create
    * @param errorCollector - Error collector instance
+   * @param schema - Columns of the table
    * @returns Creation success status
    */
-  async createRuleTable(tableName: string, errorCollector: ErrorCollector): Promise<boolean> {
+  async createRuleTable(
+    tableName: string,
+    errorCollector: ErrorCollector,
+    schema: TableSchema = DEFAULT_TABLE_SCHEMA
+  ): Promise<boolean> {
     try {
       Logger.info('Creating rule table', { tableName });
 
-      const sql = generateCreateTableSQL(tableName);
+      const sql = generateCreateTableSQL(tableName, schema);
       await this.db.query(sql);
 
       Logger.info('Rule table created successfully', { tableName });
@@ -78,30 +216,85 @@ export class DatabaseMigration {
   }
 
   /**
-   * Migrates data to a specific table
+   * Adds the columns a table schema declares and converts columns whose type changed.
+   * Columns the schema no longer declares are kept and only reported.
+   * @param tableName - Rule table name
+   * @param schema - Table schema
+   * @param dryRun - Only report the statements that would run
+   * @returns ALTER TABLE statements applied (or planned)
+   */
+  async syncTableSchema(tableName: string, schema: TableSchema, dryRun: boolean = false): Promise<string[]> {
+    const result = await this.db.query(
+      `SELECT column_name, data_type FROM information_schema.columns WHERE table_schema = 'public' AND table_name = $1`,
+      [tableName]
+    );
+    const existingColumns = new Map<string, string>(
+      result.rows.map((row: any) => [row.column_name, row.data_type])
+    );
+
+    if (existingColumns.size === 0) {
+      return [];
+    }
+
+    const undeclared = this.findUndeclaredColumns([...existingColumns.keys()], schema);
+    if (undeclared.length > 0) {
+      Logger.warn('Table has columns its schema does not declare; they are kept and left empty', {
+        tableName,
+        columns: undeclared,
+      });
+    }
+
+    const statements = generateAlterTableSQL(tableName, schema, existingColumns);
+    if (statements.length === 0 || dryRun) {
+      if (statements.length > 0) {
+        Logger.info('Dry run - table schema changes not applied', { tableName, statements });
+      }
+      return statements;
+    }
+
+    await this.db.transaction(async client => {
+      for (const statement of statements) {
+        await client.query(statement);
+      }
+    });
+
+    Logger.info('Table schema updated', { tableName, statements });
+    return statements;
+  }
+
+  /**
+   * Lists the columns of a table its schema does not declare
+   * @param columns - Column names of the table
+   * @param schema - Table schema
+   * @returns Undeclared column names
+   */
+  private findUndeclaredColumns(columns: string[], schema: TableSchema): string[] {
+    const declared = new Set([...getSchemaColumnNames(schema), ...DERIVED_COLUMNS, ...SYSTEM_COLUMNS]);
+    return columns.filter(column => !declared.has(column));
+  }
+
+  /**
+   * Migrates records to a specific table, reading them batch by batch as they are produced
    * @param tableName - Target table name
-   * @param records - Records to insert
+   * @param batches - Records to write, in batches
    * @param options - Migration options
    * @param errorCollector - Error collector instance
    * @returns Migration result
    */
   async migrateToTable(
     tableName: string,
-    records: RuleRecord[],
+    batches: AsyncIterable<RuleRecord[]>,
     options: MigrationOptions,
     errorCollector: ErrorCollector
   ): Promise<MigrationResult> {
     const startTime = Date.now();
+    const totals = this.createInsertionResult(tableName);
     
     try {
-      Logger.info('Starting table migration', { 
-        tableName, 
-        recordCount: records.length, 
-        options 
-      });
+      Logger.info('Starting table migration', { tableName, options });
 
-      // Create table if it doesn't exist
-      await this.createRuleTable(tableName, errorCollector);
+      // Create table if it doesn't exist and bring its columns in line with the schema
+      const schemaChanges = await this.prepareRuleTable(tableName, options, errorCollector);
 
       // Truncate table if requested
       if (options.truncateTable && !options.dryRun) {
@@ -109,12 +302,27 @@ export class DatabaseMigration {
       }
 
       // Perform the migration
-      const result = await this.insertRecords(tableName, records, options, errorCollector);
+      const seenKeys = new Set<string>();
+      const result = this.usesShadowTable(options)
+        ? await this.replaceViaShadowTable(tableName, options, errorCollector, target =>
+            this.insertRecords(target, batches, options, errorCollector, seenKeys))
+        : await this.insertRecords(tableName, batches, options, errorCollector, seenKeys, totals);
+
+      // Soft-delete rules that are no longer in the source and prune expired ones
+      const deletion = await this.applyDeletionPolicy(tableName, seenKeys, result, options, errorCollector);
+
+      // Keep the table contents of this run as a rollback target
+      await this.snapshotTable(tableName, options, errorCollector);
 
       const duration = Date.now() - startTime;
+      const recordsRead = result.recordsInserted + result.recordsUpdated + result.recordsUnchanged + result.recordsSkipped;
       const finalResult: MigrationResult = {
         ...result,
+        ...deletion,
         duration,
+        schemaChanges,
+        loadMethod: options.dryRun ? undefined : this.getLoadMethod(options),
+        recordsPerSecond: duration > 0 ? Math.round(recordsRead / (duration / 1000)) : recordsRead,
       };
 
       Logger.info('Table migration completed', { tableName, ...finalResult });
@@ -126,345 +334,1128 @@ export class DatabaseMigration {
       Logger.error(message, { error: error.message, tableName, duration });
       errorCollector.addError('DatabaseMigration', message, { tableName, error: error.message });
 
+      // Batches committed before a timeout stay in the table (the shadow table of a replace run is dropped)
+      const committed = error instanceof TimeoutError && !this.usesShadowTable(options)
+        ? totals
+        : this.createInsertionResult(tableName);
+
       return {
-        tableName,
-        recordsInserted: 0,
-        recordsSkipped: records.length,
-        errors: [error.message],
+        ...committed,
+        recordsRemoved: 0,
+        recordsPruned: 0,
+        errors: [...committed.errors, error.message],
         duration,
       };
     }
   }
 
   /**
-   * Migrates large datasets using streaming approach
+   * Stores a snapshot of a table for the current run and drops snapshots past the retention
    * @param tableName - Target table name
-   * @param dataTransformer - Data transformer with cached data
    * @param options - Migration options
    * @param errorCollector - Error collector instance
-   * @returns Migration result
    */
-  async migrateToTableStreaming(
+  private async snapshotTable(
     tableName: string,
-    dataTransformer: any, // DataTransformer type
     options: MigrationOptions,
     errorCollector: ErrorCollector
-  ): Promise<MigrationResult> {
-    const startTime = Date.now();
-    
+  ): Promise<void> {
+    if (!options.runId || options.dryRun) {
+      return;
+    }
+
     try {
-      Logger.info('Starting streaming table migration', { 
-        tableName, 
-        options,
-        note: 'Processing large dataset with memory-efficient streaming'
-      });
+      await this.snapshots.takeSnapshot(options.runId, tableName);
+      await this.snapshots.pruneSnapshots(
+        tableName,
+        options.snapshotRetentionRuns ?? appConfig.migration.snapshotRetentionRuns
+      );
+    } catch (error: any) {
+      const message = `Failed to snapshot table ${tableName}`;
+      Logger.error(message, { tableName, runId: options.runId, error: error.message });
+      errorCollector.addError('DatabaseMigration', message, { tableName, error: error.message });
+    }
+  }
+
+  /**
+   * Creates the rule table, failing hard when conflict handling needs the natural key index
+   * @param tableName - Target table name
+   * @param options - Migration options
+   * @param errorCollector - Error collector instance
+   * @returns ALTER TABLE statements applied (or planned) to match the schema
+   */
+  private async prepareRuleTable(
+    tableName: string,
+    options: MigrationOptions,
+    errorCollector: ErrorCollector
+  ): Promise<string[]> {
+    const schema = options.schema || DEFAULT_TABLE_SCHEMA;
+    const created = await this.createRuleTable(tableName, errorCollector, schema);
+
+    if (!created && (options.mode === 'sync' || options.skipExisting)) {
+      throw new Error(
+        `Table ${tableName} could not be prepared for conflict-aware inserts. ` +
+        `If it contains duplicate rules from earlier append runs, run 'npm run migrate dedupe' to deduplicate it.`
+      );
+    }
 
-      // Create table if it doesn't exist
-      await this.createRuleTable(tableName, errorCollector);
+    // A failed ALTER fails the migration: loading into a table without the declared columns would drop data
+    return this.syncTableSchema(tableName, schema, options.dryRun);
+  }
 
-      // Truncate table if requested
-      if (options.truncateTable && !options.dryRun) {
-        await this.truncateTable(tableName);
+  /**
+   * Checks whether the migration loads into a shadow table before swapping it in
+   * @param options - Migration options
+   * @returns True for non dry-run replace migrations
+   */
+  private usesShadowTable(options: MigrationOptions): boolean {
+    return options.mode === 'replace' && !options.dryRun;
+  }
+
+  /**
+   * Loads records into a shadow table and swaps it with the live table in one transaction.
+   * The live table is left untouched if any batch fails or the row count does not match.
+   * @param tableName - Live table name
+   * @param options - Migration options
+   * @param errorCollector - Error collector instance
+   * @param load - Loads records into the given table
+   * @returns Insertion results for the live table
+   */
+  private async replaceViaShadowTable(
+    tableName: string,
+    options: MigrationOptions,
+    errorCollector: ErrorCollector,
+    load: (targetTable: string) => Promise<InsertionResult>
+  ): Promise<InsertionResult> {
+    const shadowName = getShadowTableName(tableName);
+
+    await this.assertReplaceable(tableName, options.schema || DEFAULT_TABLE_SCHEMA);
+    Logger.info('Loading records into shadow table', { tableName, shadowName });
+
+    await this.db.query(`DROP TABLE IF EXISTS "${shadowName}"`);
+    await this.db.query(generateCreateTableSQL(shadowName, options.schema));
+
+    try {
+      const result = await load(shadowName);
+
+      if (result.errors.length > 0) {
+        throw new Error(
+          `Shadow load had ${result.errors.length} failed batch(es), keeping existing data: ${result.errors[0]}`
+        );
       }
 
-      // Perform streaming migration
-      const result = await this.insertRecordsStreaming(tableName, dataTransformer, options, errorCollector);
+      const shadowCount = await this.getTableRecordCount(shadowName);
+      const loadedCount = result.recordsInserted + result.recordsSkipped;
 
-      const duration = Date.now() - startTime;
-      const finalResult: MigrationResult = {
-        ...result,
-        duration,
-      };
+      if (shadowCount !== result.recordsInserted) {
+        throw new Error(
+          `Shadow table has ${shadowCount} rows but ${result.recordsInserted} were reported inserted, keeping existing data`
+        );
+      }
 
-      // Clear cached data to free memory
-      dataTransformer.clearCachedSheetData();
+      const expectedRecords = options.expectedRecords?.();
+      if (expectedRecords !== undefined && loadedCount !== expectedRecords) {
+        throw new Error(
+          `Shadow load accounted for ${loadedCount} records but transformation produced ${expectedRecords}, keeping existing data`
+        );
+      }
 
-      Logger.info('Streaming table migration completed', { tableName, ...finalResult });
-      return finalResult;
+      if (options.runId) {
+        await this.history.recordTableDiff(options.runId, tableName, shadowName);
+      }
+
+      await this.swapShadowTable(tableName, shadowName);
+
+      Logger.info('Shadow table swapped in', { tableName, rows: shadowCount });
+      return { ...result, tableName };
 
     } catch (error: any) {
-      const duration = Date.now() - startTime;
-      const message = `Streaming migration failed for table ${tableName}`;
-      Logger.error(message, { error: error.message, tableName, duration });
-      errorCollector.addError('DatabaseMigration', message, { tableName, error: error.message });
+      errorCollector.addError('DatabaseMigration', `Replace migration aborted for ${tableName}`, {
+        tableName,
+        error: error.message,
+      });
+      await this.dropTableQuietly(shadowName);
+      throw error;
+    }
+  }
 
-      // Clear cached data even on error
-      dataTransformer.clearCachedSheetData();
+  /**
+   * Refuses replace mode for a live table the swap would lose parts of: columns its schema does not
+   * declare (the shadow table only has the declared ones) and triggers
+   * @param tableName - Live table name
+   * @param schema - Table schema
+   * @throws When the table has undeclared columns or triggers
+   */
+  private async assertReplaceable(tableName: string, schema: TableSchema): Promise<void> {
+    const columns = await this.db.query(
+      `SELECT column_name FROM information_schema.columns WHERE table_schema = 'public' AND table_name = $1`,
+      [tableName]
+    );
+    const undeclared = this.findUndeclaredColumns(columns.rows.map((row: any) => row.column_name), schema);
+    if (undeclared.length > 0) {
+      throw new Error(
+        `Replace mode would drop columns of ${tableName} its schema does not declare (${undeclared.join(', ')}); ` +
+        `declare them in the mapping profile or use sync mode`
+      );
+    }
+
+    const triggers = await this.db.query(
+      `SELECT tgname FROM pg_trigger WHERE tgrelid = to_regclass(quote_ident($1)) AND NOT tgisinternal`,
+      [tableName]
+    );
+    if (triggers.rows.length > 0) {
+      throw new Error(
+        `Replace mode would drop the triggers of ${tableName} (${triggers.rows.map((row: any) => row.tgname).join(', ')}); ` +
+        `use sync mode`
+      );
+    }
+  }
+
+  /**
+   * Copies the grants and the table and column comments of the live table to the shadow table
+   * @param client - Client of the swap transaction
+   * @param tableName - Live table name
+   * @param shadowName - Shadow table name
+   */
+  private async copyTableMetadata(client: PoolClient, tableName: string, shadowName: string): Promise<void> {
+    const result = await client.query(
+      `SELECT format('COMMENT ON TABLE %I IS %L', $2::text, d.description) AS statement
+       FROM pg_description d
+       WHERE d.objoid = to_regclass(quote_ident($1)) AND d.classoid = 'pg_class'::regclass AND d.objsubid = 0
+       UNION ALL
+       SELECT format('COMMENT ON COLUMN %I.%I IS %L', $2::text, a.attname, d.description)
+       FROM pg_description d
+       JOIN pg_attribute a ON a.attrelid = d.objoid AND a.attnum = d.objsubid
+       WHERE d.objoid = to_regclass(quote_ident($1)) AND d.classoid = 'pg_class'::regclass AND d.objsubid > 0
+       UNION ALL
+       SELECT format('GRANT %s ON %I TO %s%s', g.privilege_type, $2::text,
+         CASE WHEN g.grantee = 'PUBLIC' THEN 'PUBLIC' ELSE quote_ident(g.grantee) END,
+         CASE WHEN g.is_grantable = 'YES' THEN ' WITH GRANT OPTION' ELSE '' END)
+       FROM information_schema.role_table_grants g
+       JOIN pg_tables t ON t.schemaname = g.table_schema AND t.tablename = g.table_name
+       WHERE g.table_schema = 'public' AND g.table_name = $1 AND g.grantee <> t.tableowner`,
+      [tableName, shadowName]
+    );
+
+    for (const row of result.rows) {
+      await client.query(row.statement);
+    }
+    Logger.debug('Table grants and comments copied to shadow table', { tableName, shadowName, statements: result.rows.length });
+  }
 
+  /**
+   * Replaces the live table with the shadow table, carrying over grants and comments and renaming
+   * indexes and the id sequence
+   * @param tableName - Live table name
+   * @param shadowName - Shadow table name
+   */
+  private async swapShadowTable(tableName: string, shadowName: string): Promise<void> {
+    try {
+      await this.db.transaction(async client => {
+        await this.copyTableMetadata(client, tableName, shadowName);
+
+        // No CASCADE: dependent views make the swap fail and roll back instead of disappearing
+        await client.query(`DROP TABLE IF EXISTS "${tableName}"`);
+        await client.query(`ALTER TABLE "${shadowName}" RENAME TO "${tableName}"`);
+
+        const indexes = await client.query(
+          `SELECT indexname FROM pg_indexes WHERE schemaname = 'public' AND tablename = $1`,
+          [tableName]
+        );
+        for (const row of indexes.rows) {
+          if (row.indexname.includes(shadowName)) {
+            const renamed = row.indexname.replace(shadowName, tableName);
+            await client.query(`ALTER INDEX "${row.indexname}" RENAME TO "${renamed}"`);
+          }
+        }
+        await client.query(`ALTER SEQUENCE IF EXISTS "${shadowName}_id_seq" RENAME TO "${tableName}_id_seq"`);
+      });
+    } catch (error: any) {
+      Logger.error('Shadow table swap failed', { tableName, shadowName, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Drops a table, logging instead of throwing on failure
+   * @param tableName - Table to drop
+   */
+  private async dropTableQuietly(tableName: string): Promise<void> {
+    try {
+      await this.db.query(`DROP TABLE IF EXISTS "${tableName}"`);
+    } catch (error: any) {
+      Logger.warn('Failed to drop table', { tableName, error: error.message });
+    }
+  }
+
+  /**
+   * Compares records with the current table contents without writing anything
+   * @param tableName - Target table name
+   * @param batches - Records to compare, in batches
+   * @param options - Migration options
+   * @param seenKeys - Collects natural keys of every record read from the source
+   * @returns Counts the real run would produce, with the diff preview attached
+   */
+  private async previewChanges(
+    tableName: string,
+    batches: AsyncIterable<RuleRecord[]>,
+    options: MigrationOptions,
+    seenKeys: Set<string>
+  ): Promise<InsertionResult> {
+    const mode = options.mode || 'append';
+    const builder = new DiffPreviewBuilder(tableName, mode, getStoredColumnNames(options.schema || DEFAULT_TABLE_SCHEMA));
+
+    try {
+      // Each batch is compared with the rows holding its keys, so memory stays bounded by the batch size
+      const tableExists = await this.tableExists(tableName);
+
+      for await (const rawBatch of batches) {
+        const { batch, duplicates } = this.filterDuplicateKeys(rawBatch, seenKeys, options, tableName);
+        builder.addSkipped(duplicates);
+        const existingRows = tableExists && batch.length > 0
+          ? await this.fetchExistingRows(this.db, tableName, batch)
+          : new Map<string, any>();
+
+        for (const record of batch) {
+          const existing = existingRows.get(getNaturalKey(record)) || null;
+
+          // Append mode never touches rules that are already in the table
+          if (mode === 'append' && existing) {
+            builder.addSkipped();
+          } else {
+            builder.addRecord(record, mode === 'append' ? null : existing);
+          }
+        }
+      }
+
+      // Same guards as the real run: an empty or partly rejected source never removes rules
+      if (mode !== 'append' && tableExists && seenKeys.size > 0 && !(options.rejectedRecords?.() > 0)) {
+        for (const row of await this.findRemovedRows(tableName, seenKeys)) {
+          builder.addRemoved(row);
+        }
+      }
+    } catch (error: any) {
+      Logger.error('Dry run comparison failed', { tableName, error: error.message });
       return {
         tableName,
         recordsInserted: 0,
+        recordsUpdated: 0,
+        recordsUnchanged: 0,
         recordsSkipped: 0,
         errors: [error.message],
-        duration,
       };
     }
+
+    const preview = builder.build();
+    Logger.info('Dry run comparison completed', {
+      tableName,
+      added: preview.added,
+      modified: preview.modified,
+      removed: preview.removed,
+      unchanged: preview.unchanged,
+      skipped: preview.skipped,
+    });
+
+    return {
+      tableName,
+      recordsInserted: preview.added,
+      recordsUpdated: preview.modified,
+      recordsUnchanged: preview.unchanged,
+      recordsSkipped: preview.skipped,
+      errors: [],
+      preview,
+    };
   }
 
   /**
-   * Inserts records using streaming approach for large datasets
+   * Finds the live rows whose natural key is not among the keys read from the source, as
+   * markRemovedRecords would soft-delete them
+   * @param tableName - Rule table name
+   * @param seenKeys - Natural keys of every record read from the source
+   * @returns Rows that would be removed
+   */
+  private async findRemovedRows(tableName: string, seenKeys: Set<string>): Promise<any[]> {
+    const { params, source, matches } = this.buildNaturalKeyJoin(seenKeys, 't');
+    const result = await this.db.query(
+      `SELECT t.* FROM "${tableName}" AS t WHERE t.deleted_at IS NULL AND NOT EXISTS (SELECT 1 FROM ${source} WHERE ${matches})`,
+      params
+    );
+    return result.rows;
+  }
+
+  /**
+   * Inserts records into a table in batches of at most options.batchSize, as they are read
    * @param tableName - Target table name
-   * @param dataTransformer - Data transformer with cached data
+   * @param batches - Records to insert, in batches
    * @param options - Migration options
    * @param errorCollector - Error collector instance
-   * @returns Insertion results
+   * @param seenKeys - Collects natural keys of every record read from the source
+   * @param totals - Receives the counts batch by batch, so they are known when a timeout interrupts the load
+   * @returns Insertion results (totals, once every batch is written)
    */
-  private async insertRecordsStreaming(
+  private async insertRecords(
     tableName: string,
-    dataTransformer: any, // DataTransformer type
+    batches: AsyncIterable<RuleRecord[]>,
     options: MigrationOptions,
-    errorCollector: ErrorCollector
-  ): Promise<Omit<MigrationResult, 'duration'>> {
-    const batchSize = options.batchSize || 500; // Smaller batches for streaming
-    const errors: string[] = [];
-    let recordsInserted = 0;
-    let recordsSkipped = 0;
-    let batchNumber = 0;
+    errorCollector: ErrorCollector,
+    seenKeys: Set<string>,
+    totals: InsertionResult = this.createInsertionResult(tableName)
+  ): Promise<InsertionResult> {
+    const batchSize = this.getInsertBatchSize(options);
+    const resumeAfter = options.resumeFrom?.records || 0;
+    let recordsResumed = 0;
+    let recordsRead = 0;
+    let batchNumber = options.resumeFrom?.batches || 0;
+
+    if (resumeAfter > 0 && !options.dryRun) {
+      Logger.info('Resuming table migration', { tableName, recordsCommitted: resumeAfter, batchesCommitted: batchNumber });
+    }
 
     if (options.dryRun) {
-      Logger.info('Dry run mode - streaming without database changes', { tableName });
-      
-      // Count records in dry run mode
-      let totalRecords = 0;
-      for (const batch of dataTransformer.streamRecordsFromCache(batchSize)) {
-        totalRecords += batch.length;
-      }
-      
-      return {
-        tableName,
-        recordsInserted: totalRecords,
-        recordsSkipped: 0,
-        errors: [],
-      };
+      Logger.info('Dry run mode - comparing records with current table contents', { tableName });
+      return this.previewChanges(tableName, batches, options, seenKeys);
     }
 
-    try {
-      // Stream records in batches
-      for (const batch of dataTransformer.streamRecordsFromCache(batchSize)) {
+    for await (const records of batches) {
+      for (let i = 0; i < records.length; i += batchSize) {
+        throwIfAborted(options.signal);
+        let chunk = records.slice(i, i + batchSize);
+
+        // Records the interrupted run committed are not written again, but their keys count as seen
+        const committed = Math.min(chunk.length, Math.max(0, resumeAfter - recordsRead));
+        if (committed > 0) {
+          this.filterDuplicateKeys(chunk.slice(0, committed), seenKeys, options, tableName);
+          recordsRead += committed;
+          recordsResumed += committed;
+          totals.recordsResumed = recordsResumed;
+          chunk = chunk.slice(committed);
+          if (chunk.length === 0) continue;
+        }
+
+        recordsRead += chunk.length;
+        const { batch, duplicates } = this.filterDuplicateKeys(chunk, seenKeys, options, tableName);
         batchNumber++;
-        
+        totals.recordsSkipped += duplicates;
+
         try {
-          Logger.debug('Processing streaming batch', { 
-            tableName, 
-            batchNumber, 
-            batchSize: batch.length,
-            recordsProcessedSoFar: recordsInserted + recordsSkipped
-          });
+          Logger.debug('Processing batch', { tableName, batchNumber, batchSize: batch.length });
 
-          const result = await this.insertBatch(tableName, batch, options.skipExisting || false);
-          recordsInserted += result.inserted;
-          recordsSkipped += result.skipped;
+          const batchResult = await this.insertBatch(tableName, batch, options, {
+            batches: batchNumber,
+            records: recordsRead,
+          });
+          totals.recordsInserted += batchResult.inserted;
+          totals.recordsUpdated += batchResult.updated;
+          totals.recordsUnchanged += batchResult.unchanged;
+          totals.recordsSkipped += batchResult.skipped;
+          totals.errors.push(...batchResult.errors);
 
-          // Log progress for large datasets
+          // Log progress
           if (batchNumber % 10 === 0) {
-            Logger.info('Streaming migration progress', {
+            Logger.info('Migration progress', {
               tableName,
               batchesProcessed: batchNumber,
-              recordsInserted,
-              recordsSkipped,
+              recordsInserted: totals.recordsInserted,
+              recordsUpdated: totals.recordsUpdated,
+              recordsUnchanged: totals.recordsUnchanged,
+              recordsSkipped: totals.recordsSkipped,
               memoryUsage: `${Math.round(process.memoryUsage().heapUsed / 1024 / 1024)}MB`
             });
           }
 
-        } catch (batchError: any) {
-          Logger.error('Streaming batch failed', { 
+        } catch (error: any) {
+          if (error instanceof TimeoutError) throw error;
+          const message = `Failed to process batch ${batchNumber} for table ${tableName}`;
+          Logger.error(message, { error: error.message, tableName, batchNumber });
+          errorCollector.addError('DatabaseMigration', message, { 
             tableName, 
             batchNumber, 
-            error: batchError.message 
+            error: error.message 
           });
-          errors.push(`Batch ${batchNumber}: ${batchError.message}`);
-          recordsSkipped += batch.length;
+          
+          totals.errors.push(`Batch ${batchNumber}: ${error.message}`);
+          totals.recordsSkipped += batch.length;
         }
       }
+    }
 
-      Logger.info('Streaming insertion completed', {
-        tableName,
-        totalBatches: batchNumber,
-        recordsInserted,
-        recordsSkipped,
-        errors: errors.length
-      });
+    Logger.info('Insertion completed', {
+      tableName,
+      loadMethod: this.getLoadMethod(options),
+      totalBatches: batchNumber,
+      recordsInserted: totals.recordsInserted,
+      recordsUpdated: totals.recordsUpdated,
+      recordsUnchanged: totals.recordsUnchanged,
+      recordsSkipped: totals.recordsSkipped,
+      recordsResumed,
+      errors: totals.errors.length
+    });
+
+    return totals;
+  }
 
-      return {
-        tableName,
-        recordsInserted,
-        recordsSkipped,
-        errors,
-      };
+  /**
+   * Creates the counts of a load that has not written anything yet
+   * @param tableName - Target table name
+   * @returns Zero counts
+   */
+  private createInsertionResult(tableName: string): InsertionResult {
+    return {
+      tableName,
+      recordsInserted: 0,
+      recordsUpdated: 0,
+      recordsUnchanged: 0,
+      recordsSkipped: 0,
+      errors: [],
+    };
+  }
 
-    } catch (error: any) {
-      Logger.error('Streaming insertion failed', { 
-        tableName, 
-        error: error.message,
-        batchesProcessed: batchNumber
-      });
-      
-      return {
-        tableName,
-        recordsInserted,
-        recordsSkipped,
-        errors: [error.message],
-      };
-    }
+  /**
+   * Gets how batches are sent to the database
+   * @param options - Migration options
+   * @returns Load method
+   */
+  private getLoadMethod(options: MigrationOptions): LoadMethod {
+    return options.loadMethod || appConfig.migration.loadMethod;
   }
 
   /**
-   * Inserts records into a table with batching
-   * @param tableName - Target table name
-   * @param records - Records to insert
+   * Gets the number of records sent per batch. Multi-row INSERTs bind one parameter per column,
+   * so their batches are capped below PostgreSQL's bind parameter limit; COPY has no such limit.
    * @param options - Migration options
-   * @param errorCollector - Error collector instance
-   * @returns Insertion results
+   * @returns Records per batch
    */
-  private async insertRecords(
-    tableName: string,
-    records: RuleRecord[],
-    options: MigrationOptions,
-    errorCollector: ErrorCollector
-  ): Promise<Omit<MigrationResult, 'duration'>> {
+  private getInsertBatchSize(options: MigrationOptions): number {
     const batchSize = options.batchSize || appConfig.migration.batchSize;
-    const errors: string[] = [];
-    let recordsInserted = 0;
-    let recordsSkipped = 0;
-
-    if (options.dryRun) {
-      Logger.info('Dry run mode - no actual database changes will be made', { 
-        tableName, 
-        recordCount: records.length 
-      });
-      return {
-        tableName,
-        recordsInserted: records.length, // Simulate successful insertion
-        recordsSkipped: 0,
-        errors: [],
-      };
+    if (this.getLoadMethod(options) === 'copy') {
+      return batchSize;
     }
 
-    // Process records in batches
-    for (let i = 0; i < records.length; i += batchSize) {
-      const batch = records.slice(i, i + batchSize);
-      const batchNumber = Math.floor(i / batchSize) + 1;
-      const totalBatches = Math.ceil(records.length / batchSize);
+    const columnCount = getStoredColumnNames(options.schema || DEFAULT_TABLE_SCHEMA).length;
+    return Math.min(batchSize, Math.floor(MAX_BIND_PARAMETERS / columnCount));
+  }
 
-      try {
-        Logger.debug('Processing batch', { 
-          tableName, 
-          batchNumber, 
-          totalBatches, 
-          batchSize: batch.length 
-        });
+  /**
+   * Drops records whose natural key was already seen in this run.
+   * Applies to sync and replace modes, where the natural key index rejects repeated keys.
+   * @param batch - Batch of records
+   * @param seenKeys - Natural keys already processed in this run
+   * @param options - Migration options
+   * @param tableName - Target table name for logging
+   * @returns Unique records and number of duplicates dropped
+   */
+  private filterDuplicateKeys(
+    batch: RuleRecord[],
+    seenKeys: Set<string>,
+    options: MigrationOptions,
+    tableName: string
+  ): { batch: RuleRecord[]; duplicates: number } {
+    if (options.mode !== 'sync' && options.mode !== 'replace') {
+      return { batch, duplicates: 0 };
+    }
 
-        const batchResult = await this.insertBatch(tableName, batch, options);
-        recordsInserted += batchResult.inserted;
-        recordsSkipped += batchResult.skipped;
-        errors.push(...batchResult.errors);
-
-        // Log progress
-        const progress = Math.round(((i + batch.length) / records.length) * 100);
-        Logger.info('Batch processed', { 
-          tableName, 
-          batchNumber, 
-          totalBatches, 
-          progress: `${progress}%`,
-          inserted: batchResult.inserted,
-          skipped: batchResult.skipped,
-        });
+    const unique: RuleRecord[] = [];
+    const duplicateCodes: string[] = [];
 
-      } catch (error: any) {
-        const message = `Failed to process batch ${batchNumber} for table ${tableName}`;
-        Logger.error(message, { error: error.message, tableName, batchNumber });
-        errorCollector.addError('DatabaseMigration', message, { 
-          tableName, 
-          batchNumber, 
-          error: error.message 
-        });
-        
-        errors.push(`Batch ${batchNumber}: ${error.message}`);
-        recordsSkipped += batch.length;
+    for (const record of batch) {
+      const key = getNaturalKey(record);
+      if (seenKeys.has(key)) {
+        duplicateCodes.push(record.code);
+        continue;
       }
+      seenKeys.add(key);
+      unique.push(record);
     }
 
-    return {
-      tableName,
-      recordsInserted,
-      recordsSkipped,
-      errors,
-    };
+    if (duplicateCodes.length > 0) {
+      Logger.warn('Duplicate natural keys skipped', {
+        tableName,
+        mode: options.mode,
+        duplicates: duplicateCodes.length,
+        sampleCodes: duplicateCodes.slice(0, 5),
+      });
+    }
+
+    return { batch: unique, duplicates: duplicateCodes.length };
   }
 
   /**
-   * Inserts a batch of records
+   * Writes a batch of records with the configured load method
    * @param tableName - Target table name
    * @param batch - Batch of records
    * @param options - Migration options
+   * @param progress - Checkpoint to save with the batch: batches and source records covered once it commits
    * @returns Batch insertion results
    */
   private async insertBatch(
     tableName: string, 
     batch: RuleRecord[], 
-    options: MigrationOptions
-  ): Promise<{ inserted: number; skipped: number; errors: string[] }> {
-    const columns = [
-      'code', 'description', 'label', 'requirement_level', 'roles', 'type', 
-      'validations', 'variant', 'codigo-categoria-mirakl', 'nome-categoria-mirakl', 
-      'parent_code-categoria-mirakl'
-    ];
-
-    // Build the INSERT query with conflict handling
-    const columnsList = columns.map(col => `"${col}"`).join(', ');
-    const placeholders = batch.map((_, index) => {
-      const recordPlaceholders = columns.map((_, colIndex) => `$${index * columns.length + colIndex + 1}`);
-      return `(${recordPlaceholders.join(', ')})`;
-    }).join(', ');
-
-    // Since id is auto-increment and unique, we no longer need conflict resolution
-    // Records will be inserted as new entries each time
-    const conflictAction = '';
+    options: MigrationOptions,
+    progress?: { batches: number; records: number }
+  ): Promise<BatchResult> {
+    if (batch.length === 0) {
+      return { inserted: 0, updated: 0, unchanged: 0, skipped: 0, errors: [] };
+    }
 
-    const sql = `
-      INSERT INTO "${tableName}" (${columnsList})
-      VALUES ${placeholders}
-      ${conflictAction}
-      RETURNING "id"
-    `;
+    const loadMethod = this.getLoadMethod(options);
 
-    // Flatten values for parameterized query
-    const values: string[] = [];
-    for (const record of batch) {
-      for (const column of columns) {
-        values.push(record[column as keyof RuleRecord] || '');
-      }
-    }
+    // A batch whose COMMIT may have gone through is replayed into its ON CONFLICT clause, which counts the rows
+    // it wrote as unchanged or skipped. Without one (append without skipExisting) the natural key index would
+    // report them as rejected duplicates, so such a batch is not retried once it started committing.
+    const replayable = options.mode === 'sync' || !!options.skipExisting;
+    let committing = false;
 
     try {
-      const result = await this.db.query(sql, values);
-      const inserted = result.rowCount || 0;
-      const skipped = batch.length - inserted;
+      const { rows, rejected } = await withRetry(() => this.db.transaction(async client => {
+        committing = false;
+        const result = await this.writeIsolatingFailures(client, tableName, batch, options);
+
+        if (progress && this.savesCheckpoints(options)) {
+          await this.checkpoints.saveProgress(client, options.runId!, tableName, progress.batches, progress.records);
+        }
+
+        committing = true;
+        return result;
+      }), `Batch write to ${tableName}`, {
+        signal: options.signal,
+        retryIf: () => replayable || !committing,
+      });
+
+      const inserted = rows.filter(row => row.inserted).length;
+      const updated = rows.length - inserted;
+      // In sync mode rows filtered out by the DISTINCT check are unchanged, otherwise conflicts were skipped
+      const untouched = batch.length - rejected.length - rows.length;
+      const unchanged = options.mode === 'sync' ? untouched : 0;
+      const skipped = (options.mode === 'sync' ? 0 : untouched) + rejected.length;
+
+      if (rejected.length > 0) {
+        Logger.warn('Batch rows rejected', {
+          tableName,
+          batchSize: batch.length,
+          rejected: rejected.length,
+          sample: rejected.slice(0, 3),
+        });
+      }
 
       Logger.debug('Batch insertion completed', { 
         tableName, 
         batchSize: batch.length, 
         inserted, 
+        updated,
+        unchanged,
         skipped 
       });
 
-      return { inserted, skipped, errors: [] };
+      return { inserted, updated, unchanged, skipped, errors: rejected };
 
     } catch (error: any) {
+      if (error instanceof TimeoutError) throw error;
+      const message = this.describeBatchError(error, batch);
       Logger.error('Batch insertion failed', { 
         tableName, 
         batchSize: batch.length, 
-        error: error.message 
+        loadMethod,
+        error: message 
       });
       
       return { 
         inserted: 0, 
+        updated: 0,
+        unchanged: 0,
         skipped: batch.length, 
-        errors: [error.message] 
+        errors: [message] 
       };
     }
   }
 
+  /**
+   * Writes records under a savepoint. When the database rejects the data of a row, the savepoint is
+   * rolled back and the records are split in halves (or around the line a COPY error names) until the
+   * offending records are isolated; only those are rejected and the rest is written.
+   * @param client - Client of the batch transaction
+   * @param tableName - Target table name
+   * @param records - Records to write
+   * @param options - Migration options
+   * @returns Rows written and messages of the rejected records
+   */
+  private async writeIsolatingFailures(
+    client: PoolClient,
+    tableName: string,
+    records: RuleRecord[],
+    options: MigrationOptions
+  ): Promise<IsolatedWriteResult> {
+    if (records.length === 0) {
+      return { rows: [], rejected: [] };
+    }
+
+    await client.query(`SAVEPOINT ${BATCH_SAVEPOINT}`);
+    try {
+      const rows = await this.writeRecords(client, tableName, records, options);
+      await client.query(`RELEASE SAVEPOINT ${BATCH_SAVEPOINT}`);
+      return { rows, rejected: [] };
+    } catch (error: any) {
+      if (!this.isRowLevelError(error)) {
+        throw error;
+      }
+      await client.query(`ROLLBACK TO SAVEPOINT ${BATCH_SAVEPOINT}; RELEASE SAVEPOINT ${BATCH_SAVEPOINT}`);
+
+      if (records.length === 1) {
+        return { rows: [], rejected: [this.describeRejectedRecord(records[0], error)] };
+      }
+
+      // COPY names the line it failed on, which spares the bisection
+      const line = getCopyErrorLine(error);
+      if (line !== null && line <= records.length) {
+        const rest = await this.writeIsolatingFailures(
+          client, tableName, [...records.slice(0, line - 1), ...records.slice(line)], options
+        );
+        return { rows: rest.rows, rejected: [this.describeRejectedRecord(records[line - 1], error), ...rest.rejected] };
+      }
+
+      const middle = Math.ceil(records.length / 2);
+      const first = await this.writeIsolatingFailures(client, tableName, records.slice(0, middle), options);
+      const second = await this.writeIsolatingFailures(client, tableName, records.slice(middle), options);
+      return { rows: [...first.rows, ...second.rows], rejected: [...first.rejected, ...second.rejected] };
+    }
+  }
+
+  /**
+   * Writes records with the configured load method and records their change events
+   * @param client - Client of the batch transaction
+   * @param tableName - Target table name
+   * @param records - Records to write
+   * @param options - Migration options
+   * @returns Rows written, as returned by the write statement
+   */
+  private async writeRecords(
+    client: PoolClient,
+    tableName: string,
+    records: RuleRecord[],
+    options: MigrationOptions
+  ): Promise<Array<{ inserted: boolean }>> {
+    const schema = options.schema || DEFAULT_TABLE_SCHEMA;
+    const columns = getStoredColumnNames(schema);
+    const values = records.map(record => this.getRecordValues(record, schema));
+    const conflictAction = this.buildConflictAction(columns, options);
+
+    const trackChanges = this.tracksRowChanges(options);
+    const existingRows = trackChanges
+      ? await this.fetchExistingRows(client, tableName, records)
+      : new Map<string, any>();
+
+    const result = this.getLoadMethod(options) === 'copy'
+      ? await this.copyRows(client, tableName, columns, values, conflictAction)
+      : await this.insertRows(client, tableName, columns, values, conflictAction);
+
+    if (trackChanges) {
+      const changes = this.buildChangeEvents(records, result.rows, existingRows, columns);
+      await this.history.recordChanges(options.runId!, tableName, changes, client);
+    }
+
+    return result.rows || [];
+  }
+
+  /**
+   * Checks whether an error was raised by the data of a row rather than by the statement or connection
+   * @param error - Error thrown while writing records
+   * @returns True when splitting the records can isolate the offending rows
+   */
+  private isRowLevelError(error: any): boolean {
+    return typeof error?.code === 'string' && ROW_LEVEL_ERROR_CLASSES.includes(error.code.slice(0, 2));
+  }
+
+  /**
+   * Gets the values a record is stored with, in getStoredColumnNames order.
+   * Empty cells of typed columns are stored as NULL.
+   * @param record - Rule record
+   * @param schema - Table schema
+   * @returns Column values
+   */
+  private getRecordValues(record: RuleRecord, schema: TableSchema): CopyValue[] {
+    const values: CopyValue[] = [];
+    for (const column of schema.columns) {
+      const value = (record[column.name] as string) || '';
+      values.push(column.type === 'text' || value !== '' ? value : null);
+    }
+    values.push(JSON.stringify(record.extras || {}));
+    values.push(record.validations_parsed ? JSON.stringify(record.validations_parsed) : null);
+    values.push(record.roles_list || []);
+    return values;
+  }
+
+  /**
+   * Builds the RETURNING clause batch writes report their rows with.
+   * xmax is 0 only for freshly inserted rows, which lets sync mode tell inserts from updates.
+   * @returns SQL RETURNING clause
+   */
+  private buildReturningClause(): string {
+    const returnedKey = RULE_NATURAL_KEY_COLUMNS.map(col => `"${col}"`).join(', ');
+    return `RETURNING "id", (xmax = 0) AS inserted, ${returnedKey}`;
+  }
+
+  /**
+   * Writes rows with one multi-row parameterized INSERT
+   * @param client - Client of the batch transaction
+   * @param tableName - Target table name
+   * @param columns - Columns being written
+   * @param values - Column values per row
+   * @param conflictAction - ON CONFLICT clause for the migration mode
+   * @returns Query result with the written rows
+   */
+  private async insertRows(
+    client: PoolClient,
+    tableName: string,
+    columns: string[],
+    values: CopyValue[][],
+    conflictAction: string
+  ): Promise<any> {
+    const columnsList = columns.map(col => `"${col}"`).join(', ');
+    const placeholders = values.map((_, index) => {
+      const recordPlaceholders = columns.map((_, colIndex) => `$${index * columns.length + colIndex + 1}`);
+      return `(${recordPlaceholders.join(', ')})`;
+    }).join(', ');
+
+    const sql = `
+      INSERT INTO "${tableName}" AS existing (${columnsList})
+      VALUES ${placeholders}
+      ${conflictAction}
+      ${this.buildReturningClause()}
+    `;
+
+    return client.query(sql, values.flat(1));
+  }
+
+  /**
+   * Streams rows into a temporary staging table with COPY FROM STDIN, then moves them into the
+   * target table with one INSERT ... SELECT so conflict handling and RETURNING work as for INSERT
+   * @param client - Client of the batch transaction
+   * @param tableName - Target table name
+   * @param columns - Columns being written
+   * @param values - Column values per row
+   * @param conflictAction - ON CONFLICT clause for the migration mode
+   * @returns Query result with the written rows
+   */
+  private async copyRows(
+    client: PoolClient,
+    tableName: string,
+    columns: string[],
+    values: CopyValue[][],
+    conflictAction: string
+  ): Promise<any> {
+    const columnsList = columns.map(col => `"${col}"`).join(', ');
+
+    // Same column types as the target, without its defaults and constraints
+    await client.query(
+      `CREATE TEMPORARY TABLE "${COPY_STAGING_TABLE}" ON COMMIT DROP AS
+       SELECT ${columnsList} FROM "${tableName}" WITH NO DATA`
+    );
+    await client.query(
+      new CopyFromQuery(`COPY "${COPY_STAGING_TABLE}" (${columnsList}) FROM STDIN WITH (FORMAT csv)`, values)
+    ).done;
+
+    const result = await client.query(`
+      INSERT INTO "${tableName}" AS existing (${columnsList})
+      SELECT ${columnsList} FROM "${COPY_STAGING_TABLE}"
+      ${conflictAction}
+      ${this.buildReturningClause()}
+    `);
+
+    // The next part of the batch creates it again
+    await client.query(`DROP TABLE "${COPY_STAGING_TABLE}"`);
+    return result;
+  }
+
+  /**
+   * Describes a failed batch, naming the record a COPY error was raised on
+   * @param error - Error thrown while writing the batch
+   * @param batch - Batch of records
+   * @returns Error message
+   */
+  private describeBatchError(error: any, batch: RuleRecord[]): string {
+    const line = getCopyErrorLine(error);
+    const record = line !== null ? batch[line - 1] : undefined;
+    if (!record) {
+      return error.message;
+    }
+
+    return `${this.describeRecord(record, `Record ${line} of batch`)}: ${error.message}`;
+  }
+
+  /**
+   * Describes a record the database rejected, with the PostgreSQL error and its detail
+   * @param record - Rejected record
+   * @param error - Error raised by the record
+   * @returns Error message
+   */
+  private describeRejectedRecord(record: RuleRecord, error: any): string {
+    const detail = error.detail ? ` (${error.detail})` : '';
+    return `${this.describeRecord(record, 'Record')}: ${error.message}${detail}`;
+  }
+
+  /**
+   * Names a record by the sheet row it was read from, its code and its category
+   * @param record - Rule record
+   * @param fallback - Name used when the source row is unknown
+   * @returns Record description
+   */
+  private describeRecord(record: RuleRecord, fallback: string): string {
+    const origin = record.source_row ? `${record.source_row.sheet} row ${record.source_row.row}` : fallback;
+    return `${origin} (code ${record.code}, category ${record['codigo-categoria-mirakl'] || '-'})`;
+  }
+
+  /**
+   * Checks whether row-level change events are recorded per batch.
+   * Replace mode records them by diffing the shadow table instead.
+   * @param options - Migration options
+   * @returns True when batches should record change events
+   */
+  private tracksRowChanges(options: MigrationOptions): boolean {
+    return !!options.runId && !options.dryRun && options.mode !== 'replace';
+  }
+
+  /**
+   * Checks whether batches move the table's checkpoint forward.
+   * Replace mode loads a shadow table that an interrupted run leaves unusable, so it always starts over.
+   * @param options - Migration options
+   * @returns True when batches should save checkpoints
+   */
+  private savesCheckpoints(options: MigrationOptions): boolean {
+    return !!options.runId && !options.dryRun && options.mode !== 'replace';
+  }
+
+  /**
+   * Loads the current rows matching the natural keys of a batch
+   * @param client - Client of the batch transaction, or the connection for read-only comparisons
+   * @param tableName - Target table name
+   * @param batch - Batch of records
+   * @returns Existing rows keyed by natural key
+   */
+  private async fetchExistingRows(
+    client: PoolClient | DatabaseConnection,
+    tableName: string,
+    batch: RuleRecord[]
+  ): Promise<Map<string, any>> {
+    const { params, source, matches } = this.buildNaturalKeyJoin(batch.map(getNaturalKey), 't');
+    const result = await client.query(`SELECT t.* FROM "${tableName}" AS t JOIN ${source} ON ${matches}`, params);
+
+    const rows = new Map<string, any>();
+    for (const row of result.rows) {
+      rows.set(getNaturalKey(row), row);
+    }
+    return rows;
+  }
+
+  /**
+   * Builds change events for the rows an upsert actually wrote
+   * @param batch - Records sent to the database
+   * @param writtenRows - Rows returned by the upsert
+   * @param existingRows - Rows as they were before the upsert
+   * @param columns - Table columns to compare
+   * @returns Change events
+   */
+  private buildChangeEvents(
+    batch: RuleRecord[],
+    writtenRows: any[],
+    existingRows: Map<string, any>,
+    columns: string[]
+  ): RuleChange[] {
+    const recordsByKey = new Map(batch.map(record => [getNaturalKey(record), record]));
+    const changes: RuleChange[] = [];
+
+    for (const row of writtenRows) {
+      const key = getNaturalKey(row);
+      const record = recordsByKey.get(key);
+      const before = existingRows.get(key) || null;
+
+      if (!record) continue;
+
+      if (row.inserted || !before) {
+        changes.push(createRuleChange('added', record, diffRuleRecords(null, record, columns)));
+        continue;
+      }
+
+      const columnChanges = diffRuleRecords(before, record, columns);
+      if (before.deleted_at) {
+        columnChanges.deleted_at = { before: new Date(before.deleted_at).toISOString(), after: null };
+      }
+      changes.push(createRuleChange('modified', record, columnChanges));
+    }
+
+    return changes;
+  }
+
+  /**
+   * Builds an unnest() source matching table rows against a set of natural keys
+   * @param keys - Natural keys built by getNaturalKey
+   * @param tableAlias - Alias of the table being matched
+   * @returns Query parameters (one text array per key column), the unnest source and the match condition
+   */
+  private buildNaturalKeyJoin(
+    keys: Iterable<string>,
+    tableAlias: string
+  ): { params: string[][]; source: string; matches: string } {
+    const params: string[][] = RULE_NATURAL_KEY_COLUMNS.map(() => []);
+    for (const key of keys) {
+      splitNaturalKey(key).forEach((value, index) => params[index].push(value));
+    }
+
+    const unnestArgs = RULE_NATURAL_KEY_COLUMNS.map((_, index) => `$${index + 1}::text[]`).join(', ');
+    const aliases = RULE_NATURAL_KEY_COLUMNS.map((_, index) => `k${index}`).join(', ');
+    const matches = RULE_NATURAL_KEY_COLUMNS
+      .map((col, index) => `seen.k${index} = COALESCE(${tableAlias}."${col}", '')`)
+      .join(' AND ');
+
+    return {
+      params,
+      source: `unnest(${unnestArgs}) AS seen(${aliases})`,
+      matches,
+    };
+  }
+
+  /**
+   * Builds the ON CONFLICT clause for the configured migration mode
+   * @param columns - Columns being written
+   * @param options - Migration options
+   * @returns SQL conflict clause (empty for plain appends)
+   */
+  private buildConflictAction(columns: string[], options: MigrationOptions): string {
+    const naturalKey = RULE_NATURAL_KEY_COLUMNS.map(col => `"${col}"`).join(', ');
+
+    if (options.mode === 'sync') {
+      const updatable = columns.filter(col => !(RULE_NATURAL_KEY_COLUMNS as readonly string[]).includes(col));
+      const assignments = updatable.map(col => `"${col}" = EXCLUDED."${col}"`).join(', ');
+      // deleted_at is part of the comparison so rules that reappear in the source are restored
+      const current = [...updatable, 'deleted_at'].map(col => `existing."${col}"`).join(', ');
+      const incoming = [...updatable, 'deleted_at'].map(col => `EXCLUDED."${col}"`).join(', ');
+
+      return `
+      ON CONFLICT (${naturalKey}) DO UPDATE SET ${assignments}, deleted_at = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE (${current}) IS DISTINCT FROM (${incoming})`;
+    }
+
+    if (options.skipExisting) {
+      return `ON CONFLICT (${naturalKey}) DO NOTHING`;
+    }
+
+    return '';
+  }
+
+  /**
+   * Soft-deletes rows missing from the source (sync mode) and prunes expired soft-deleted rows
+   * @param tableName - Target table name
+   * @param seenKeys - Natural keys of every record read from the source
+   * @param result - Insertion results of this run
+   * @param options - Migration options
+   * @param errorCollector - Error collector instance
+   * @returns Removed and pruned row counts
+   */
+  private async applyDeletionPolicy(
+    tableName: string,
+    seenKeys: Set<string>,
+    result: InsertionResult,
+    options: MigrationOptions,
+    errorCollector: ErrorCollector
+  ): Promise<{ recordsRemoved: number; recordsPruned: number }> {
+    let recordsRemoved = 0;
+    let recordsPruned = 0;
+
+    if (options.dryRun) {
+      // The dry-run preview already counted the rules that would be removed
+      return { recordsRemoved: result.preview ? result.preview.removed : 0, recordsPruned };
+    }
+
+    if (options.mode === 'sync') {
+      // A partial load cannot tell removed rules from rules that failed to insert
+      if (result.errors.length > 0) {
+        Logger.warn('Skipping deletion detection because some batches failed', {
+          tableName,
+          failedBatches: result.errors.length,
+        });
+      } else if (seenKeys.size === 0) {
+        Logger.warn('Skipping deletion detection because the source produced no records', { tableName });
+      } else if (options.rejectedRecords?.() > 0) {
+        // A rejected row may be a live rule with a bad edit; removing it would lose the rule
+        Logger.warn('Skipping deletion detection because some source rows were rejected', {
+          tableName,
+          rejectedRecords: options.rejectedRecords(),
+        });
+      } else {
+        recordsRemoved = await this.markRemovedRecords(tableName, seenKeys, options);
+      }
+    }
+
+    if (options.prune) {
+      const graceDays = options.deletionGraceDays ?? appConfig.migration.deletionGraceDays;
+      try {
+        recordsPruned = await this.pruneRemovedRecords(tableName, graceDays);
+      } catch (error: any) {
+        const message = `Failed to prune removed records from ${tableName}`;
+        Logger.error(message, { tableName, error: error.message });
+        errorCollector.addError('DatabaseMigration', message, { tableName, error: error.message });
+      }
+    }
+
+    return { recordsRemoved, recordsPruned };
+  }
+
+  /**
+   * Marks live rows whose natural key was not read from the source as deleted
+   * @param tableName - Target table name
+   * @param seenKeys - Natural keys of every record read from the source
+   * @param options - Migration options
+   * @returns Number of rows soft-deleted
+   */
+  private async markRemovedRecords(
+    tableName: string,
+    seenKeys: Set<string>,
+    options: MigrationOptions
+  ): Promise<number> {
+    const { params, source, matches } = this.buildNaturalKeyJoin(seenKeys, 't');
+
+    const sql = `
+      UPDATE "${tableName}" AS t
+      SET deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+      WHERE t.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM ${source} WHERE ${matches})
+      RETURNING t.*
+    `;
+
+    const removed = await this.db.transaction(async client => {
+      const result = await client.query(sql, params);
+
+      if (this.tracksRowChanges(options) && result.rows.length > 0) {
+        const columns = getStoredColumnNames(options.schema || DEFAULT_TABLE_SCHEMA);
+        const changes = result.rows.map((row: any) => createRuleChange('removed', row, diffRuleRecords(row, null, columns)));
+        await this.history.recordChanges(options.runId!, tableName, changes, client);
+      }
+
+      return result.rowCount || 0;
+    });
+
+    if (removed > 0) {
+      Logger.info('Rules removed from source marked as deleted', { tableName, removed });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Hard-deletes rows that have been soft-deleted for longer than the grace period
+   * @param tableName - Target table name
+   * @param graceDays - Days a soft-deleted row is kept
+   * @returns Number of rows deleted
+   */
+  private async pruneRemovedRecords(tableName: string, graceDays: number): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM "${tableName}" WHERE deleted_at IS NOT NULL AND deleted_at <= CURRENT_TIMESTAMP - make_interval(days => $1)`,
+      [graceDays]
+    );
+    const pruned = result.rowCount || 0;
+
+    Logger.info('Pruned removed rules', { tableName, pruned, graceDays });
+    return pruned;
+  }
+
   /**
    * Truncates a table
    * @param tableName - Table to truncate
@@ -485,6 +1476,15 @@ export class DatabaseMigration {
     Logger.debug('Configuration table created/verified');
   }
 
+  /**
+   * Creates the migration run history and rule change tables
+   */
+  private async createHistoryTables(): Promise<void> {
+    Logger.debug('Creating migration history tables');
+    await this.db.query(generateMigrationHistorySQL());
+    Logger.debug('Migration history tables created/verified');
+  }
+
   /**
    * Initializes configuration with default URL mappings
    */
@@ -499,14 +1499,60 @@ export class DatabaseMigration {
    * Gets migration configuration from database
    * @returns Array of table configurations
    */
-  async getMigrationConfiguration(): Promise<Array<{ table_name: string; google_sheets_url: string }>> {
+  async getMigrationConfiguration(): Promise<Array<{
+    table_name: string;
+    google_sheets_url: string;
+    mapping_profile: string | null;
+    /** What the table was last migrated from (null before its first successful migration) */
+    source_state: SourceState | null;
+  }>> {
     Logger.debug('Fetching migration configuration');
     
-    const sql = 'SELECT table_name, google_sheets_url FROM "migration_configuration" ORDER BY table_name';
+    const sql = `
+      SELECT table_name, google_sheets_url, mapping_profile,
+             source_location, source_revision_id, source_modified_time, source_content_hash, source_config_hash
+      FROM "migration_configuration" ORDER BY table_name
+    `;
     const result = await this.db.query(sql);
     
     Logger.debug('Migration configuration fetched', { configCount: result.rows.length });
-    return result.rows;
+    return result.rows.map((row: any) => ({
+      table_name: row.table_name,
+      google_sheets_url: row.google_sheets_url,
+      mapping_profile: row.mapping_profile,
+      source_state: row.source_location
+        ? {
+            location: row.source_location,
+            revisionId: row.source_revision_id,
+            modifiedTime: row.source_modified_time,
+            contentHash: row.source_content_hash,
+            configHash: row.source_config_hash,
+          }
+        : null,
+    }));
+  }
+
+  /**
+   * Records what a table was migrated from, so later runs can skip it while the source is unchanged
+   * @param tableName - Rule table name
+   * @param state - Source location, revision and hashes (null forgets the source, forcing the next run)
+   */
+  async saveSourceState(tableName: string, state: SourceState | null): Promise<void> {
+    await this.db.query(
+      `UPDATE "migration_configuration"
+       SET source_location = $2, source_revision_id = $3, source_modified_time = $4, source_content_hash = $5,
+           source_config_hash = $6, source_synced_at = CASE WHEN $2::text IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE table_name = $1`,
+      [
+        tableName,
+        state?.location ?? null,
+        state?.revisionId ?? null,
+        state?.modifiedTime ?? null,
+        state?.contentHash ?? null,
+        state?.configHash ?? null,
+      ]
+    );
   }
 
   /**
@@ -525,6 +1571,35 @@ export class DatabaseMigration {
     }
   }
 
+  /**
+   * Gets the attribute columns of a table's live rules, for the cross-marketplace comparison
+   * @param tableName - Rule table name
+   * @returns Rules, or null when the table does not exist yet
+   */
+  async getComparedRules(tableName: string): Promise<ComparedRule[] | null> {
+    if (!(await this.tableExists(tableName))) {
+      return null;
+    }
+
+    const result = await this.db.query(
+      `SELECT code,
+              COALESCE("codigo-categoria-mirakl", '') AS category_code,
+              COALESCE(requirement_level, '') AS requirement_level,
+              COALESCE(type, '') AS type,
+              COALESCE(validations, '') AS validations
+       FROM "${tableName}"
+       WHERE deleted_at IS NULL`
+    );
+
+    return result.rows.map((row: any) => ({
+      code: row.code,
+      categoryCode: row.category_code,
+      requirementLevel: row.requirement_level,
+      type: row.type,
+      validations: row.validations,
+    }));
+  }
+
   /**
    * Validates database connection and setup
    * @param errorCollector - Error collector instance
@@ -561,7 +1636,7 @@ export class DatabaseMigration {
    * @param tableName - Table name to check
    * @returns Table existence status
    */
-  private async tableExists(tableName: string): Promise<boolean> {
+  async tableExists(tableName: string): Promise<boolean> {
     const sql = `
       SELECT EXISTS (
         SELECT FROM information_schema.tables 
@@ -1,6 +1,17 @@
 import { Logger } from '../utils/logger';
 import { DatabaseConnection } from './connection';
-import { generateCreateTableSQL, generateConfigurationTableSQL, generateInsertConfigurationSQL } from './schema';
+import {
+  generateCreateTableSQL,
+  generateConfigurationTableSQL,
+  generateInsertConfigurationSQL,
+  generateMigrationHistorySQL,
+  generateRuleSnapshotSQL,
+  generateCategoryTableSQL,
+  generateValueListTablesSQL,
+  generateCheckpointTableSQL,
+  generateSourceStateColumnsSQL,
+  generateDeduplicateRuleTablesSQL,
+} from './schema';
 
 export interface Migration {
   id: string;
@@ -117,6 +128,91 @@ export class DatabaseMigrations {
           DROP INDEX IF EXISTS idx_rules_worten_pt_created_at;
           -- Repeat for all tables...
         `
+      },
+      {
+        id: 'add_rule_natural_keys',
+        version: 10,
+        description: 'Deduplicate rule tables and add natural key index for sync mode',
+        // Keep the most recent row for each (code, category, variant) left behind by append runs
+        sql: generateDeduplicateRuleTablesSQL(),
+        rollbackSql: `
+          DROP INDEX IF EXISTS idx_rules_worten_pt_natural_key;
+          DROP INDEX IF EXISTS idx_rules_pccomp_pt_natural_key;
+          DROP INDEX IF EXISTS idx_rules_pccomp_es_natural_key;
+          DROP INDEX IF EXISTS idx_rules_carrefour_fr_natural_key;
+          DROP INDEX IF EXISTS idx_rules_carrefour_es_natural_key;
+        `
+      },
+      {
+        id: 'create_migration_history_tables',
+        version: 11,
+        description: 'Create migration run and rule change history tables',
+        sql: generateMigrationHistorySQL(),
+        rollbackSql: 'DROP TABLE IF EXISTS rule_changes; DROP TABLE IF EXISTS migration_runs;'
+      },
+      {
+        id: 'create_rule_snapshots_table',
+        version: 12,
+        description: 'Create per-run rule table snapshots used by rollback',
+        sql: generateRuleSnapshotSQL(),
+        rollbackSql: 'DROP TABLE IF EXISTS rule_snapshots;'
+      },
+      {
+        id: 'add_mapping_profile_column',
+        version: 13,
+        description: 'Add per-table column mapping profile to migration configuration',
+        sql: 'ALTER TABLE migration_configuration ADD COLUMN IF NOT EXISTS mapping_profile TEXT;',
+        rollbackSql: 'ALTER TABLE migration_configuration DROP COLUMN IF EXISTS mapping_profile;'
+      },
+      {
+        id: 'create_mirakl_categories_table',
+        version: 14,
+        description: 'Create the per-marketplace category tree built from the rule tables',
+        sql: generateCategoryTableSQL(),
+        rollbackSql: 'DROP TABLE IF EXISTS mirakl_categories;'
+      },
+      {
+        id: 'create_mirakl_value_list_tables',
+        version: 15,
+        description: 'Create the per-marketplace value lists of LIST attributes and their values',
+        sql: generateValueListTablesSQL(),
+        rollbackSql: 'DROP TABLE IF EXISTS mirakl_values; DROP TABLE IF EXISTS mirakl_value_lists;'
+      },
+      {
+        id: 'create_migration_checkpoints_table',
+        version: 16,
+        description: 'Create the per-table batch checkpoints --resume continues interrupted runs from',
+        sql: generateCheckpointTableSQL(),
+        rollbackSql: 'DROP TABLE IF EXISTS migration_checkpoints;'
+      },
+      {
+        id: 'add_source_state_columns',
+        version: 17,
+        description: 'Record the source revision and content hash each table was last migrated from',
+        sql: generateSourceStateColumnsSQL(),
+        rollbackSql: [
+          'source_location',
+          'source_revision_id',
+          'source_modified_time',
+          'source_content_hash',
+          'source_config_hash',
+          'source_synced_at',
+        ].map(column => `ALTER TABLE migration_configuration DROP COLUMN IF EXISTS ${column};`).join(' ')
+      },
+      {
+        id: 'deduplicate_all_rule_tables',
+        version: 18,
+        description: 'Deduplicate and index the natural key of every rule table, not only the initial ones',
+        sql: generateDeduplicateRuleTablesSQL(),
+        // Removed duplicates cannot be restored; the indexes belong to the rule tables since version 10
+        rollbackSql: 'SELECT 1;'
+      },
+      {
+        id: 'add_source_config_hash_column',
+        version: 19,
+        description: 'Record the mapping settings each table was last migrated with, so changing them migrates it again',
+        sql: generateSourceStateColumnsSQL(),
+        rollbackSql: 'ALTER TABLE migration_configuration DROP COLUMN IF EXISTS source_config_hash;'
       }
     ];
   }
@@ -202,6 +298,16 @@ export class DatabaseMigrations {
     }
   }
 
+  /**
+   * Deduplicates every rule table and adds its natural key index, for tables with duplicate rules
+   * left by append runs that the versioned migrations did not cover
+   */
+  async deduplicateRuleTables(): Promise<void> {
+    Logger.info('Deduplicating rule tables');
+    await this.db.transaction(client => client.query(generateDeduplicateRuleTablesSQL()));
+    Logger.info('Rule tables deduplicated');
+  }
+
   /**
    * Apply all pending migrations
    */
@@ -321,6 +427,9 @@ export class DatabaseMigrations {
       const expectedTables = [
         'migration_schema_versions',
         'migration_configuration',
+        'migration_runs',
+        'rule_changes',
+        'rule_snapshots',
         'rules_worten_pt',
         'rules_pccomp_pt',
         'rules_pccomp_es',
@@ -348,17 +457,16 @@ export class DatabaseMigrations {
         try {
           await this.db.query(`SELECT code FROM ${table} LIMIT 1`);
           
-          // Check unique constraint on code
+          // Check unique natural key index used by sync mode
           const constraintResult = await this.db.query(`
-            SELECT constraint_name 
-            FROM information_schema.table_constraints 
-            WHERE table_name = $1 
-            AND constraint_type = 'UNIQUE'
-            AND constraint_name LIKE '%code%'
-          `, [table]);
+            SELECT indexname 
+            FROM pg_indexes 
+            WHERE tablename = $1 
+            AND indexname = $2
+          `, [table, `idx_${table}_natural_key`]);
           
           if (constraintResult.rows.length === 0) {
-            issues.push(`Missing unique constraint on code column in ${table}`);
+            issues.push(`Missing unique natural key index (code, category, variant) in ${table}`);
           }
         } catch (error) {
           issues.push(`Table ${table} is missing required columns or constraints`);
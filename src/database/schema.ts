@@ -1,3 +1,17 @@
+/**
+ * Constraints parsed from a rule's validations text (stored as JSONB in validations_parsed)
+ */
+export interface ValidationRules {
+  min_length?: number;
+  max_length?: number;
+  min_value?: number;
+  max_value?: number;
+  pattern?: string;
+  decimal_precision?: number;
+  /** Allowed values (or the code of the value list defining them) */
+  values?: string[];
+}
+
 export interface RuleRecord {
   code: string;
   description: string;
@@ -10,11 +24,23 @@ export interface RuleRecord {
   'codigo-categoria-mirakl': string;
   'nome-categoria-mirakl': string;
   'parent_code-categoria-mirakl': string;
+  /** Cells of sheet columns no rule column is mapped to, keyed by the original header */
+  extras?: Record<string, string>;
+  /** Structured form of validations (null when the text is empty or nothing in it could be parsed) */
+  validations_parsed?: ValidationRules | null;
+  /** Canonical roles parsed from the roles text */
+  roles_list?: string[];
+  /** Sheet and row the record was read from, for error messages (not stored) */
+  source_row?: { sheet: string; row: number };
+  /** Table-specific columns declared by the table's mapping profile */
+  [column: string]: unknown;
 }
 
 export interface ConfigurationMapping {
   table_name: string;
   google_sheets_url: string;
+  /** Column mapping profile name (null for the built-in default) */
+  mapping_profile: string | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -33,7 +59,133 @@ export const RULE_TABLE_COLUMNS = [
   'parent_code-categoria-mirakl',
 ] as const;
 
-export const INITIAL_TABLE_MAPPINGS: Omit<ConfigurationMapping, 'created_at' | 'updated_at'>[] = [
+/**
+ * Value types a rule table column can be declared with
+ */
+export type ColumnType = 'text' | 'integer' | 'numeric' | 'boolean' | 'date' | 'timestamp';
+
+export interface ColumnDefinition {
+  name: string;
+  type: ColumnType;
+}
+
+/**
+ * Columns of one rule table: the core rule columns followed by the table-specific ones
+ */
+export interface TableSchema {
+  columns: ColumnDefinition[];
+}
+
+/**
+ * PostgreSQL type of each column type, as written in DDL and as reported by information_schema
+ */
+export const COLUMN_SQL_TYPES: Record<ColumnType, { ddl: string; dataType: string }> = {
+  text: { ddl: 'TEXT', dataType: 'text' },
+  integer: { ddl: 'INTEGER', dataType: 'integer' },
+  numeric: { ddl: 'NUMERIC', dataType: 'numeric' },
+  boolean: { ddl: 'BOOLEAN', dataType: 'boolean' },
+  date: { ddl: 'DATE', dataType: 'date' },
+  timestamp: { ddl: 'TIMESTAMPTZ', dataType: 'timestamp with time zone' },
+};
+
+/**
+ * Columns maintained by the migration itself, which table schemas cannot declare
+ */
+export const SYSTEM_COLUMNS = ['id', 'created_at', 'updated_at', 'deleted_at'] as const;
+
+/**
+ * JSONB column every rule table has for the cells of unmapped sheet columns
+ */
+export const EXTRAS_COLUMN = 'extras';
+
+/**
+ * JSONB column every rule table has for the parsed validations text
+ */
+export const VALIDATIONS_PARSED_COLUMN = 'validations_parsed';
+
+/**
+ * TEXT[] column every rule table has for the roles text split into canonical roles
+ */
+export const ROLES_LIST_COLUMN = 'roles_list';
+
+/**
+ * Columns derived by the migration from each row rather than mapped from a sheet column
+ */
+export const DERIVED_COLUMNS = [EXTRAS_COLUMN, VALIDATIONS_PARSED_COLUMN, ROLES_LIST_COLUMN];
+
+/**
+ * Schema of tables whose profile declares no extra columns
+ */
+export const DEFAULT_TABLE_SCHEMA: TableSchema = {
+  columns: RULE_TABLE_COLUMNS.map(name => ({ name, type: 'text' as ColumnType })),
+};
+
+/**
+ * Builds a table schema from the core rule columns and table-specific columns
+ * @param extraColumns - Columns declared for the table
+ * @returns Table schema
+ */
+export function createTableSchema(extraColumns: ColumnDefinition[] = []): TableSchema {
+  return { columns: [...DEFAULT_TABLE_SCHEMA.columns, ...extraColumns] };
+}
+
+/**
+ * Gets the column names of a table schema
+ * @param schema - Table schema
+ * @returns Column names in table order
+ */
+export function getSchemaColumnNames(schema: TableSchema): string[] {
+  return schema.columns.map(column => column.name);
+}
+
+/**
+ * Gets every column a migration writes: the schema columns followed by the derived columns
+ * @param schema - Table schema
+ * @returns Column names in insert order
+ */
+export function getStoredColumnNames(schema: TableSchema): string[] {
+  return [...getSchemaColumnNames(schema), ...DERIVED_COLUMNS];
+}
+
+/**
+ * Gets the table-specific columns of a schema
+ * @param schema - Table schema
+ * @returns Columns that are not core rule columns
+ */
+export function getExtraColumns(schema: TableSchema): ColumnDefinition[] {
+  return schema.columns.filter(column => !(RULE_TABLE_COLUMNS as readonly string[]).includes(column.name));
+}
+
+/**
+ * Columns that identify a rule across migration runs (natural key used by sync mode)
+ */
+export const RULE_NATURAL_KEY_COLUMNS = [
+  'code',
+  'codigo-categoria-mirakl',
+  'variant',
+] as const;
+
+const NATURAL_KEY_SEPARATOR = '\u0000';
+
+/**
+ * Builds the natural key string for a rule record
+ * @param record - Rule record
+ * @returns Key combining code, category code and variant
+ */
+export function getNaturalKey(record: RuleRecord): string {
+  return RULE_NATURAL_KEY_COLUMNS.map(col => record[col] || '').join(NATURAL_KEY_SEPARATOR);
+}
+
+/**
+ * Splits a natural key string back into its column values
+ * @param key - Key built by getNaturalKey
+ * @returns Values in RULE_NATURAL_KEY_COLUMNS order
+ */
+export function splitNaturalKey(key: string): string[] {
+  return key.split(NATURAL_KEY_SEPARATOR);
+}
+
+export const INITIAL_TABLE_MAPPINGS: Omit<ConfigurationMapping, 'mapping_profile' | 'created_at' | 'updated_at'>[] = [
   {
     table_name: 'rules_worten_pt',
     google_sheets_url: 'https://docs.google.com/spreadsheets/d/13NijIiZQpwKbLndz76Mj7-MkNurehiNu/edit?usp=sharing&ouid=108323945213256378916&rtpof=true&sd=true',
@@ -56,19 +208,124 @@ export const INITIAL_TABLE_MAPPINGS: Omit<ConfigurationMapping, 'created_at' | '
   },
 ];
 
-export function generateCreateTableSQL(tableName: string): string {
-  const columns = RULE_TABLE_COLUMNS.map(col => `"${col}" TEXT`).join(',\n  ');
+export function generateCreateTableSQL(tableName: string, schema: TableSchema = DEFAULT_TABLE_SCHEMA): string {
+  const columns = schema.columns.map(col => `"${col.name}" ${COLUMN_SQL_TYPES[col.type].ddl}`).join(',\n  ');
+  const naturalKey = RULE_NATURAL_KEY_COLUMNS.map(col => `"${col}"`).join(', ');
   
   return `
 CREATE TABLE IF NOT EXISTS "${tableName}" (
   id SERIAL PRIMARY KEY UNIQUE,
   ${columns},
+  ${EXTRAS_COLUMN} JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ${VALIDATIONS_PARSED_COLUMN} JSONB,
+  ${ROLES_LIST_COLUMN} TEXT[] NOT NULL DEFAULT '{}',
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  deleted_at TIMESTAMP
 );
 
+-- Upgrade tables created before soft deletion, unmapped column capture, parsed validations and role lists existed
+ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS ${EXTRAS_COLUMN} JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS ${VALIDATIONS_PARSED_COLUMN} JSONB;
+ALTER TABLE "${tableName}" ADD COLUMN IF NOT EXISTS ${ROLES_LIST_COLUMN} TEXT[] NOT NULL DEFAULT '{}';
+
 CREATE INDEX IF NOT EXISTS "idx_${tableName}_code" ON "${tableName}" ("code");
 CREATE INDEX IF NOT EXISTS "idx_${tableName}_type" ON "${tableName}" ("type");
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_${tableName}_natural_key" ON "${tableName}" (${naturalKey});
+  `.trim();
+}
+
+/**
+ * Deduplicates every rule table and adds its natural key index. Rule tables are the configured tables
+ * and any other rules_* table (shadow tables excluded) with an id and the natural key columns.
+ * For each (code, category, variant) the most recent row is kept; NULL key columns become empty strings.
+ */
+export function generateDeduplicateRuleTablesSQL(): string {
+  const keyColumns = ['id', ...RULE_NATURAL_KEY_COLUMNS].map(column => `'${column}'`).join(', ');
+
+  return `
+DO $$
+DECLARE
+    rule_table text;
+BEGIN
+    FOR rule_table IN
+        SELECT t.table_name FROM information_schema.tables t
+        WHERE t.table_schema = 'public'
+          AND t.table_type = 'BASE TABLE'
+          AND (t.table_name IN (SELECT table_name FROM migration_configuration) OR t.table_name LIKE 'rules\_%')
+          AND t.table_name NOT LIKE '%\_\_shadow'
+          AND (
+            SELECT count(*) FROM information_schema.columns c
+            WHERE c.table_schema = 'public' AND c.table_name = t.table_name AND c.column_name IN (${keyColumns})
+          ) = ${RULE_NATURAL_KEY_COLUMNS.length + 1}
+    LOOP
+        EXECUTE format('UPDATE %I SET code = COALESCE(code, %L), "codigo-categoria-mirakl" = COALESCE("codigo-categoria-mirakl", %L), variant = COALESCE(variant, %L) WHERE code IS NULL OR "codigo-categoria-mirakl" IS NULL OR variant IS NULL', rule_table, '', '', '');
+        EXECUTE format('DELETE FROM %I older USING %I newer WHERE older.id < newer.id AND older.code = newer.code AND older."codigo-categoria-mirakl" = newer."codigo-categoria-mirakl" AND older.variant = newer.variant', rule_table, rule_table);
+        EXECUTE format('CREATE UNIQUE INDEX IF NOT EXISTS %I ON %I (code, "codigo-categoria-mirakl", variant)', 'idx_' || rule_table || '_natural_key', rule_table);
+        RAISE NOTICE 'Deduplicated rule table %', rule_table;
+    END LOOP;
+END$$;
+  `.trim();
+}
+
+/**
+ * Builds the statements that bring an existing rule table in line with its schema.
+ * Missing columns are added and columns of another type are converted; columns are never dropped.
+ * @param tableName - Rule table name
+ * @param schema - Table schema
+ * @param existingColumns - Current columns of the table with their information_schema data type
+ * @returns ALTER TABLE statements (empty when the table already matches)
+ */
+export function generateAlterTableSQL(
+  tableName: string,
+  schema: TableSchema,
+  existingColumns: Map<string, string>
+): string[] {
+  const statements: string[] = [];
+
+  for (const column of schema.columns) {
+    const sqlType = COLUMN_SQL_TYPES[column.type];
+    const currentType = existingColumns.get(column.name);
+
+    if (currentType === undefined) {
+      statements.push(`ALTER TABLE "${tableName}" ADD COLUMN "${column.name}" ${sqlType.ddl}`);
+    } else if (currentType !== sqlType.dataType) {
+      // Empty strings left by text columns become NULL instead of failing the cast
+      statements.push(
+        `ALTER TABLE "${tableName}" ALTER COLUMN "${column.name}" TYPE ${sqlType.ddl} ` +
+        `USING NULLIF(TRIM("${column.name}"::text), '')::${sqlType.ddl}`
+      );
+    }
+  }
+
+  return statements;
+}
+
+/**
+ * Gets the name of the shadow table used to stage replace migrations
+ * @param tableName - Live table name
+ * @returns Shadow table name
+ */
+export function getShadowTableName(tableName: string): string {
+  const shadowName = `${tableName}__shadow`;
+  if (shadowName.length > 63) {
+    throw new Error(`Shadow table name for ${tableName} exceeds the PostgreSQL identifier limit`);
+  }
+  return shadowName;
+}
+
+/**
+ * Adds the columns recording what each table was last migrated from (skipping unchanged sources)
+ */
+export function generateSourceStateColumnsSQL(): string {
+  return `
+ALTER TABLE "migration_configuration" ADD COLUMN IF NOT EXISTS source_location TEXT;
+ALTER TABLE "migration_configuration" ADD COLUMN IF NOT EXISTS source_revision_id TEXT;
+ALTER TABLE "migration_configuration" ADD COLUMN IF NOT EXISTS source_modified_time TEXT;
+ALTER TABLE "migration_configuration" ADD COLUMN IF NOT EXISTS source_content_hash TEXT;
+ALTER TABLE "migration_configuration" ADD COLUMN IF NOT EXISTS source_config_hash TEXT;
+ALTER TABLE "migration_configuration" ADD COLUMN IF NOT EXISTS source_synced_at TIMESTAMP;
   `.trim();
 }
 
@@ -78,19 +335,137 @@ CREATE TABLE IF NOT EXISTS "migration_configuration" (
   id SERIAL PRIMARY KEY,
   table_name TEXT UNIQUE NOT NULL,
   google_sheets_url TEXT NOT NULL,
+  mapping_profile TEXT,
+  source_location TEXT,
+  source_revision_id TEXT,
+  source_modified_time TEXT,
+  source_content_hash TEXT,
+  source_config_hash TEXT,
+  source_synced_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Upgrade configuration tables created before mapping profiles existed
+ALTER TABLE "migration_configuration" ADD COLUMN IF NOT EXISTS mapping_profile TEXT;
+
+-- Upgrade configuration tables created before unchanged sources were skipped
+${generateSourceStateColumnsSQL()}
+
 CREATE INDEX IF NOT EXISTS "idx_migration_configuration_table_name" ON "migration_configuration" ("table_name");
   `.trim();
 }
 
+export function generateMigrationHistorySQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "migration_runs" (
+  id SERIAL PRIMARY KEY,
+  started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP,
+  status TEXT NOT NULL DEFAULT 'running',
+  options JSONB,
+  table_results JSONB,
+  error TEXT
+);
+
+CREATE TABLE IF NOT EXISTS "rule_changes" (
+  id BIGSERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES "migration_runs" (id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('added', 'modified', 'removed')),
+  code TEXT NOT NULL,
+  category_code TEXT NOT NULL,
+  variant TEXT NOT NULL,
+  changes JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "idx_migration_runs_started_at" ON "migration_runs" (started_at);
+CREATE INDEX IF NOT EXISTS "idx_rule_changes_run" ON "rule_changes" (run_id, table_name);
+CREATE INDEX IF NOT EXISTS "idx_rule_changes_rule" ON "rule_changes" (table_name, code);
+  `.trim();
+}
+
+export function generateRuleSnapshotSQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "rule_snapshots" (
+  id BIGSERIAL PRIMARY KEY,
+  run_id INTEGER NOT NULL REFERENCES "migration_runs" (id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  row_data JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS "idx_rule_snapshots_table_run" ON "rule_snapshots" (table_name, run_id);
+  `.trim();
+}
+
+export function generateCategoryTableSQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "mirakl_categories" (
+  table_name TEXT NOT NULL,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL DEFAULT '',
+  parent_code TEXT,
+  depth INTEGER,
+  path TEXT[],
+  problem TEXT CHECK (problem IN ('cycle', 'orphan')),
+  rule_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (table_name, code)
+);
+
+CREATE INDEX IF NOT EXISTS "idx_mirakl_categories_parent" ON "mirakl_categories" (table_name, parent_code);
+  `.trim();
+}
+
+export function generateValueListTablesSQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "mirakl_value_lists" (
+  table_name TEXT NOT NULL,
+  code TEXT NOT NULL,
+  label TEXT NOT NULL DEFAULT '',
+  attribute_codes TEXT[] NOT NULL DEFAULT '{}',
+  value_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (table_name, code)
+);
+
+CREATE TABLE IF NOT EXISTS "mirakl_values" (
+  table_name TEXT NOT NULL,
+  list_code TEXT NOT NULL,
+  code TEXT NOT NULL,
+  label TEXT NOT NULL DEFAULT '',
+  position INTEGER NOT NULL,
+  PRIMARY KEY (table_name, list_code, code),
+  FOREIGN KEY (table_name, list_code) REFERENCES "mirakl_value_lists" (table_name, code) ON DELETE CASCADE
+);
+  `.trim();
+}
+
+export function generateCheckpointTableSQL(): string {
+  return `
+CREATE TABLE IF NOT EXISTS "migration_checkpoints" (
+  run_id INTEGER NOT NULL REFERENCES "migration_runs" (id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  source_revision TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  batches_committed INTEGER NOT NULL DEFAULT 0,
+  records_committed INTEGER NOT NULL DEFAULT 0,
+  resumed_from_run INTEGER,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (run_id, table_name)
+);
+  `.trim();
+}
+
 export function generateInsertConfigurationSQL(): string {
   const values = INITIAL_TABLE_MAPPINGS.map(
     mapping => `('${mapping.table_name}', '${mapping.google_sheets_url}')`
   ).join(',\n  ');
 
+  // Seeded Google Sheets URLs follow the mappings above; tables pointed at another source
+  // (local files, HTTP URLs, Mirakl instances) keep it
   return `
 INSERT INTO "migration_configuration" (table_name, google_sheets_url)
 VALUES
@@ -98,6 +473,8 @@ VALUES
 ON CONFLICT (table_name) 
 DO UPDATE SET 
   google_sheets_url = EXCLUDED.google_sheets_url,
-  updated_at = CURRENT_TIMESTAMP;
+  updated_at = CURRENT_TIMESTAMP
+WHERE migration_configuration.google_sheets_url LIKE 'https://docs.google.com/spreadsheets/%'
+  AND migration_configuration.google_sheets_url <> EXCLUDED.google_sheets_url;
   `.trim();
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { Logger } from '../utils/logger';
+import { ChangeType } from '../utils/record-diff';
+import { DatabaseConnection } from './connection';
+import { MigrationHistory } from './history';
+import { generateRuleSnapshotSQL, EXTRAS_COLUMN, ROLES_LIST_COLUMN } from './schema';
+
+export interface SnapshotInfo {
+  runId: number;
+  tableName: string;
+  rows: number;
+  createdAt: Date;
+}
+
+export interface RestoreResult {
+  tableName: string;
+  snapshotRunId: number;
+  rowsRestored: number;
+  changes: Record<ChangeType, number>;
+}
+
+export class RuleSnapshots {
+  private db: DatabaseConnection;
+  private history: MigrationHistory;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+    this.history = new MigrationHistory();
+  }
+
+  /**
+   * Creates the snapshot table if it does not exist
+   */
+  async ensureTable(): Promise<void> {
+    await this.db.query(generateRuleSnapshotSQL());
+  }
+
+  /**
+   * Stores the full contents of a rule table (soft-deleted rows included) for a run
+   * @param runId - Run id
+   * @param tableName - Rule table name
+   * @returns Number of rows stored
+   */
+  async takeSnapshot(runId: number, tableName: string): Promise<number> {
+    const rows = await this.db.transaction(async client => {
+      // Re-running a snapshot for the same run replaces it
+      await client.query(`DELETE FROM "rule_snapshots" WHERE run_id = $1 AND table_name = $2`, [runId, tableName]);
+      const result = await client.query(
+        `INSERT INTO "rule_snapshots" (run_id, table_name, row_data)
+         SELECT $1, $2, to_jsonb(t) FROM "${tableName}" AS t`,
+        [runId, tableName]
+      );
+      return result.rowCount || 0;
+    });
+
+    Logger.info('Table snapshot stored', { runId, tableName, rows });
+    return rows;
+  }
+
+  /**
+   * Deletes all but the most recent snapshots of a table
+   * @param tableName - Rule table name
+   * @param keepRuns - Number of run snapshots to keep
+   * @returns Number of snapshot rows deleted
+   */
+  async pruneSnapshots(tableName: string, keepRuns: number): Promise<number> {
+    const result = await this.db.query(
+      `DELETE FROM "rule_snapshots"
+       WHERE table_name = $1
+       AND run_id NOT IN (
+         SELECT DISTINCT run_id FROM "rule_snapshots" WHERE table_name = $1 ORDER BY run_id DESC LIMIT $2
+       )`,
+      [tableName, keepRuns]
+    );
+    const deleted = result.rowCount || 0;
+
+    if (deleted > 0) {
+      Logger.info('Old table snapshots pruned', { tableName, keepRuns, rowsDeleted: deleted });
+    }
+    return deleted;
+  }
+
+  /**
+   * Lists the snapshots available for a table
+   * @param tableName - Rule table name
+   * @returns Snapshots, newest first
+   */
+  async listSnapshots(tableName: string): Promise<SnapshotInfo[]> {
+    const result = await this.db.query(
+      `SELECT run_id, table_name, COUNT(*) AS rows, MIN(created_at) AS created_at
+       FROM "rule_snapshots"
+       WHERE table_name = $1
+       GROUP BY run_id, table_name
+       ORDER BY run_id DESC`,
+      [tableName]
+    );
+
+    return result.rows.map((row: any) => ({
+      runId: row.run_id,
+      tableName: row.table_name,
+      rows: parseInt(row.rows, 10),
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * Finds the snapshot describing a table as it was after a run.
+   * Runs that did not touch the table have no snapshot, so the latest earlier one applies.
+   * @param tableName - Rule table name
+   * @param runId - Target run id
+   * @returns Run id of the snapshot, or null if none exists
+   */
+  async findSnapshotRun(tableName: string, runId: number): Promise<number | null> {
+    const result = await this.db.query(
+      `SELECT MAX(run_id) AS run_id FROM "rule_snapshots" WHERE table_name = $1 AND run_id <= $2`,
+      [tableName, runId]
+    );
+    return result.rows[0]?.run_id ?? null;
+  }
+
+  /**
+   * Replaces the contents of a table with a snapshot in a single transaction
+   * @param tableName - Rule table name
+   * @param snapshotRunId - Run id of the snapshot to restore
+   * @param runId - Run recording the rollback and its change events
+   * @returns Restore result
+   */
+  async restoreSnapshot(tableName: string, snapshotRunId: number, runId: number): Promise<RestoreResult> {
+    return this.db.transaction(async client => {
+      // Block writers so nothing lands between the diff and the restore
+      await client.query(`LOCK TABLE "${tableName}" IN ACCESS EXCLUSIVE MODE`);
+
+      // Missing keys become NULL (or the default of the NOT NULL derived columns),
+      // so snapshots taken before a column was added still restore
+      await client.query(
+        `CREATE TEMP TABLE "rollback_rows" ON COMMIT DROP AS
+         SELECT (jsonb_populate_record(NULL::"${tableName}", $3::jsonb || row_data)).*
+         FROM "rule_snapshots"
+         WHERE run_id = $1 AND table_name = $2`,
+        [snapshotRunId, tableName, JSON.stringify({ [EXTRAS_COLUMN]: {}, [ROLES_LIST_COLUMN]: [] })]
+      );
+
+      const changes = await this.history.recordTableDiff(runId, tableName, 'rollback_rows', client);
+
+      await client.query(`DELETE FROM "${tableName}"`);
+      const inserted = await client.query(`INSERT INTO "${tableName}" SELECT * FROM "rollback_rows"`);
+
+      // Keep the id sequence ahead of the restored ids
+      await client.query(
+        `SELECT setval(pg_get_serial_sequence($1, 'id'), COALESCE(MAX(id), 1), MAX(id) IS NOT NULL)
+         FROM "${tableName}"`,
+        [`"${tableName}"`]
+      );
+
+      const rowsRestored = inserted.rowCount || 0;
+      Logger.info('Table restored from snapshot', { tableName, snapshotRunId, runId, rowsRestored, ...changes });
+
+      return { tableName, snapshotRunId, rowsRestored, changes };
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { Logger } from '../utils/logger';
+import { DatabaseConnection } from './connection';
+import { generateValueListTablesSQL } from './schema';
+import { LIST_TYPES, ValueList, getValueListCode } from '../processing/value-lists';
+
+/**
+ * Stored value lists of a marketplace and the LIST rules checked against them
+ */
+export interface ValueListSummary {
+  lists: number;
+  values: number;
+  /** Live rules of a LIST type */
+  listRules: number;
+  /** "<attribute code> -> <list code>" for LIST rules whose value list is not stored */
+  missing: string[];
+}
+
+export class MiraklValueLists {
+  private db: DatabaseConnection;
+
+  constructor() {
+    this.db = DatabaseConnection.getInstance();
+  }
+
+  /**
+   * Creates the value list tables if they do not exist
+   */
+  async ensureTables(): Promise<void> {
+    await this.db.query(generateValueListTablesSQL());
+  }
+
+  /**
+   * Replaces a marketplace's value lists and their values
+   * @param tableName - Rule table name
+   * @param lists - Value lists read by the current run
+   */
+  async replaceLists(tableName: string, lists: ValueList[]): Promise<void> {
+    const values = lists.flatMap(list =>
+      list.values.map((value, position) => ({ list_code: list.code, code: value.code, label: value.label, position }))
+    );
+
+    await this.db.transaction(async client => {
+      // Values go with their lists (ON DELETE CASCADE)
+      await client.query(`DELETE FROM "mirakl_value_lists" WHERE table_name = $1`, [tableName]);
+      if (lists.length === 0) return;
+
+      await client.query(
+        `INSERT INTO "mirakl_value_lists" (table_name, code, label, value_count)
+         SELECT $1, code, label, value_count
+         FROM jsonb_to_recordset($2::jsonb) AS l(code TEXT, label TEXT, value_count INTEGER)`,
+        [tableName, JSON.stringify(lists.map(list => ({ code: list.code, label: list.label, value_count: list.values.length })))]
+      );
+
+      if (values.length > 0) {
+        await client.query(
+          `INSERT INTO "mirakl_values" (table_name, list_code, code, label, position)
+           SELECT $1, list_code, code, label, position
+           FROM jsonb_to_recordset($2::jsonb) AS v(list_code TEXT, code TEXT, label TEXT, position INTEGER)`,
+          [tableName, JSON.stringify(values)]
+        );
+      }
+    });
+
+    Logger.info('Value lists stored', { tableName, lists: lists.length, values: values.length });
+  }
+
+  /**
+   * Links the stored value lists to the live LIST rules that use them and reports the rules whose list is missing.
+   * Tables without any stored value list are not checked.
+   * @param tableName - Rule table name
+   * @returns Counts and missing references
+   */
+  async checkListReferences(tableName: string): Promise<ValueListSummary> {
+    const stored = await this.db.query(
+      `SELECT code, value_count FROM "mirakl_value_lists" WHERE table_name = $1`,
+      [tableName]
+    );
+    const listCodes = new Set<string>(stored.rows.map((row: any) => row.code));
+    const summary: ValueListSummary = {
+      lists: stored.rows.length,
+      values: stored.rows.reduce((sum: number, row: any) => sum + row.value_count, 0),
+      listRules: 0,
+      missing: [],
+    };
+
+    if (listCodes.size === 0) {
+      Logger.debug('No value lists stored - LIST references not checked', { tableName });
+      return summary;
+    }
+
+    const rules = await this.db.query(
+      `SELECT code, extras, validations_parsed
+       FROM "${tableName}"
+       WHERE deleted_at IS NULL AND type = ANY ($1::text[])`,
+      [LIST_TYPES]
+    );
+
+    const attributes = new Map<string, Set<string>>();
+    const missing = new Set<string>();
+    for (const rule of rules.rows) {
+      const listCode = getValueListCode(rule);
+      if (!listCodes.has(listCode)) {
+        missing.add(`${rule.code} -> ${listCode}`);
+        continue;
+      }
+      attributes.set(listCode, (attributes.get(listCode) || new Set()).add(rule.code));
+    }
+
+    await this.db.query(
+      `UPDATE "mirakl_value_lists" l
+       SET attribute_codes = COALESCE(
+             (SELECT r.attribute_codes
+              FROM jsonb_to_recordset($2::jsonb) AS r(list_code TEXT, attribute_codes TEXT[])
+              WHERE r.list_code = l.code),
+             '{}'),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE l.table_name = $1`,
+      [tableName, JSON.stringify([...attributes].map(([code, codes]) => ({ list_code: code, attribute_codes: [...codes].sort() })))]
+    );
+
+    summary.listRules = rules.rows.length;
+    summary.missing = [...missing].sort();
+
+    if (summary.missing.length > 0) {
+      Logger.warn('LIST rules reference missing value lists', { tableName, missing: summary.missing });
+    }
+
+    return summary;
+  }
+}
@@ -1,10 +1,26 @@
 // Dynamic imports to avoid blocking during module loading
 import { Logger } from '../utils/logger';
-import { ErrorCollector } from '../utils/error-handler';
-
-export class GoogleSheetsService {
-  private auth: GoogleAuth | null = null;
-  private sheets: any = null;
+import { SheetSource, SourceDocument, SourceRevision } from '../sources/types';
+import { httpGet, HttpError } from '../sources/http-client';
+import { isZipArchive } from '../sources/format-detection';
+import { onAbort, throwIfAborted, withRetry } from '../utils/retry';
+
+const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files';
+const SHEETS_API_URL = 'https://sheets.googleapis.com/v4/spreadsheets';
+const GOOGLE_SHEETS_MIME_TYPE = 'application/vnd.google-apps.spreadsheet';
+const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const TOKEN_TIMEOUT = 30000;
+
+interface ServiceAccountCredentials {
+  project_id?: string;
+  client_email: string;
+  private_key: string;
+}
+
+export class GoogleSheetsService implements SheetSource {
+  readonly name = 'google-sheets';
+  private auth: ServiceAccountCredentials | null = null;
   private isInitialized: boolean = false;
 
   constructor() {
@@ -53,6 +69,56 @@ export class GoogleSheetsService {
     }
   }
 
+  /**
+   * Checks whether a configured location is a Google Sheets URL
+   * @param location - Configured location
+   * @returns True for docs.google.com spreadsheet URLs
+   */
+  canHandle(location: string): boolean {
+    return /^https:\/\/docs\.google\.com\/spreadsheets\/d\//.test(location);
+  }
+
+  /**
+   * Downloads the workbook behind a Google Sheets URL
+   * @param location - The Google Sheets sharing URL
+   * @param signal - Aborts the token request and the download
+   * @returns The workbook as a single XLSX document
+   */
+  async fetch(location: string, signal?: AbortSignal): Promise<SourceDocument[]> {
+    const buffer = await this.downloadXLSX(location, signal);
+    return [{
+      name: `${this.extractSpreadsheetId(location)}.xlsx`,
+      location,
+      format: 'xlsx',
+      buffer,
+    }];
+  }
+
+  /**
+   * Gets the Drive revision of a Google Sheets URL without downloading the workbook.
+   * Uploaded XLSX files have a head revision; native spreadsheets only report a file version.
+   * @param location - The Google Sheets sharing URL
+   * @param signal - Aborts the token and metadata requests
+   * @returns Revision id and modification time
+   */
+  async getRevision(location: string, signal?: AbortSignal): Promise<SourceRevision> {
+    await this.initialize();
+    const spreadsheetId = this.extractSpreadsheetId(location);
+    const accessToken = await this.createAccessToken(signal);
+    const metadata = await this.getDriveMetadata(spreadsheetId, 'modifiedTime,version,headRevisionId', accessToken, signal);
+
+    if (!metadata.modifiedTime) {
+      throw new Error(`Drive returned no modification time for ${spreadsheetId}`);
+    }
+
+    const revision = {
+      revisionId: String(metadata.headRevisionId || metadata.version || ''),
+      modifiedTime: metadata.modifiedTime,
+    };
+    Logger.debug('Drive revision fetched', { location, ...revision });
+    return revision;
+  }
+
   /**
    * Converts a Google Sheets sharing URL to an XLSX export URL
    * @param shareUrl - The Google Sheets sharing URL
@@ -83,155 +149,151 @@ export class GoogleSheetsService {
   }
 
   /**
-   * Downloads XLSX data from Google Sheets using manual JWT authentication
+   * Downloads the workbook behind a Google Sheets URL as XLSX, keeping every tab and cell type.
+   * Native spreadsheets are exported through the Drive API; uploaded XLSX files are downloaded as-is.
    * @param shareUrl - The Google Sheets sharing URL
+   * @param signal - Aborts the requests (no fallback is tried once aborted)
    * @returns Buffer containing the XLSX data
    */
-  async downloadXLSX(shareUrl: string): Promise<Buffer> {
+  async downloadXLSX(shareUrl: string, signal?: AbortSignal): Promise<Buffer> {
     try {
-      Logger.info('Downloading XLSX from Google Sheets using manual JWT authentication', { shareUrl });
+      Logger.info('Downloading XLSX from Google Drive using manual JWT authentication', { shareUrl });
 
       await this.initialize();
       const spreadsheetId = this.extractSpreadsheetId(shareUrl);
 
       // Create JWT access token
-      const accessToken = await this.createAccessToken();
+      const accessToken = await this.createAccessToken(signal);
       Logger.debug('JWT access token created successfully');
 
-      // Download CSV data using authenticated request
-      const csvData = await this.downloadCSVWithAuth(spreadsheetId, accessToken);
-      Logger.debug('CSV data downloaded', { dataSize: csvData.length });
+      const headers = { 'Authorization': `Bearer ${accessToken}` };
+      const metadata = await this.getDriveMetadata(spreadsheetId, 'name,mimeType', accessToken, signal);
 
-      // Convert CSV to XLSX
-      const xlsx = await import('xlsx');
-      const workbook = xlsx.read(csvData, { type: 'string' });
-      const xlsxBuffer = xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
-      
-      Logger.info('XLSX conversion completed', { 
-        shareUrl, 
+      const downloadUrl = metadata.mimeType === GOOGLE_SHEETS_MIME_TYPE
+        ? `${DRIVE_FILES_URL}/${spreadsheetId}/export?mimeType=${encodeURIComponent(XLSX_MIME_TYPE)}`
+        : `${DRIVE_FILES_URL}/${spreadsheetId}?alt=media&supportsAllDrives=true`;
+
+      const xlsxBuffer = this.assertXLSX((await httpGet(downloadUrl, { headers, signal })).body, shareUrl);
+
+      Logger.info('XLSX download completed', {
+        shareUrl,
+        fileName: metadata.name,
+        mimeType: metadata.mimeType,
         bufferSize: xlsxBuffer.length
       });
-      
+
       return xlsxBuffer;
       
     } catch (error: any) {
+      throwIfAborted(signal);
       Logger.error('Failed to download XLSX using JWT auth', { 
         shareUrl, 
         error: error.message 
       });
       
-      // Fallback to direct HTTP download if JWT fails
+      // Fallback to direct HTTP download if JWT fails; the web export has no 10 MB limit for link-shared sheets
       Logger.info('Attempting fallback to direct HTTP download', { shareUrl });
-      return this.downloadXLSXDirect(shareUrl);
+      try {
+        return await this.downloadXLSXDirect(shareUrl, signal);
+      } catch (directError: any) {
+        if (this.isExportSizeLimitError(error)) {
+          throw new Error(
+            `Spreadsheet ${shareUrl} exceeds the 10 MB limit of the Drive export and its direct export link ` +
+            `is not accessible (${directError.message}). Share the sheet by link, or download it as XLSX ` +
+            `and configure the file as a local or HTTP source.`
+          );
+        }
+        throw directError;
+      }
+    }
+  }
+
+  /**
+   * Checks whether a Drive export failed because the exported file would exceed 10 MB
+   * @param error - Error thrown by the export request
+   * @returns True for Drive's exportSizeLimitExceeded error
+   */
+  private isExportSizeLimitError(error: any): boolean {
+    return error instanceof HttpError &&
+      error.statusCode === 403 &&
+      /exportSizeLimitExceeded|too large to be exported/.test(error.body);
+  }
+
+  /**
+   * Reads metadata of a Drive file
+   * @param fileId - Drive file id (the spreadsheet id)
+   * @param fields - Comma-separated file fields
+   * @param accessToken - OAuth access token
+   * @param signal - Aborts the request
+   * @returns Requested file fields
+   */
+  private async getDriveMetadata(fileId: string, fields: string, accessToken: string, signal?: AbortSignal): Promise<any> {
+    const response = await httpGet(
+      `${DRIVE_FILES_URL}/${fileId}?fields=${encodeURIComponent(fields)}&supportsAllDrives=true`,
+      { headers: { 'Authorization': `Bearer ${accessToken}` }, signal }
+    );
+    return JSON.parse(response.body.toString('utf8'));
+  }
+
+  /**
+   * Reads the tab names of a native spreadsheet through the Sheets API
+   * @param spreadsheetId - Spreadsheet id
+   * @param accessToken - OAuth access token
+   * @returns Tab names, or null when the Sheets API cannot be used
+   */
+  private async getTabNames(spreadsheetId: string, accessToken: string): Promise<string[] | null> {
+    try {
+      const response = await httpGet(
+        `${SHEETS_API_URL}/${spreadsheetId}?fields=${encodeURIComponent('sheets.properties.title')}`,
+        { headers: { 'Authorization': `Bearer ${accessToken}` } }
+      );
+      const spreadsheet = JSON.parse(response.body.toString('utf8'));
+      return (spreadsheet.sheets || []).map((sheet: any) => sheet.properties.title);
+    } catch (error: any) {
+      Logger.debug('Sheets API unavailable - tab names unknown', { spreadsheetId, error: error.message });
+      return null;
     }
   }
 
   /**
-   * Fallback method for direct HTTP download with redirect handling
+   * Fallback method for direct HTTP download of publicly shared sheets
    * @param shareUrl - The Google Sheets sharing URL
+   * @param signal - Aborts the download
    * @returns Buffer containing the XLSX data
    */
-  private async downloadXLSXDirect(shareUrl: string): Promise<Buffer> {
+  private async downloadXLSXDirect(shareUrl: string, signal?: AbortSignal): Promise<Buffer> {
     const exportUrl = this.convertToExportUrl(shareUrl);
-    return this.followRedirectsForXLSX(exportUrl, 5);
+    const response = await httpGet(exportUrl, { signal });
+    return this.assertXLSX(response.body, shareUrl);
   }
 
   /**
-   * Follows redirects for XLSX download
-   * @param url - The URL to fetch
-   * @param maxRedirects - Maximum redirects to follow
-   * @returns Promise<Buffer> XLSX data
+   * Checks that a download is an XLSX (ZIP) file rather than an HTML login or error page
+   * @param buffer - Downloaded data
+   * @param shareUrl - Source URL for error messages
+   * @returns The same buffer
    */
-  private async followRedirectsForXLSX(url: string, maxRedirects: number): Promise<Buffer> {
-    if (maxRedirects <= 0) {
-      throw new Error('Too many redirects');
+  private assertXLSX(buffer: Buffer, shareUrl: string): Buffer {
+    if (!isZipArchive(buffer)) {
+      throw new Error(`Download from ${shareUrl} is not an XLSX file (is the sheet shared with the service account?)`);
     }
-
-    const https = await import('https');
-    const { URL } = await import('url');
-    
-    return new Promise((resolve, reject) => {
-      const urlObj = new URL(url);
-      const request = https.request({
-        hostname: urlObj.hostname,
-        path: urlObj.pathname + urlObj.search,
-        method: 'GET',
-        headers: {
-          'User-Agent': 'XLSX-Migration-Tool/1.0.0'
-        }
-      }, async (response) => {
-        // Handle redirects (3xx status codes)
-        if (response.statusCode && response.statusCode >= 300 && response.statusCode < 400) {
-          const location = response.headers.location;
-          if (location) {
-            Logger.debug('Following XLSX redirect', { 
-              from: url, 
-              to: location, 
-              statusCode: response.statusCode,
-              redirectsRemaining: maxRedirects - 1
-            });
-            try {
-              const buffer = await this.followRedirectsForXLSX(location, maxRedirects - 1);
-              resolve(buffer);
-            } catch (error) {
-              reject(error);
-            }
-            return;
-          }
-        }
-
-        // Handle successful response
-        if (response.statusCode === 200) {
-          const chunks: Buffer[] = [];
-          response.on('data', (chunk: Buffer) => {
-            chunks.push(chunk);
-          });
-
-          response.on('end', () => {
-            const buffer = Buffer.concat(chunks);
-            Logger.debug('XLSX direct download completed', { 
-              url, 
-              bufferSize: buffer.length 
-            });
-            resolve(buffer);
-          });
-
-          response.on('error', reject);
-          return;
-        }
-
-        // Handle error responses
-        reject(new Error(`Failed to download: ${response.statusCode} ${response.statusMessage}`));
-      });
-
-      request.on('error', reject);
-      request.setTimeout(30000, () => {
-        request.destroy();
-        reject(new Error('Download timeout after 30 seconds'));
-      });
-      request.end();
-    });
+    return buffer;
   }
 
   /**
-   * Validates if a Google Sheets URL is accessible
+   * Validates if a Google Sheets URL is accessible, reading its Drive metadata without downloading it
    * @param shareUrl - The Google Sheets sharing URL
    * @returns Promise<boolean> indicating if the sheet is accessible
    */
-  async validateSheetAccess(shareUrl: string): Promise<boolean> {
+  async validate(shareUrl: string): Promise<boolean> {
     try {
       Logger.debug('Validating Google Sheets access', { shareUrl });
 
       await this.initialize();
-      const spreadsheetId = this.extractSpreadsheetId(shareUrl);
-      const response = await this.sheets!.spreadsheets.get({
-        spreadsheetId,
-        fields: 'properties.title',
-      });
-      
-      const isValid = !!response.data;
-      Logger.debug('Sheet validation completed', { shareUrl, isValid, title: response.data?.properties?.title });
-      return isValid;
+      const accessToken = await this.createAccessToken();
+      const metadata = await this.getDriveMetadata(this.extractSpreadsheetId(shareUrl), 'name,mimeType', accessToken);
+      Logger.debug('Sheet validation completed', { shareUrl, isValid: true, title: metadata.name });
+      return true;
     } catch (error: any) {
       Logger.error('Sheet validation failed', { shareUrl, error: error.message });
       return false;
@@ -239,24 +301,26 @@ export class GoogleSheetsService {
   }
 
   /**
-   * Gets basic information about a Google Sheet
+   * Gets basic information about a Google Sheet from its metadata, without downloading it
    * @param shareUrl - The Google Sheets sharing URL
-   * @returns Promise with sheet information
+   * @returns Promise with the file title and type, and the tab names of native spreadsheets
+   * (null for uploaded XLSX files, which the Sheets API cannot open, or when the Sheets API is not enabled)
    */
-  async getSheetInfo(shareUrl: string): Promise<{ title: string; sheetCount: number }> {
+  async getSheetInfo(shareUrl: string): Promise<{ title: string; mimeType: string; sheetNames: string[] | null }> {
     try {
       Logger.debug('Getting sheet information', { shareUrl });
 
       await this.initialize();
       const spreadsheetId = this.extractSpreadsheetId(shareUrl);
-      const response = await this.sheets!.spreadsheets.get({
-        spreadsheetId,
-        fields: 'properties.title,sheets.properties.title',
-      });
+      const accessToken = await this.createAccessToken();
+      const metadata = await this.getDriveMetadata(spreadsheetId, 'name,mimeType', accessToken);
 
       const info = {
-        title: response.data.properties.title || 'Unknown Sheet',
-        sheetCount: response.data.sheets?.length || 0,
+        title: metadata.name || 'Unknown Sheet',
+        mimeType: metadata.mimeType,
+        sheetNames: metadata.mimeType === GOOGLE_SHEETS_MIME_TYPE
+          ? await this.getTabNames(spreadsheetId, accessToken)
+          : null,
       };
 
       Logger.debug('Sheet information retrieved', { shareUrl, info });
@@ -277,12 +341,13 @@ export class GoogleSheetsService {
 
   /**
    * Creates JWT access token for Google API authentication
+   * @param signal - Aborts the token exchange and its retries
    * @returns Promise<string> access token
    */
-  private async createAccessToken(): Promise<string> {
+  private async createAccessToken(signal?: AbortSignal): Promise<string> {
     const crypto = await import('crypto');
     
-    const credentials = this.auth as any;
+    const credentials = this.auth!;
     const now = Math.floor(Date.now() / 1000);
     const expiry = now + 3600; // 1 hour
 
@@ -295,7 +360,7 @@ export class GoogleSheetsService {
     // JWT payload
     const payload = {
       iss: credentials.client_email,
-      scope: 'https://www.googleapis.com/auth/spreadsheets.readonly',
+      scope: 'https://www.googleapis.com/auth/drive.readonly',
       aud: 'https://oauth2.googleapis.com/token',
       iat: now,
       exp: expiry
@@ -315,7 +380,6 @@ export class GoogleSheetsService {
     const jwt = `${unsignedToken}.${signature}`;
 
     // Exchange JWT for access token
-    const https = await import('https');
     const querystring = await import('querystring');
 
     const postData = querystring.stringify({
@@ -323,8 +387,21 @@ export class GoogleSheetsService {
       assertion: jwt
     });
 
-    return new Promise((resolve, reject) => {
-      const req = https.request('https://oauth2.googleapis.com/token', {
+    return withRetry(() => this.exchangeToken(postData, signal), 'Google token exchange', { signal });
+  }
+
+  /**
+   * Posts a signed JWT to the token endpoint
+   * @param postData - Form-encoded token request
+   * @param signal - Destroys the pending request once aborted
+   * @returns Promise<string> access token
+   */
+  private async exchangeToken(postData: string, signal?: AbortSignal): Promise<string> {
+    const https = await import('https');
+    let removeAbortListener: () => void = () => undefined;
+
+    return new Promise<string>((resolve, reject) => {
+      const req = https.request(TOKEN_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded',
@@ -334,6 +411,11 @@ export class GoogleSheetsService {
         let data = '';
         res.on('data', chunk => data += chunk);
         res.on('end', () => {
+          const statusCode = res.statusCode || 0;
+          if (statusCode < 200 || statusCode >= 300) {
+            reject(new HttpError(`Token exchange failed: ${statusCode} ${data.slice(0, 200)}`.trim(), statusCode));
+            return;
+          }
           try {
             const response = JSON.parse(data);
             if (response.access_token) {
@@ -348,154 +430,18 @@ export class GoogleSheetsService {
       });
 
       req.on('error', reject);
-      req.write(postData);
-      req.end();
-    });
-  }
-
-  /**
-   * Downloads CSV data using authenticated request with redirect handling
-   * @param spreadsheetId - The Google Sheets spreadsheet ID
-   * @param accessToken - The OAuth2 access token
-   * @param maxRedirects - Maximum number of redirects to follow (default 5)
-   * @returns Promise<string> CSV data
-   */
-  private async downloadCSVWithAuth(
-    spreadsheetId: string, 
-    accessToken: string, 
-    maxRedirects: number = 5
-  ): Promise<string> {
-    const https = await import('https');
-    const { URL } = await import('url');
-
-    const exportUrl = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv`;
-    
-    return this.followRedirects(exportUrl, accessToken, maxRedirects);
-  }
-
-  /**
-   * Follows HTTP redirects to download CSV data
-   * @param url - The URL to fetch
-   * @param accessToken - The OAuth2 access token
-   * @param maxRedirects - Maximum redirects to follow
-   * @returns Promise<string> CSV data
-   */
-  private async followRedirects(
-    url: string, 
-    accessToken: string, 
-    maxRedirects: number
-  ): Promise<string> {
-    if (maxRedirects <= 0) {
-      throw new Error('Too many redirects');
-    }
-
-    const https = await import('https');
-    const { URL } = await import('url');
-    
-    return new Promise((resolve, reject) => {
-      const urlObj = new URL(url);
-      const request = https.request({
-        hostname: urlObj.hostname,
-        path: urlObj.pathname + urlObj.search,
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'User-Agent': 'XLSX-Migration-Tool/1.0.0'
-        }
-      }, async (response) => {
-        // Handle redirects (3xx status codes)
-        if (response.statusCode && response.statusCode >= 300 && response.statusCode < 400) {
-          const location = response.headers.location;
-          if (location) {
-            Logger.debug('Following redirect', { 
-              from: url, 
-              to: location, 
-              statusCode: response.statusCode,
-              redirectsRemaining: maxRedirects - 1
-            });
-            try {
-              const data = await this.followRedirects(location, accessToken, maxRedirects - 1);
-              resolve(data);
-            } catch (error) {
-              reject(error);
-            }
-            return;
-          }
-        }
-
-        // Handle successful response
-        if (response.statusCode === 200) {
-          let data = '';
-          response.on('data', chunk => data += chunk);
-          response.on('end', () => {
-            Logger.debug('CSV download completed', { 
-              url, 
-              dataSize: data.length 
-            });
-            resolve(data);
-          });
-          response.on('error', reject);
-          return;
-        }
-
-        // Handle error responses
-        reject(new Error(`Failed to download CSV: ${response.statusCode} ${response.statusMessage}`));
+      req.setTimeout(TOKEN_TIMEOUT, () => {
+        req.destroy();
+        const error: NodeJS.ErrnoException = new Error(`Token exchange timeout after ${TOKEN_TIMEOUT / 1000} seconds`);
+        error.code = 'ETIMEDOUT';
+        reject(error);
       });
-
-      request.on('error', reject);
-      request.setTimeout(30000, () => {
-        request.destroy();
-        reject(new Error('CSV download timeout'));
+      removeAbortListener = onAbort(signal, reason => {
+        req.destroy();
+        reject(reason);
       });
-      request.end();
-    });
-  }
-
-  /**
-   * Validates all configured Google Sheets URLs
-   * @param urls - Array of Google Sheets URLs
-   * @param errorCollector - Error collector instance
-   * @returns Promise with validation results
-   */
-  async validateAllSheets(
-    urls: string[], 
-    errorCollector: ErrorCollector
-  ): Promise<{ valid: string[]; invalid: string[] }> {
-    Logger.info('Validating all Google Sheets URLs', { count: urls.length });
-
-    const valid: string[] = [];
-    const invalid: string[] = [];
-
-    for (const url of urls) {
-      try {
-        const isValid = await this.validateSheetAccess(url);
-        if (isValid) {
-          valid.push(url);
-          Logger.debug('Sheet validation passed', { url });
-        } else {
-          invalid.push(url);
-          errorCollector.addError(
-            'GoogleSheetsService',
-            `Sheet validation failed for URL: ${url}`,
-            { url }
-          );
-        }
-      } catch (error: any) {
-        invalid.push(url);
-        errorCollector.addError(
-          'GoogleSheetsService',
-          `Sheet validation error for URL: ${url}`,
-          { url, error: error.message }
-        );
-      }
-    }
-
-    Logger.info('Sheet validation completed', { 
-      total: urls.length, 
-      valid: valid.length, 
-      invalid: invalid.length 
-    });
-
-    return { valid, invalid };
+      req.write(postData);
+      req.end();
+    }).finally(() => removeAbortListener());
   }
 }
\ No newline at end of file
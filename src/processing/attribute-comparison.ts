@@ -0,0 +1,197 @@
+import { REQUIREMENT_LEVELS } from './vocabulary';
+
+/**
+ * The compared columns of one live rule
+ */
+export interface ComparedRule {
+  code: string;
+  categoryCode: string;
+  requirementLevel: string;
+  type: string;
+  validations: string;
+}
+
+/**
+ * The live rules of one marketplace table
+ */
+export interface MarketplaceRules {
+  tableName: string;
+  rules: ComparedRule[];
+}
+
+/**
+ * How one marketplace defines an attribute, over all the categories it appears in
+ */
+export interface AttributeCell {
+  /** Strongest requirement level of the attribute's rules */
+  requirementLevel: string;
+  /** Distinct values of each column, strongest requirement level first */
+  requirementLevels: string[];
+  types: string[];
+  validations: string[];
+  /** Number of rules (one per category and variant) defining the attribute */
+  rules: number;
+}
+
+export type ComparisonConflictKind = 'missing' | 'requirement_level' | 'type' | 'validations';
+
+export interface ComparisonConflict {
+  kind: ComparisonConflictKind;
+  message: string;
+}
+
+/**
+ * One attribute code with its definition in every compared marketplace
+ */
+export interface AttributeComparisonRow {
+  code: string;
+  /** Table name -> cell (null when the marketplace has no rule for the attribute) */
+  cells: Record<string, AttributeCell | null>;
+  conflicts: ComparisonConflict[];
+}
+
+export interface AttributeComparison {
+  tables: string[];
+  rows: AttributeComparisonRow[];
+}
+
+/**
+ * Builds the attribute code x marketplace matrix and finds the attributes marketplaces disagree on:
+ * REQUIRED in one marketplace and missing in another, or given different requirement levels, types or validations
+ * @param marketplaces - Live rules per table, in column order
+ * @returns Matrix rows ordered by attribute code
+ */
+export function buildAttributeComparison(marketplaces: MarketplaceRules[]): AttributeComparison {
+  const tables = marketplaces.map(marketplace => marketplace.tableName);
+  const rows = new Map<string, AttributeComparisonRow>();
+
+  for (const { tableName, rules } of marketplaces) {
+    const byCode = new Map<string, ComparedRule[]>();
+    for (const rule of rules) {
+      const code = rule.code.trim();
+      if (code === '') continue;
+      byCode.set(code, [...(byCode.get(code) || []), rule]);
+    }
+
+    for (const [code, codeRules] of byCode) {
+      const row = rows.get(code) || rows.set(code, { code, cells: {}, conflicts: [] }).get(code)!;
+      row.cells[tableName] = buildCell(codeRules);
+    }
+  }
+
+  for (const row of rows.values()) {
+    for (const tableName of tables) {
+      row.cells[tableName] = row.cells[tableName] || null;
+    }
+    row.conflicts = findConflicts(row, tables);
+  }
+
+  return {
+    tables,
+    rows: [...rows.values()].sort((a, b) => a.code.localeCompare(b.code)),
+  };
+}
+
+/**
+ * Summarizes the rules one marketplace has for an attribute
+ * @param rules - Rules sharing an attribute code
+ * @returns Cell
+ */
+function buildCell(rules: ComparedRule[]): AttributeCell {
+  const distinct = (values: string[]) => [...new Set(values.map(value => value.trim()).filter(value => value !== ''))];
+  const requirementLevels = distinct(rules.map(rule => rule.requirementLevel))
+    .sort((a, b) => levelRank(a) - levelRank(b) || a.localeCompare(b));
+
+  return {
+    requirementLevel: requirementLevels[0] || '',
+    requirementLevels,
+    types: distinct(rules.map(rule => rule.type)).sort(),
+    validations: distinct(rules.map(rule => rule.validations)).sort(),
+    rules: rules.length,
+  };
+}
+
+/**
+ * Ranks requirement levels from strongest (REQUIRED) to weakest; unknown levels come last
+ * @param level - Requirement level
+ * @returns Rank
+ */
+function levelRank(level: string): number {
+  const rank = (REQUIREMENT_LEVELS as readonly string[]).indexOf(level);
+  return rank === -1 ? REQUIREMENT_LEVELS.length : rank;
+}
+
+/**
+ * Compares the cells of an attribute across marketplaces
+ * @param row - Matrix row
+ * @param tables - Compared tables
+ * @returns Conflicts found
+ */
+function findConflicts(row: AttributeComparisonRow, tables: string[]): ComparisonConflict[] {
+  const conflicts: ComparisonConflict[] = [];
+  const present = tables.filter(tableName => row.cells[tableName]);
+  const missing = tables.filter(tableName => !row.cells[tableName]);
+  const required = present.filter(tableName => row.cells[tableName]!.requirementLevel === 'REQUIRED');
+
+  if (required.length > 0 && missing.length > 0) {
+    conflicts.push({
+      kind: 'missing',
+      message: `REQUIRED in ${required.join(', ')}; missing in ${missing.join(', ')}`,
+    });
+  }
+
+  const columns: Array<[Exclude<ComparisonConflictKind, 'missing'>, (cell: AttributeCell) => string]> = [
+    ['requirement_level', cell => cell.requirementLevel],
+    ['type', cell => cell.types.join(' / ')],
+    ['validations', cell => cell.validations.join(' / ')],
+  ];
+
+  for (const [kind, valueOf] of columns) {
+    const tablesByValue = new Map<string, string[]>();
+    for (const tableName of present) {
+      const value = valueOf(row.cells[tableName]!);
+      tablesByValue.set(value, [...(tablesByValue.get(value) || []), tableName]);
+    }
+
+    if (tablesByValue.size > 1) {
+      conflicts.push({
+        kind,
+        message: [...tablesByValue]
+          .map(([value, tableNames]) => `${value || '(empty)'} in ${tableNames.join(', ')}`)
+          .join('; '),
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Lays the matrix out as a sheet: one row per attribute, requirement level, type and validations
+ * columns per marketplace, and the conflicts last
+ * @param comparison - Attribute comparison
+ * @returns Header row followed by one row per attribute
+ */
+export function toComparisonSheet(comparison: AttributeComparison): string[][] {
+  const header = ['code'];
+  for (const tableName of comparison.tables) {
+    header.push(`${tableName} requirement_level`, `${tableName} type`, `${tableName} validations`);
+  }
+  header.push('conflicts');
+
+  const rows = comparison.rows.map(row => {
+    const line = [row.code];
+    for (const tableName of comparison.tables) {
+      const cell = row.cells[tableName];
+      line.push(
+        cell ? cell.requirementLevels.join(' / ') : '',
+        cell ? cell.types.join(' / ') : '',
+        cell ? cell.validations.join(' / ') : ''
+      );
+    }
+    line.push(row.conflicts.map(conflict => `${conflict.kind}: ${conflict.message}`).join(' | '));
+    return line;
+  });
+
+  return [header, ...rows];
+}
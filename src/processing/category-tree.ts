@@ -0,0 +1,172 @@
+/**
+ * Category columns of a group of rule rows
+ */
+export interface CategorySource {
+  code: string;
+  name: string;
+  parentCode: string;
+  /** Number of rules carrying this combination */
+  rules: number;
+}
+
+export type CategoryProblem = 'cycle' | 'orphan';
+
+/**
+ * One node of a marketplace's category tree
+ */
+export interface MiraklCategory {
+  code: string;
+  name: string;
+  /** Parent category code (null for root categories) */
+  parentCode: string | null;
+  /** Distance from the top of the category's branch (null when the branch loops) */
+  depth: number | null;
+  /** Category codes from the top of the branch down to this category (null when the branch loops) */
+  path: string[] | null;
+  /** Set on categories in or below a cycle, and on categories whose parent never appears */
+  problem: CategoryProblem | null;
+  rules: number;
+}
+
+export interface CategoryTree {
+  categories: MiraklCategory[];
+  /** Category codes of each cycle, in parent order */
+  cycles: string[][];
+  /** Categories whose parent code is not a category of the marketplace */
+  orphans: string[];
+  /** Parent codes that never appear as a category code */
+  missingParents: string[];
+  /** Categories given different names or parents by different rules */
+  conflicts: string[];
+}
+
+/**
+ * Builds the category tree described by the category columns of a marketplace's rules.
+ * Each category keeps the name and parent used by most of its rules; other combinations are reported as conflicts.
+ * Orphans start their own branch (depth 0) and the categories below them are placed under them.
+ * @param sources - Distinct (code, name, parent) combinations with their rule counts
+ * @returns Categories with depth and path, and the problems found
+ */
+export function buildCategoryTree(sources: CategorySource[]): CategoryTree {
+  const grouped = new Map<string, CategorySource[]>();
+  for (const source of sources) {
+    const code = source.code.trim();
+    if (code === '') continue;
+    grouped.set(code, [...(grouped.get(code) || []), source]);
+  }
+
+  const categories = new Map<string, MiraklCategory>();
+  const conflicts: string[] = [];
+
+  for (const [code, variants] of grouped) {
+    const chosen = [...variants].sort((a, b) => b.rules - a.rules)[0];
+    const parentCodes = new Set(variants.map(variant => variant.parentCode.trim()));
+    const names = new Set(variants.map(variant => variant.name.trim()).filter(name => name !== ''));
+    if (parentCodes.size > 1) {
+      conflicts.push(`${code} has ${parentCodes.size} parents: ${[...parentCodes].map(parent => parent || '(none)').join(', ')}`);
+    }
+    if (names.size > 1) {
+      conflicts.push(`${code} has ${names.size} names: ${[...names].join(', ')}`);
+    }
+
+    categories.set(code, {
+      code,
+      name: chosen.name.trim(),
+      parentCode: chosen.parentCode.trim() || null,
+      depth: null,
+      path: null,
+      problem: null,
+      rules: variants.reduce((sum, variant) => sum + variant.rules, 0),
+    });
+  }
+
+  const orphans: string[] = [];
+  const missingParents = new Set<string>();
+  for (const category of categories.values()) {
+    if (category.parentCode && !categories.has(category.parentCode)) {
+      category.problem = 'orphan';
+      orphans.push(category.code);
+      missingParents.add(category.parentCode);
+    }
+  }
+
+  const cycles = findCycles(categories);
+  const inCycle = new Set(cycles.flat());
+
+  for (const category of categories.values()) {
+    resolvePath(category, categories, inCycle);
+  }
+
+  return {
+    categories: [...categories.values()].sort((a, b) => a.code.localeCompare(b.code)),
+    cycles,
+    orphans: orphans.sort(),
+    missingParents: [...missingParents].sort(),
+    conflicts,
+  };
+}
+
+/**
+ * Finds the cycles formed by parent links
+ * @param categories - Categories by code
+ * @returns Codes of each cycle, starting from its smallest code
+ */
+function findCycles(categories: Map<string, MiraklCategory>): string[][] {
+  const cycles: string[][] = [];
+  const visited = new Set<string>();
+
+  for (const start of categories.keys()) {
+    const trail: string[] = [];
+    let code: string | null = start;
+
+    // Follow parents until a known category is reached again, or the branch ends
+    while (code && categories.has(code) && !visited.has(code)) {
+      visited.add(code);
+      trail.push(code);
+      code = categories.get(code)!.parentCode;
+    }
+
+    const loopStart = code ? trail.indexOf(code) : -1;
+    if (loopStart !== -1) {
+      const cycle = trail.slice(loopStart);
+      const first = cycle.indexOf([...cycle].sort()[0]);
+      cycles.push([...cycle.slice(first), ...cycle.slice(0, first)]);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Sets the depth and path of a category from its ancestors, marking categories below a cycle
+ * @param category - Category to resolve
+ * @param categories - Categories by code
+ * @param inCycle - Codes of categories that are part of a cycle
+ * @returns Resolved path, or null when the branch loops
+ */
+function resolvePath(
+  category: MiraklCategory,
+  categories: Map<string, MiraklCategory>,
+  inCycle: Set<string>
+): string[] | null {
+  if (category.path || category.problem === 'cycle') {
+    return category.path;
+  }
+
+  if (inCycle.has(category.code)) {
+    category.problem = 'cycle';
+    return null;
+  }
+
+  const parent = category.parentCode ? categories.get(category.parentCode) : undefined;
+  const parentPath = parent ? resolvePath(parent, categories, inCycle) : [];
+
+  if (parentPath === null) {
+    category.problem = 'cycle';
+    return null;
+  }
+
+  category.path = [...parentPath, category.code];
+  category.depth = category.path.length - 1;
+  return category.path;
+}
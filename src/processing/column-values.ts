@@ -0,0 +1,111 @@
+import { ColumnType } from '../database/schema';
+
+const TRUE_VALUES = ['true', 'yes', 'y', 'sim', 's', 'si', 'oui', 'x', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', 'nao', 'non', '0'];
+
+/** PostgreSQL INTEGER range */
+const MAX_INTEGER = 2147483647;
+
+/**
+ * Reads a yes/no cell in the languages used by the marketplace sheets
+ * @param value - Cell text
+ * @returns 'true', 'false', or null when the value is not a boolean
+ */
+export function parseBooleanValue(value: string): 'true' | 'false' | null {
+  const normalized = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+  if (TRUE_VALUES.includes(normalized)) return 'true';
+  if (FALSE_VALUES.includes(normalized)) return 'false';
+  return null;
+}
+
+/**
+ * Converts a cell value to the text PostgreSQL returns for a column of the given type,
+ * so values read from sheets compare equal to the values stored in the table
+ * @param value - Cell text
+ * @param type - Column type
+ * @returns Canonical value ('' when the cell is empty)
+ * @throws Error when the value cannot be stored in a column of that type
+ */
+export function convertColumnValue(value: string, type: ColumnType): string {
+  const trimmed = (value ?? '').trim();
+  if (type === 'text') return value ?? '';
+  if (trimmed === '') return '';
+
+  switch (type) {
+    case 'integer': {
+      if (!/^[+-]?\d+(\.0+)?$/.test(trimmed)) {
+        throw new Error(`'${value}' is not a whole number`);
+      }
+      const parsed = parseInt(trimmed, 10);
+      if (Math.abs(parsed) > MAX_INTEGER) {
+        throw new Error(`'${value}' is out of range for an integer column`);
+      }
+      return String(parsed);
+    }
+
+    case 'numeric': {
+      // Accept decimal commas ("12,5") as long as there is no thousands separator to confuse them with
+      const number = /^[+-]?\d*,\d+$/.test(trimmed) ? trimmed.replace(',', '.') : trimmed;
+      const match = number.match(/^([+-]?)(\d*)(?:\.(\d*))?$/);
+      if (!match || (match[2] === '' && !match[3])) {
+        throw new Error(`'${value}' is not a number`);
+      }
+      const [, sign, integerPart, fraction] = match;
+      const digits = `${integerPart.replace(/^0+(?=\d)/, '') || '0'}${fraction ? `.${fraction}` : ''}`;
+      const isZero = /^0(\.0*)?$/.test(digits);
+      return sign === '-' && !isZero ? `-${digits}` : digits;
+    }
+
+    case 'boolean': {
+      const parsed = parseBooleanValue(trimmed);
+      if (parsed === null) {
+        throw new Error(`'${value}' is not a yes/no value`);
+      }
+      return parsed;
+    }
+
+    case 'date': {
+      const date = parseDate(trimmed);
+      if (!date) {
+        throw new Error(`'${value}' is not a date (expected YYYY-MM-DD or DD/MM/YYYY)`);
+      }
+      return date;
+    }
+
+    case 'timestamp': {
+      const time = Date.parse(trimmed);
+      if (isNaN(time)) {
+        throw new Error(`'${value}' is not a timestamp`);
+      }
+      return new Date(time).toISOString();
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parses ISO (YYYY-MM-DD) and day-first (DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY) dates
+ * @param value - Date text
+ * @returns YYYY-MM-DD, or null when the text is not a valid date
+ */
+function parseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : dayFirst ? [dayFirst[3], dayFirst[2], dayFirst[1]] : null;
+  if (!parts) return null;
+
+  const [year, month, day] = parts.map(part => parseInt(part, 10));
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DataTransformer } from './data-transformer';
+import { ParsedSheet } from './xlsx-parser';
+import { ErrorCollector } from '../utils/error-handler';
+import { RuleRecord } from '../database/schema';
+
+function sheetOf(records: Partial<RuleRecord>[]): ParsedSheet {
+  return {
+    sheetName: 'Rules',
+    records: records.map((record, index) => ({ record: record as RuleRecord, rowNumber: index + 2 })),
+    sourceRows: () => records,
+    totalRows: records.length,
+    validRows: records.length,
+    errors: [],
+  };
+}
+
+async function transform(records: Partial<RuleRecord>[]): Promise<RuleRecord[]> {
+  const transformation = new DataTransformer().transformRecords([sheetOf(records)], 'rules_test', new ErrorCollector());
+  const transformed: RuleRecord[] = [];
+  for await (const batch of transformation.batches) {
+    transformed.push(...batch);
+  }
+  return transformed;
+}
+
+describe('DataTransformer text sanitization', () => {
+  it('collapses whitespace in rule columns', async () => {
+    const [record] = await transform([
+      { code: ' EAN ', label: 'Bar\n\ncode', description: 'Line one\r\n\tline   two', requirement_level: 'REQUIRED', type: 'TEXT' },
+    ]);
+
+    assert.equal(record.code, 'EAN');
+    assert.equal(record.label, 'Bar code');
+    assert.equal(record.description, 'Line one line two');
+  });
+
+  it('caps rule columns at 2000 characters', async () => {
+    const [record] = await transform([
+      { code: 'NOTES', label: 'Notes', description: 'x'.repeat(2500), requirement_level: 'OPTIONAL', type: 'TEXT' },
+    ]);
+
+    assert.equal(record.description.length, 2000);
+  });
+});
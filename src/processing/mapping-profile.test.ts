@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MappingProfile, buildColumnMapping } from './mapping-profile';
+
+const profile: MappingProfile = {
+  name: 'fallbacks',
+  columns: {
+    code: { headers: ['code'], index: 'A' },
+    label: { headers: ['label'], index: 1 },
+    type: { headers: ['type'], index: 'E' },
+  },
+};
+
+describe('buildColumnMapping', () => {
+  it('uses an index fallback when the column has no header', () => {
+    const report = buildColumnMapping(['Attribute', 'label', 'type'], profile, 'Rules', 'rules_test');
+
+    assert.deepEqual(
+      report.columns.map(entry => [entry.column, entry.index, entry.matchedBy]),
+      [['code', 0, 'index'], ['label', 1, 'header'], ['type', 2, 'header']]
+    );
+    assert.deepEqual(report.problems, []);
+  });
+
+  it('does not let a fallback take a header another column matched by name', () => {
+    // code falls back to column A, which the type header holds
+    const report = buildColumnMapping(['type', 'label'], profile, 'Rules', 'rules_test');
+    const code = report.columns.find(entry => entry.column === 'code')!;
+
+    assert.equal(report.columns.find(entry => entry.column === 'type')!.index, 0);
+    assert.equal(code.index, null);
+    assert.equal(code.matchedBy, null);
+    assert.ok(report.problems.includes("Column 'code' falls back to column 1, which is already mapped to 'type'"));
+  });
+
+  it('reports a fallback past the last column', () => {
+    const report = buildColumnMapping(['code', 'label'], profile, 'Rules', 'rules_test');
+    const type = report.columns.find(entry => entry.column === 'type')!;
+
+    assert.equal(type.index, null);
+    assert.ok(report.problems.includes("Column 'type' falls back to column 5, but the sheet has 2 columns"));
+  });
+});
@@ -0,0 +1,541 @@
+import * as XLSX from 'xlsx';
+import { Logger } from '../utils/logger';
+import { appConfig } from '../config/environment';
+import {
+  RULE_TABLE_COLUMNS,
+  SYSTEM_COLUMNS,
+  DERIVED_COLUMNS,
+  COLUMN_SQL_TYPES,
+  ColumnType,
+  ColumnDefinition,
+  TableSchema,
+  createTableSchema,
+} from '../database/schema';
+import { parseBooleanValue } from './column-values';
+
+export type RuleColumn = typeof RULE_TABLE_COLUMNS[number];
+
+/**
+ * Value transform applied to a mapped cell, in order
+ */
+export type ColumnTransform =
+  | 'trim'
+  | 'uppercase'
+  | 'lowercase'
+  | 'collapse_whitespace'
+  | 'boolean'
+  | { replace: { pattern: string; flags?: string; with: string } }
+  | { map: Record<string, string> };
+
+/**
+ * How one rule column is found in a sheet and how its values are cleaned
+ */
+export interface ColumnMappingRule {
+  /** Column type; declaring it on a column that is not a core rule column adds that column to the table */
+  type?: ColumnType;
+  /** Header names matched exactly, ignoring case, accents and space/underscore/hyphen differences */
+  headers?: string[];
+  /** Regular expressions (case-insensitive) tried against the header when no exact name matches */
+  patterns?: string[];
+  /** Column used when no header matches: 0-based number or spreadsheet letter ("C") */
+  index?: number | string;
+  /** Value used when the column is missing or the cell is empty */
+  default?: string;
+  /** Whether --strict-headers refuses sheets without this column (default: true unless a default is set) */
+  required?: boolean;
+  transforms?: ColumnTransform[];
+}
+
+export interface MappingProfile {
+  name: string;
+  description?: string;
+  /** Profile whose column rules apply to every column this profile does not define */
+  extends?: string;
+  /** Vocabulary mapping requirement levels, types and roles to canonical values (inherited; default when unset) */
+  vocabulary?: string;
+  /** Core rule columns and table-specific columns, keyed by table column name */
+  columns: Partial<Record<RuleColumn, ColumnMappingRule>> & Record<string, ColumnMappingRule>;
+}
+
+export type ColumnMatchType = 'header' | 'pattern' | 'index';
+
+/**
+ * How a rule column was matched in one sheet
+ */
+export interface ColumnMatch {
+  column: string;
+  /** Matched sheet header (null when the column is missing) */
+  header: string | null;
+  index: number | null;
+  matchedBy: ColumnMatchType | null;
+  required: boolean;
+  /** Every header the column's names and patterns match (more than one is ambiguous) */
+  candidates: string[];
+}
+
+/**
+ * Result of mapping one sheet's headers with a profile
+ */
+export interface ColumnMappingReport {
+  sourceName: string;
+  sheetName: string;
+  profile: string;
+  columns: ColumnMatch[];
+  /** Sheet headers not mapped to any column */
+  unusedHeaders: string[];
+  /** Problems that make --strict-headers refuse the sheet */
+  problems: string[];
+}
+
+export const DEFAULT_MAPPING_PROFILE_NAME = 'default';
+
+/**
+ * Built-in profile used when a configuration entry names no profile
+ */
+export const DEFAULT_MAPPING_PROFILE: MappingProfile = {
+  name: DEFAULT_MAPPING_PROFILE_NAME,
+  description: 'Rule sheet headers used by the marketplace spreadsheets',
+  columns: {
+    'code': { headers: ['code', 'codigo', 'id'] },
+    'description': { headers: ['description', 'descricao', 'desc'] },
+    'label': { headers: ['label', 'nome', 'name'] },
+    'requirement_level': { headers: ['requirement_level', 'nivel_requisito', 'required'] },
+    'roles': { headers: ['roles', 'papeis', 'functions'] },
+    'type': { headers: ['type', 'tipo', 'category'] },
+    'validations': { headers: ['validations', 'validacoes', 'rules'] },
+    'variant': { headers: ['variant', 'variante', 'version'] },
+    'codigo-categoria-mirakl': { headers: ['codigo-categoria-mirakl', 'mirakl_category_code'] },
+    'nome-categoria-mirakl': { headers: ['nome-categoria-mirakl', 'mirakl_category_name'] },
+    'parent_code-categoria-mirakl': { headers: ['parent_code-categoria-mirakl', 'parent_mirakl_code'] },
+  },
+};
+
+const NAMED_TRANSFORMS = ['trim', 'uppercase', 'lowercase', 'collapse_whitespace', 'boolean'];
+
+/** Table-specific column names: lowercase, usable as unquoted-looking identifiers, within the PostgreSQL limit */
+const EXTRA_COLUMN_NAME = /^[a-z][a-z0-9_-]{0,62}$/;
+
+/**
+ * Normalizes a header for exact matching: lowercase, no accents, spaces/underscores/hyphens collapsed
+ * @param header - Header text
+ * @returns Normalized header
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_-]+/g, '_');
+}
+
+/**
+ * Finds the header a column rule matches: exact names first, then patterns.
+ * Headers already claimed by another column are not reused.
+ * @param rule - Column rule
+ * @param headers - Sheet headers
+ * @param claimed - Indexes already mapped to other columns
+ * @returns Header index, or -1 when no header matches
+ */
+export function findHeaderIndex(rule: ColumnMappingRule, headers: string[], claimed: Set<number> = new Set()): number {
+  const normalized = headers.map(header => normalizeHeader(header));
+
+  for (const name of rule.headers || []) {
+    const target = normalizeHeader(name);
+    const index = normalized.findIndex((header, i) => header === target && !claimed.has(i));
+    if (index !== -1) return index;
+  }
+
+  for (const pattern of rule.patterns || []) {
+    const regex = new RegExp(pattern, 'i');
+    const index = headers.findIndex((header, i) => regex.test(header.trim()) && !claimed.has(i));
+    if (index !== -1) return index;
+  }
+
+  return -1;
+}
+
+/**
+ * Lists every header a column rule's names or patterns match, ignoring claims by other columns
+ * @param rule - Column rule
+ * @param headers - Sheet headers
+ * @returns Matching header indexes in sheet order
+ */
+export function findHeaderCandidates(rule: ColumnMappingRule, headers: string[]): number[] {
+  const names = (rule.headers || []).map(name => normalizeHeader(name));
+  const patterns = (rule.patterns || []).map(pattern => new RegExp(pattern, 'i'));
+
+  return headers
+    .map((header, index) => ({ header, index }))
+    .filter(({ header }) =>
+      header.trim() !== '' &&
+      (names.includes(normalizeHeader(header)) || patterns.some(regex => regex.test(header.trim())))
+    )
+    .map(({ index }) => index);
+}
+
+/**
+ * Checks whether --strict-headers requires a column to be present
+ * @param rule - Column rule
+ * @returns True unless the rule says otherwise or provides a default
+ */
+export function isRequiredColumn(rule: ColumnMappingRule): boolean {
+  return rule.required ?? rule.default === undefined;
+}
+
+/**
+ * Maps a sheet's headers to rule columns and describes how each was matched.
+ * Names are tried first, then patterns; index fallbacks are only applied once every column had its
+ * chance to match by header. A header is used by one column at most, so a fallback pointing at a
+ * header another column already took, or past the last header, leaves its column unmapped and is
+ * reported as a problem.
+ * @param headers - Sheet headers
+ * @param profile - Column mapping profile
+ * @param sheetName - Sheet name
+ * @param sourceName - Source name
+ * @returns Mapping report
+ */
+export function buildColumnMapping(
+  headers: string[],
+  profile: MappingProfile,
+  sheetName: string,
+  sourceName: string
+): ColumnMappingReport {
+  const claimed = new Map<number, string>();
+  const columns: ColumnMatch[] = [];
+  const fallbackProblems: string[] = [];
+
+  for (const [column, rule] of Object.entries(profile.columns)) {
+    const taken = new Set(claimed.keys());
+    let index = findHeaderIndex({ headers: rule.headers }, headers, taken);
+    let matchedBy: ColumnMatchType | null = index !== -1 ? 'header' : null;
+
+    if (index === -1) {
+      index = findHeaderIndex({ patterns: rule.patterns }, headers, taken);
+      matchedBy = index !== -1 ? 'pattern' : null;
+    }
+
+    if (index !== -1) {
+      claimed.set(index, column);
+    }
+
+    columns.push({
+      column,
+      header: index !== -1 ? (headers[index] ?? null) : null,
+      index: index !== -1 ? index : null,
+      matchedBy,
+      required: isRequiredColumn(rule),
+      candidates: findHeaderCandidates(rule, headers).map(candidate => headers[candidate]),
+    });
+  }
+
+  for (const match of columns) {
+    const index = match.matchedBy === null ? getFallbackIndex(profile.columns[match.column]) : undefined;
+    if (index === undefined) continue;
+
+    if (index >= headers.length) {
+      fallbackProblems.push(`Column '${match.column}' falls back to column ${index + 1}, but the sheet has ${headers.length} columns`);
+    } else if (claimed.has(index)) {
+      fallbackProblems.push(`Column '${match.column}' falls back to column ${index + 1}, which is already mapped to '${claimed.get(index)}'`);
+    } else {
+      claimed.set(index, match.column);
+      match.header = headers[index];
+      match.index = index;
+      match.matchedBy = 'index';
+    }
+  }
+
+  const unusedHeaders = headers.filter((header, index) => header.trim() !== '' && !claimed.has(index));
+
+  return {
+    sourceName,
+    sheetName,
+    profile: profile.name,
+    columns,
+    unusedHeaders,
+    problems: [...findMappingProblems(columns), ...fallbackProblems],
+  };
+}
+
+/**
+ * Finds missing required columns, columns matching several headers and headers matching several columns
+ * @param columns - Column matches
+ * @returns Problem descriptions
+ */
+function findMappingProblems(columns: ColumnMatch[]): string[] {
+  const problems: string[] = [];
+  const columnsByHeader = new Map<string, string[]>();
+
+  for (const match of columns) {
+    if (match.required && match.matchedBy === null) {
+      problems.push(`Required column '${match.column}' is missing`);
+    }
+
+    if (match.candidates.length > 1) {
+      problems.push(`Column '${match.column}' is matched by ${match.candidates.length} headers: ${match.candidates.join(', ')}`);
+    }
+
+    for (const header of new Set(match.candidates)) {
+      columnsByHeader.set(header, [...(columnsByHeader.get(header) || []), match.column]);
+    }
+  }
+
+  for (const [header, matchedColumns] of columnsByHeader) {
+    if (matchedColumns.length > 1) {
+      problems.push(`Header '${header}' is ambiguous: it matches ${matchedColumns.join(', ')}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Resolves the index fallback of a column rule
+ * @param rule - Column rule
+ * @returns 0-based column index, or undefined when the rule has no fallback
+ */
+export function getFallbackIndex(rule: ColumnMappingRule): number | undefined {
+  if (rule.index === undefined || rule.index === null) return undefined;
+  return typeof rule.index === 'number' ? rule.index : XLSX.utils.decode_col(rule.index.toUpperCase());
+}
+
+/**
+ * Applies a column rule's transforms and default to a cell value
+ * @param value - Cell text ('' when empty or the column is missing)
+ * @param rule - Column rule
+ * @returns Final value
+ */
+export function applyColumnRule(value: string, rule: ColumnMappingRule | undefined): string {
+  if (!rule) return value;
+
+  let result = value;
+  for (const transform of rule.transforms || []) {
+    result = applyTransform(result, transform);
+  }
+
+  return result === '' && rule.default !== undefined ? rule.default : result;
+}
+
+/**
+ * Applies a single transform
+ * @param value - Current value
+ * @param transform - Transform
+ * @returns Transformed value
+ */
+function applyTransform(value: string, transform: ColumnTransform): string {
+  if (typeof transform === 'object' && 'replace' in transform) {
+    const { pattern, flags, with: replacement } = transform.replace;
+    return value.replace(new RegExp(pattern, flags ?? 'g'), replacement);
+  }
+
+  if (typeof transform === 'object' && 'map' in transform) {
+    return Object.prototype.hasOwnProperty.call(transform.map, value) ? transform.map[value] : value;
+  }
+
+  switch (transform) {
+    case 'trim':
+      return value.trim();
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'collapse_whitespace':
+      return value.replace(/\s+/g, ' ').trim();
+    case 'boolean':
+      return parseBooleanValue(value) ?? value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Derives the table schema a profile declares: the core rule columns plus every typed extra column
+ * @param profile - Resolved mapping profile
+ * @returns Table schema
+ */
+export function getTableSchema(profile: MappingProfile): TableSchema {
+  const extraColumns: ColumnDefinition[] = Object.entries(profile.columns)
+    .filter(([column]) => !isCoreColumn(column))
+    .map(([column, rule]) => ({ name: column, type: rule.type || 'text' }));
+
+  return createTableSchema(extraColumns);
+}
+
+/**
+ * Checks whether a column is one of the core rule columns every table has
+ * @param column - Column name
+ * @returns True for core rule columns
+ */
+function isCoreColumn(column: string): boolean {
+  return (RULE_TABLE_COLUMNS as readonly string[]).includes(column);
+}
+
+/**
+ * Checks a profile for unknown columns and types, invalid patterns and unknown transforms
+ * @param profile - Profile to check
+ * @returns Problems found (empty when valid)
+ */
+export function validateMappingProfile(profile: MappingProfile): string[] {
+  const problems: string[] = [];
+
+  if (!profile || typeof profile.columns !== 'object' || profile.columns === null) {
+    return ['Profile must have a "columns" object'];
+  }
+
+  if (profile.vocabulary !== undefined && (typeof profile.vocabulary !== 'string' || profile.vocabulary === '')) {
+    problems.push('"vocabulary" must be a vocabulary name');
+  }
+
+  for (const [column, rule] of Object.entries(profile.columns)) {
+    if (rule.type !== undefined && !Object.prototype.hasOwnProperty.call(COLUMN_SQL_TYPES, rule.type)) {
+      problems.push(`Column '${column}': unknown type '${rule.type}' (use ${Object.keys(COLUMN_SQL_TYPES).join(', ')})`);
+      continue;
+    }
+
+    if (isCoreColumn(column)) {
+      if (rule.type !== undefined && rule.type !== 'text') {
+        problems.push(`Column '${column}': core rule columns are always text`);
+      }
+    } else if (rule.type === undefined) {
+      // Requiring a type keeps a misspelt core column from silently becoming a new table column
+      problems.push(`Unknown column '${column}' (declare a "type" to add it to the table)`);
+      continue;
+    } else if (!EXTRA_COLUMN_NAME.test(column) || [...SYSTEM_COLUMNS, ...DERIVED_COLUMNS].includes(column)) {
+      problems.push(`Column '${column}': invalid table column name`);
+      continue;
+    }
+
+    for (const pattern of rule.patterns || []) {
+      try {
+        new RegExp(pattern, 'i');
+      } catch (error: any) {
+        problems.push(`Column '${column}': invalid pattern ${pattern} (${error.message})`);
+      }
+    }
+
+    if (typeof rule.index === 'string' && !/^[A-Za-z]{1,3}$/.test(rule.index)) {
+      problems.push(`Column '${column}': index must be a number or a column letter, got '${rule.index}'`);
+    }
+
+    for (const transform of rule.transforms || []) {
+      if (typeof transform === 'string') {
+        if (!NAMED_TRANSFORMS.includes(transform)) {
+          problems.push(`Column '${column}': unknown transform '${transform}'`);
+        }
+      } else if ('replace' in transform) {
+        try {
+          new RegExp(transform.replace.pattern, transform.replace.flags ?? 'g');
+        } catch (error: any) {
+          problems.push(`Column '${column}': invalid replace pattern (${error.message})`);
+        }
+      } else if (!('map' in transform)) {
+        problems.push(`Column '${column}': unknown transform ${JSON.stringify(transform)}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Loads mapping profiles from <MAPPING_PROFILES_DIR>/<name>.json
+ */
+export class MappingProfileLoader {
+  private directory: string;
+  private cache: Map<string, MappingProfile> = new Map();
+
+  constructor(directory: string = appConfig.migration.mappingProfilesDir) {
+    this.directory = directory;
+  }
+
+  /**
+   * Loads a profile by name, resolving "extends"
+   * @param name - Profile name (empty for the built-in default)
+   * @returns Resolved profile
+   */
+  async load(name?: string | null): Promise<MappingProfile> {
+    return this.resolve(name || DEFAULT_MAPPING_PROFILE_NAME, []);
+  }
+
+  /**
+   * Lists the profile files available in the profiles directory
+   * @returns Profile names
+   */
+  async listProfiles(): Promise<string[]> {
+    const fs = await import('fs');
+    if (!fs.existsSync(this.directory)) return [];
+    return fs.readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.replace(/\.json$/, ''))
+      .sort();
+  }
+
+  /**
+   * Loads a profile and merges it over the profile it extends
+   * @param name - Profile name
+   * @param chain - Names already being resolved (cycle detection)
+   * @returns Resolved profile
+   */
+  private async resolve(name: string, chain: string[]): Promise<MappingProfile> {
+    if (name === DEFAULT_MAPPING_PROFILE_NAME) {
+      return DEFAULT_MAPPING_PROFILE;
+    }
+
+    const cached = this.cache.get(name);
+    if (cached) return cached;
+
+    if (chain.includes(name)) {
+      throw new Error(`Mapping profile '${name}' extends itself (${[...chain, name].join(' -> ')})`);
+    }
+
+    const profile = await this.readProfile(name);
+    const problems = validateMappingProfile(profile);
+    if (problems.length > 0) {
+      throw new Error(`Invalid mapping profile '${name}': ${problems.join('; ')}`);
+    }
+
+    const parent = profile.extends ? await this.resolve(profile.extends, [...chain, name]) : null;
+    const resolved: MappingProfile = parent
+      ? {
+        ...profile,
+        vocabulary: profile.vocabulary ?? parent.vocabulary,
+        columns: { ...parent.columns, ...profile.columns },
+      }
+      : profile;
+
+    Logger.debug('Mapping profile loaded', {
+      name,
+      extends: profile.extends,
+      vocabulary: resolved.vocabulary,
+      columns: Object.keys(resolved.columns).length,
+    });
+
+    this.cache.set(name, resolved);
+    return resolved;
+  }
+
+  /**
+   * Reads a profile file
+   * @param name - Profile name
+   * @returns Parsed profile (name taken from the file name)
+   */
+  private async readProfile(name: string): Promise<MappingProfile> {
+    const fs = await import('fs');
+    const path = await import('path');
+
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`Invalid mapping profile name: ${name}`);
+    }
+
+    const filePath = path.resolve(this.directory, `${name}.json`);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Mapping profile '${name}' not found (expected ${filePath})`);
+    }
+
+    try {
+      return { ...JSON.parse(fs.readFileSync(filePath, 'utf8')), name };
+    } catch (error: any) {
+      throw new Error(`Failed to read mapping profile '${name}': ${error.message}`);
+    }
+  }
+}
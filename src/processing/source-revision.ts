@@ -0,0 +1,30 @@
+import { createHash } from 'crypto';
+import { ParsedSheet } from './xlsx-parser';
+
+/**
+ * Computes the revision of a table's source from its parsed sheets: sheet names, header mappings, rows and
+ * value lists. Parsed contents are hashed rather than file bytes, because re-exported workbooks differ in
+ * metadata (zip timestamps, export dates) even when no cell changed. Rows are read again from the sheets,
+ * leaving their records to the migration.
+ * @param sheets - Parsed sheets in read order
+ * @returns SHA-256 hex digest
+ */
+export function getSourceRevision(sheets: ParsedSheet[]): string {
+  const hash = createHash('sha256');
+
+  for (const sheet of sheets) {
+    hash.update(`sheet\u0000${sheet.sheetName}\u0000`);
+    if (sheet.mapping) {
+      hash.update(JSON.stringify(sheet.mapping.columns));
+    }
+    for (const row of sheet.sourceRows()) {
+      hash.update(JSON.stringify(row));
+      hash.update('\n');
+    }
+    if (sheet.valueLists) {
+      hash.update(JSON.stringify(sheet.valueLists));
+    }
+  }
+
+  return hash.digest('hex');
+}
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseValidations } from './validation-parser';
+
+describe('parseValidations', () => {
+  it('returns no rules for an empty cell', () => {
+    assert.deepEqual(parseValidations(''), { rules: null, errors: [] });
+    assert.deepEqual(parseValidations('  '), { rules: null, errors: [] });
+    assert.deepEqual(parseValidations(null), { rules: null, errors: [] });
+  });
+
+  it('parses keywords and their aliases into typed constraints', () => {
+    const result = parseValidations('max_length|255, MIN|0,5, DECIMALS|2, LIST|S;M;L');
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.rules, { max_length: 255, min_value: 0.5, decimal_precision: 2, values: ['S', 'M', 'L'] });
+  });
+
+  it('keeps commas that are not followed by a keyword inside the pattern', () => {
+    const result = parseValidations('PATTERN|^[0-9]{1,3}(,[0-9]{3})*$,MAX_LENGTH|20');
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.rules, { pattern: '^[0-9]{1,3}(,[0-9]{3})*$', max_length: 20 });
+  });
+
+  it('keeps the first value of a constraint given more than once', () => {
+    const result = parseValidations('MAX_LENGTH|10,MAX_LENGTH|20,MAX|5,MAX_VALUE|9');
+
+    assert.deepEqual(result.rules, { max_length: 10, max_value: 5 });
+    assert.deepEqual(result.errors, ['MAX_LENGTH is given more than once', 'MAX_VALUE is given more than once']);
+  });
+
+  it('reports a minimum above the maximum', () => {
+    const result = parseValidations('MIN_LENGTH|10,MAX_LENGTH|5,MIN_VALUE|3,MAX_VALUE|-1');
+
+    assert.deepEqual(result.rules, { min_length: 10, max_length: 5, min_value: 3, max_value: -1 });
+    assert.deepEqual(result.errors, [
+      'Minimum length 10 is greater than maximum length 5',
+      'Minimum value 3 is greater than maximum value -1',
+    ]);
+  });
+
+  it('reports malformed expressions and keeps the ones that parse', () => {
+    const result = parseValidations('MAX_LENGTH|abc,MIN_VALUE|1e3,PATTERN|[a-,DECIMALS|,VALUES|;;');
+
+    assert.equal(result.rules, null);
+    assert.equal(result.errors.length, 5);
+    assert.equal(result.errors[0], "MAX_LENGTH must be a whole number, got 'abc'");
+    assert.equal(result.errors[1], "MIN_VALUE must be a number, got '1e3'");
+    assert.match(result.errors[2], /^PATTERN is not a valid regular expression/);
+    assert.equal(result.errors[3], 'DECIMALS has no value');
+    assert.equal(result.errors[4], 'VALUES lists no values');
+  });
+
+  it('reports unknown keywords and text without a separator', () => {
+    const result = parseValidations('REQUIRED');
+
+    assert.deepEqual(result, { rules: null, errors: ["'REQUIRED' is not a KEYWORD|value expression"] });
+    assert.deepEqual(parseValidations('UNIQUE|true,MAX_LENGTH|3').errors, ["Unknown validation 'UNIQUE'"]);
+  });
+});
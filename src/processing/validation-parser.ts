@@ -0,0 +1,130 @@
+import { ValidationRules } from '../database/schema';
+
+type ValidationKind = 'length' | 'value' | 'pattern' | 'precision' | 'values';
+
+/**
+ * Mirakl validation keywords (and the aliases found in marketplace sheets) with the constraint they set
+ */
+const VALIDATION_KEYWORDS: Record<string, { rule: keyof ValidationRules; kind: ValidationKind }> = {
+  MIN_LENGTH: { rule: 'min_length', kind: 'length' },
+  MAX_LENGTH: { rule: 'max_length', kind: 'length' },
+  MIN_VALUE: { rule: 'min_value', kind: 'value' },
+  MIN: { rule: 'min_value', kind: 'value' },
+  MAX_VALUE: { rule: 'max_value', kind: 'value' },
+  MAX: { rule: 'max_value', kind: 'value' },
+  PATTERN: { rule: 'pattern', kind: 'pattern' },
+  REGEX: { rule: 'pattern', kind: 'pattern' },
+  REGEXP: { rule: 'pattern', kind: 'pattern' },
+  DECIMAL_PRECISION: { rule: 'decimal_precision', kind: 'precision' },
+  DECIMALS: { rule: 'decimal_precision', kind: 'precision' },
+  LIST_OF_VALUES: { rule: 'values', kind: 'values' },
+  VALUES: { rule: 'values', kind: 'values' },
+  LIST: { rule: 'values', kind: 'values' },
+};
+
+/** Splits between expressions: a comma followed by a known KEYWORD| (commas inside patterns are kept) */
+const EXPRESSION_SEPARATOR = new RegExp(`,(?=\\s*(?:${Object.keys(VALIDATION_KEYWORDS).join('|')})\\s*\\|)`, 'i');
+
+export interface ValidationParseResult {
+  /** Constraints that parsed (null when the text is empty or nothing in it could be parsed) */
+  rules: ValidationRules | null;
+  /** One message per malformed expression */
+  errors: string[];
+}
+
+/**
+ * Parses a validations cell such as "MAX_LENGTH|255,PATTERN|^[0-9]+$" into typed constraints.
+ * Expressions are split on commas followed by a known KEYWORD|, so commas inside patterns ("{1,3}") are kept.
+ * @param text - Validations text
+ * @returns Parsed constraints and the problems found
+ */
+export function parseValidations(text: string | null | undefined): ValidationParseResult {
+  const rules: ValidationRules = {};
+  const errors: string[] = [];
+
+  if (!text || text.trim() === '') {
+    return { rules: null, errors };
+  }
+
+  for (const expression of text.split(EXPRESSION_SEPARATOR)) {
+    const separator = expression.indexOf('|');
+    if (separator === -1) {
+      errors.push(`'${expression.trim()}' is not a KEYWORD|value expression`);
+      continue;
+    }
+
+    const keyword = expression.slice(0, separator).trim().toUpperCase();
+    const value = expression.slice(separator + 1).trim();
+    const definition = VALIDATION_KEYWORDS[keyword];
+
+    if (!definition) {
+      errors.push(`Unknown validation '${keyword}'`);
+      continue;
+    }
+    if (value === '') {
+      errors.push(`${keyword} has no value`);
+      continue;
+    }
+    if (rules[definition.rule] !== undefined) {
+      errors.push(`${keyword} is given more than once`);
+      continue;
+    }
+
+    try {
+      (rules as Record<string, unknown>)[definition.rule] = parseValidationValue(keyword, value, definition.kind);
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+
+  if (rules.min_length !== undefined && rules.max_length !== undefined && rules.min_length > rules.max_length) {
+    errors.push(`Minimum length ${rules.min_length} is greater than maximum length ${rules.max_length}`);
+  }
+  if (rules.min_value !== undefined && rules.max_value !== undefined && rules.min_value > rules.max_value) {
+    errors.push(`Minimum value ${rules.min_value} is greater than maximum value ${rules.max_value}`);
+  }
+
+  return { rules: Object.keys(rules).length > 0 ? rules : null, errors };
+}
+
+/**
+ * Converts the value of one expression
+ * @param keyword - Validation keyword (for messages)
+ * @param value - Text after the |
+ * @param kind - Kind of value the keyword takes
+ * @returns Typed value
+ */
+function parseValidationValue(keyword: string, value: string, kind: ValidationKind): number | string | string[] {
+  switch (kind) {
+    case 'length':
+    case 'precision':
+      if (!/^\d+$/.test(value)) {
+        throw new Error(`${keyword} must be a whole number, got '${value}'`);
+      }
+      return parseInt(value, 10);
+
+    case 'value': {
+      const number = Number(value.replace(',', '.'));
+      if (!/^[+-]?(\d+([.,]\d*)?|[.,]\d+)$/.test(value) || !isFinite(number)) {
+        throw new Error(`${keyword} must be a number, got '${value}'`);
+      }
+      return number;
+    }
+
+    case 'pattern':
+      try {
+        new RegExp(value);
+      } catch (error: any) {
+        throw new Error(`${keyword} is not a valid regular expression: ${error.message}`);
+      }
+      return value;
+
+    case 'values': {
+      const values = value.split(/[;|,]/).map(item => item.trim()).filter(item => item !== '');
+      if (values.length === 0) {
+        throw new Error(`${keyword} lists no values`);
+      }
+      return values;
+    }
+  }
+}
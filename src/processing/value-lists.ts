@@ -0,0 +1,157 @@
+import { RuleRecord } from '../database/schema';
+import { ColumnMappingRule, findHeaderIndex, normalizeHeader } from './mapping-profile';
+
+/**
+ * One allowed value of a value list
+ */
+export interface ListValue {
+  code: string;
+  label: string;
+}
+
+/**
+ * A value list (the allowed values of LIST attributes)
+ */
+export interface ValueList {
+  code: string;
+  label: string;
+  values: ListValue[];
+}
+
+/**
+ * Attribute types whose values come from a value list
+ */
+export const LIST_TYPES = ['LIST', 'LIST_MULTIPLE_VALUES'];
+
+type ValueListColumn = 'list_code' | 'list_label' | 'value_code' | 'value_label';
+
+/**
+ * Headers of value-list tabs (Mirakl value list exports and their translations)
+ */
+const VALUE_LIST_COLUMNS: Record<ValueListColumn, ColumnMappingRule> = {
+  list_code: { headers: ['list-code', 'value-list-code', 'values-list-code', 'value-list', 'values-list', 'codigo-lista', 'code-liste'] },
+  list_label: { headers: ['list-label', 'value-list-label', 'values-list-label', 'nome-lista', 'libelle-liste'] },
+  value_code: { headers: ['value-code', 'codigo-valor', 'code-valeur', 'value'] },
+  value_label: { headers: ['value-label', 'nome-valor', 'libelle-valeur', 'label'] },
+};
+
+/** Extras keys (sheet headers or API fields, compared like headers) that name the value list of an attribute */
+const LIST_REFERENCE_KEYS = ['list-code', 'value-list', 'values-list', 'value-list-code'].map(key => normalizeHeader(key));
+
+/**
+ * Finds the value-list columns of a header row
+ * @param headers - Sheet headers
+ * @returns Column indexes, or null when the sheet is not a value-list tab (list and value codes are required)
+ */
+export function findValueListColumns(headers: string[]): Record<ValueListColumn, number> | null {
+  const claimed = new Set<number>();
+  const indexes = {} as Record<ValueListColumn, number>;
+
+  for (const column of Object.keys(VALUE_LIST_COLUMNS) as ValueListColumn[]) {
+    indexes[column] = findHeaderIndex(VALUE_LIST_COLUMNS[column], headers, claimed);
+    if (indexes[column] !== -1) {
+      claimed.add(indexes[column]);
+    }
+  }
+
+  return indexes.list_code !== -1 && indexes.value_code !== -1 ? indexes : null;
+}
+
+/**
+ * Groups the rows of a value-list tab into lists, keeping the order of first appearance
+ * @param rows - Data rows as text (header row excluded)
+ * @param columns - Column indexes from findValueListColumns
+ * @param firstRowNumber - Sheet row number of the first data row
+ * @returns Lists and one message per row that could not be used
+ */
+export function groupValueListRows(
+  rows: string[][],
+  columns: Record<ValueListColumn, number>,
+  firstRowNumber: number = 2
+): { lists: ValueList[]; errors: string[] } {
+  const lists = new Map<string, ValueList>();
+  const errors: string[] = [];
+  const cell = (row: string[], column: ValueListColumn) => (columns[column] !== -1 ? row[columns[column]] || '' : '');
+
+  rows.forEach((row, index) => {
+    const rowNumber = firstRowNumber + index;
+    const listCode = cell(row, 'list_code');
+    const valueCode = cell(row, 'value_code');
+
+    if (listCode === '' && valueCode === '') return;
+    if (listCode === '' || valueCode === '') {
+      errors.push(`Row ${rowNumber}: missing ${listCode === '' ? 'list' : 'value'} code`);
+      return;
+    }
+
+    const list = lists.get(listCode) || lists.set(listCode, { code: listCode, label: '', values: [] }).get(listCode)!;
+    list.label = list.label || cell(row, 'list_label');
+
+    if (list.values.some(value => value.code === valueCode)) {
+      errors.push(`Row ${rowNumber}: value '${valueCode}' is listed twice in ${listCode}`);
+      return;
+    }
+    list.values.push({ code: valueCode, label: cell(row, 'value_label') });
+  });
+
+  return { lists: [...lists.values()], errors };
+}
+
+/**
+ * Combines lists read from several tabs or documents; values of a list split across tabs are concatenated
+ * @param lists - Lists in read order
+ * @returns One list per code
+ */
+export function mergeValueLists(lists: ValueList[]): ValueList[] {
+  const merged = new Map<string, ValueList>();
+
+  for (const list of lists) {
+    const existing = merged.get(list.code);
+    if (!existing) {
+      merged.set(list.code, { ...list, values: [...list.values] });
+      continue;
+    }
+
+    existing.label = existing.label || list.label;
+    const known = new Set(existing.values.map(value => value.code));
+    existing.values.push(...list.values.filter(value => !known.has(value.code)));
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Gets the code of the value list a LIST attribute takes its values from:
+ * a LIST_CODE type parameter, a list-code column kept in extras, a single LIST_OF_VALUES entry,
+ * and otherwise the attribute code itself
+ * @param record - Rule record (or row read back from a rule table)
+ * @returns Value list code
+ */
+export function getValueListCode(record: Partial<RuleRecord>): string {
+  const extras = record.extras || {};
+
+  if (extras.type_parameters) {
+    try {
+      const parameters = JSON.parse(extras.type_parameters);
+      const listCode = Array.isArray(parameters)
+        ? parameters.find((parameter: any) => String(parameter?.name).toUpperCase() === 'LIST_CODE')?.value
+        : undefined;
+      if (listCode) return String(listCode);
+    } catch (error) {
+      // Not JSON: fall through to the other references
+    }
+  }
+
+  for (const [key, value] of Object.entries(extras)) {
+    if (LIST_REFERENCE_KEYS.includes(normalizeHeader(key)) && value.trim() !== '') {
+      return value.trim();
+    }
+  }
+
+  const values = record.validations_parsed?.values;
+  if (values && values.length === 1) {
+    return values[0];
+  }
+
+  return record.code || '';
+}
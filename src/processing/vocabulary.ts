@@ -0,0 +1,308 @@
+import { Logger } from '../utils/logger';
+import { appConfig } from '../config/environment';
+import { normalizeHeader } from './mapping-profile';
+
+/**
+ * Canonical requirement levels
+ */
+export const REQUIREMENT_LEVELS = ['REQUIRED', 'RECOMMENDED', 'OPTIONAL'] as const;
+
+/**
+ * Canonical attribute types (the Mirakl attribute types)
+ */
+export const ATTRIBUTE_TYPES = [
+  'TEXT',
+  'LONG_TEXT',
+  'INTEGER',
+  'DECIMAL',
+  'DATE',
+  'BOOLEAN',
+  'LIST',
+  'LIST_MULTIPLE_VALUES',
+  'MEDIA',
+  'LINK',
+] as const;
+
+/**
+ * Canonical attribute roles (the Mirakl attribute roles)
+ */
+export const ATTRIBUTE_ROLES = [
+  'UNIQUE_IDENTIFIER',
+  'SHOP_SKU',
+  'TITLE',
+  'DESCRIPTION',
+  'SHORT_DESCRIPTION',
+  'BRAND',
+  'CATEGORY',
+  'MAIN_IMAGE',
+  'IMAGE',
+  'VARIANT_GROUP_CODE',
+] as const;
+
+/**
+ * Rule columns whose values are mapped to canonical values by a vocabulary
+ */
+export type VocabularyField = 'requirement_level' | 'type' | 'roles';
+
+const CANONICAL_VALUES: Record<VocabularyField, readonly string[]> = {
+  requirement_level: REQUIREMENT_LEVELS,
+  type: ATTRIBUTE_TYPES,
+  roles: ATTRIBUTE_ROLES,
+};
+
+/**
+ * Terms a locale or marketplace uses for the canonical values, per field
+ */
+export interface Vocabulary {
+  name: string;
+  description?: string;
+  /** Vocabulary whose terms are added to this vocabulary's terms */
+  extends?: string;
+  /** Canonical value -> terms that mean it (canonical values always match themselves) */
+  requirement_level?: Record<string, string[]>;
+  type?: Record<string, string[]>;
+  roles?: Record<string, string[]>;
+}
+
+export const DEFAULT_VOCABULARY_NAME = 'default';
+
+/**
+ * Built-in vocabulary with the English and Portuguese terms, used when a profile names no vocabulary
+ */
+export const DEFAULT_VOCABULARY: Vocabulary = {
+  name: DEFAULT_VOCABULARY_NAME,
+  description: 'English and Portuguese terms',
+  requirement_level: {
+    REQUIRED: ['required', 'mandatory', 'obrigatorio'],
+    RECOMMENDED: ['recommended', 'recomendado'],
+    OPTIONAL: ['optional', 'opcional', 'facultativo'],
+  },
+  type: {
+    TEXT: ['text', 'string', 'texto'],
+    LONG_TEXT: ['long text', 'texto longo'],
+    INTEGER: ['integer', 'int', 'inteiro'],
+    DECIMAL: ['decimal', 'number', 'numeric', 'numero'],
+    DATE: ['date', 'data'],
+    BOOLEAN: ['boolean', 'bool', 'booleano'],
+    LIST: ['list', 'lista', 'lista de valores'],
+    LIST_MULTIPLE_VALUES: ['multiple list', 'lista de valores multiplos'],
+    MEDIA: ['media', 'image', 'imagem'],
+    LINK: ['link', 'url', 'ligacao'],
+  },
+  roles: {
+    UNIQUE_IDENTIFIER: ['ean', 'gtin', 'identificador unico'],
+    SHOP_SKU: ['sku'],
+    TITLE: ['titulo'],
+    DESCRIPTION: ['descricao'],
+    SHORT_DESCRIPTION: ['descricao curta'],
+    BRAND: ['marca'],
+    CATEGORY: ['categoria'],
+    MAIN_IMAGE: ['imagem principal'],
+    IMAGE: ['imagem'],
+  },
+};
+
+/** Term lookups built once per resolved vocabulary */
+const termIndexes = new WeakMap<Vocabulary, Record<VocabularyField, Map<string, string>>>();
+
+/**
+ * Maps a raw term to its canonical value. Terms match ignoring case, accents and space/underscore/hyphen differences.
+ * @param vocabulary - Resolved vocabulary
+ * @param field - Field the term belongs to
+ * @param value - Raw term
+ * @returns Canonical value, or null when the vocabulary does not know the term
+ */
+export function resolveTerm(vocabulary: Vocabulary, field: VocabularyField, value: string): string | null {
+  let index = termIndexes.get(vocabulary);
+  if (!index) {
+    index = buildTermIndex(vocabulary);
+    termIndexes.set(vocabulary, index);
+  }
+
+  return index[field].get(normalizeHeader(value)) ?? null;
+}
+
+/**
+ * Builds the normalized term -> canonical value lookups of a vocabulary
+ * @param vocabulary - Resolved vocabulary
+ * @returns Lookup per field
+ */
+function buildTermIndex(vocabulary: Vocabulary): Record<VocabularyField, Map<string, string>> {
+  const index = {} as Record<VocabularyField, Map<string, string>>;
+
+  for (const field of Object.keys(CANONICAL_VALUES) as VocabularyField[]) {
+    const terms = new Map<string, string>();
+    for (const canonical of CANONICAL_VALUES[field]) {
+      terms.set(normalizeHeader(canonical), canonical);
+    }
+    for (const [canonical, aliases] of Object.entries(vocabulary[field] || {})) {
+      for (const alias of aliases) {
+        terms.set(normalizeHeader(alias), canonical);
+      }
+    }
+    index[field] = terms;
+  }
+
+  return index;
+}
+
+/**
+ * Splits a roles cell into its roles: "[TITLE, BRAND]", "TITLE,BRAND", "TITLE; BRAND" and quoted JSON arrays
+ * @param text - Roles text
+ * @returns Role terms in cell order (empty when the cell is empty)
+ */
+export function splitRoles(text: string | null | undefined): string[] {
+  const trimmed = (text || '').trim().replace(/^\[(.*)\]$/s, '$1');
+
+  return trimmed
+    .split(/[,;|]/)
+    .map(role => role.trim().replace(/^["']|["']$/g, '').trim())
+    .filter(role => role !== '');
+}
+
+/**
+ * Checks a vocabulary for unknown fields, unknown canonical values and terms claimed by two canonical values
+ * @param vocabulary - Vocabulary to check
+ * @returns Problems found (empty when valid)
+ */
+export function validateVocabulary(vocabulary: Vocabulary): string[] {
+  const problems: string[] = [];
+
+  if (!vocabulary || typeof vocabulary !== 'object') {
+    return ['Vocabulary must be an object'];
+  }
+
+  for (const key of Object.keys(vocabulary)) {
+    if (!['name', 'description', 'extends'].includes(key) && !(key in CANONICAL_VALUES)) {
+      problems.push(`Unknown field '${key}' (use ${Object.keys(CANONICAL_VALUES).join(', ')})`);
+    }
+  }
+
+  for (const field of Object.keys(CANONICAL_VALUES) as VocabularyField[]) {
+    const seen = new Map<string, string>();
+
+    for (const [canonical, aliases] of Object.entries(vocabulary[field] || {})) {
+      if (!CANONICAL_VALUES[field].includes(canonical)) {
+        problems.push(`${field}: unknown value '${canonical}' (use ${CANONICAL_VALUES[field].join(', ')})`);
+        continue;
+      }
+      if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string')) {
+        problems.push(`${field}.${canonical}: terms must be a list of strings`);
+        continue;
+      }
+
+      for (const alias of aliases) {
+        const term = normalizeHeader(alias);
+        const previous = seen.get(term);
+        if (previous && previous !== canonical) {
+          problems.push(`${field}: term '${alias}' means both ${previous} and ${canonical}`);
+        }
+        seen.set(term, canonical);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Loads vocabularies from <VOCABULARIES_DIR>/<name>.json
+ */
+export class VocabularyLoader {
+  private directory: string;
+  private cache: Map<string, Vocabulary> = new Map();
+
+  constructor(directory: string = appConfig.migration.vocabulariesDir) {
+    this.directory = directory;
+  }
+
+  /**
+   * Loads a vocabulary by name, resolving "extends"
+   * @param name - Vocabulary name (empty for the built-in default)
+   * @returns Resolved vocabulary
+   */
+  async load(name?: string | null): Promise<Vocabulary> {
+    return this.resolve(name || DEFAULT_VOCABULARY_NAME, []);
+  }
+
+  /**
+   * Loads a vocabulary and adds the terms of the vocabulary it extends
+   * @param name - Vocabulary name
+   * @param chain - Names already being resolved (cycle detection)
+   * @returns Resolved vocabulary
+   */
+  private async resolve(name: string, chain: string[]): Promise<Vocabulary> {
+    if (name === DEFAULT_VOCABULARY_NAME) {
+      return DEFAULT_VOCABULARY;
+    }
+
+    const cached = this.cache.get(name);
+    if (cached) return cached;
+
+    if (chain.includes(name)) {
+      throw new Error(`Vocabulary '${name}' extends itself (${[...chain, name].join(' -> ')})`);
+    }
+
+    const vocabulary = await this.readVocabulary(name);
+    const problems = validateVocabulary(vocabulary);
+    if (problems.length > 0) {
+      throw new Error(`Invalid vocabulary '${name}': ${problems.join('; ')}`);
+    }
+
+    const resolved = vocabulary.extends
+      ? mergeVocabularies(await this.resolve(vocabulary.extends, [...chain, name]), vocabulary)
+      : vocabulary;
+
+    Logger.debug('Vocabulary loaded', { name, extends: vocabulary.extends });
+
+    this.cache.set(name, resolved);
+    return resolved;
+  }
+
+  /**
+   * Reads a vocabulary file
+   * @param name - Vocabulary name
+   * @returns Parsed vocabulary (name taken from the file name)
+   */
+  private async readVocabulary(name: string): Promise<Vocabulary> {
+    const fs = await import('fs');
+    const path = await import('path');
+
+    if (!/^[\w.-]+$/.test(name)) {
+      throw new Error(`Invalid vocabulary name: ${name}`);
+    }
+
+    const filePath = path.resolve(this.directory, `${name}.json`);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Vocabulary '${name}' not found (expected ${filePath})`);
+    }
+
+    try {
+      return { ...JSON.parse(fs.readFileSync(filePath, 'utf8')), name };
+    } catch (error: any) {
+      throw new Error(`Failed to read vocabulary '${name}': ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Adds a vocabulary's terms to those of the vocabulary it extends
+ * @param base - Resolved parent vocabulary
+ * @param vocabulary - Child vocabulary
+ * @returns Merged vocabulary
+ */
+function mergeVocabularies(base: Vocabulary, vocabulary: Vocabulary): Vocabulary {
+  const merged: Vocabulary = { ...vocabulary };
+
+  for (const field of Object.keys(CANONICAL_VALUES) as VocabularyField[]) {
+    const terms: Record<string, string[]> = {};
+    for (const source of [base[field] || {}, vocabulary[field] || {}]) {
+      for (const [canonical, aliases] of Object.entries(source)) {
+        terms[canonical] = [...(terms[canonical] || []), ...aliases];
+      }
+    }
+    merged[field] = terms;
+  }
+
+  return merged;
+}
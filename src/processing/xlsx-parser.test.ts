@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { XLSXParser } from './xlsx-parser';
+import { ErrorCollector } from '../utils/error-handler';
+import { SourceDocument } from '../sources/types';
+
+const HEADERS = [
+  'code', 'label', 'description', 'requirement_level', 'roles', 'type', 'validations', 'variant',
+  'codigo-categoria-mirakl', 'nome-categoria-mirakl', 'parent_code-categoria-mirakl',
+];
+
+function csvDocument(rows: string[][]): SourceDocument {
+  const text = rows.map(row => row.join(',')).join('\n');
+  return { name: 'rules.csv', location: '/tmp/rules.csv', format: 'csv', buffer: Buffer.from(text) };
+}
+
+describe('XLSXParser', () => {
+  it('counts rows dropped for a missing code as rejected, but not empty rows', async () => {
+    const document = csvDocument([
+      HEADERS,
+      ['EAN', 'EAN', 'Barcode', 'REQUIRED', '', 'TEXT', '', '', '1204', 'Phones', ''],
+      ['', 'No code', 'Dropped', 'REQUIRED', '', 'TEXT', '', '', '1204', 'Phones', ''],
+      [],
+      ['COLOR', 'Color', 'Colour', 'OPTIONAL', '', 'TEXT', '', '', '1204', 'Phones', ''],
+    ]);
+
+    const [sheet] = await new XLSXParser().parseDocument(document, 'rules_test', new ErrorCollector());
+
+    assert.equal(sheet.totalRows, 4);
+    assert.equal(sheet.rejectedRows, 0);
+    assert.deepEqual([...sheet.records].map(({ record, rowNumber }) => [record.code, rowNumber]), [['EAN', 2], ['COLOR', 5]]);
+    assert.equal(sheet.validRows, 2);
+    assert.equal(sheet.rejectedRows, 1);
+    assert.deepEqual(sheet.errors, ["Row 3: Missing required field 'code'"]);
+  });
+});
+
+describe('XLSXParser rule tab detection', () => {
+  function workbookDocument(sheets: Record<string, string[][]>): SourceDocument {
+    const workbook = XLSX.utils.book_new();
+    for (const [name, rows] of Object.entries(sheets)) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+    }
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    return { name: 'rules.xlsx', location: '/tmp/rules.xlsx', format: 'xlsx', buffer };
+  }
+
+  it('reads narrow rule tabs and value-list tabs, and skips other tabs', async () => {
+    const document = workbookDocument({
+      Rules: [['code', 'label', 'type'], ['EAN', 'EAN', 'TEXT'], ['COLOR', 'Color', 'LIST']],
+      Colors: [['list-code', 'value-code', 'value-label'], ['COLOR', 'black', 'Black']],
+      Notes: [['code'], ['Ask the category team before editing']],
+    });
+
+    const sheets = await new XLSXParser().parseDocument(document, 'rules_test', new ErrorCollector());
+
+    assert.deepEqual(sheets.map(sheet => sheet.sheetName), ['Rules', 'Colors']);
+    assert.deepEqual([...sheets[0].records].map(({ record }) => record.code), ['EAN', 'COLOR']);
+    assert.ok(sheets[0].mapping!.problems.includes("Required column 'validations' is missing"));
+    assert.equal(sheets[1].valueLists![0].code, 'COLOR');
+  });
+});
+
+describe('XLSXParser row streaming', () => {
+  it('reads large sheets in chunks, keeping row numbers and the unmapped source rows', async () => {
+    const rows = [HEADERS.slice(0, 3)];
+    for (let i = 1; i <= 2500; i++) {
+      rows.push([`CODE_${i}`, `Label ${i}`, i === 1200 ? 'Spans a chunk boundary' : '']);
+    }
+    rows.push(['', 'No code', '']);
+    const document = csvDocument(rows);
+
+    const [sheet] = await new XLSXParser().parseDocument(document, 'rules_test', new ErrorCollector());
+    const records = [...sheet.records];
+
+    assert.equal(sheet.totalRows, 2501);
+    assert.equal(records.length, 2500);
+    assert.deepEqual(records[1199], {
+      record: { ...records[1199].record, code: 'CODE_1200', description: 'Spans a chunk boundary' },
+      rowNumber: 1201,
+    });
+    assert.deepEqual(sheet.errors, ["Row 2502: Missing required field 'code'"]);
+    const sourceRows = [...sheet.sourceRows()] as any[][];
+    assert.equal(sourceRows.length, 2501);
+    assert.equal(sourceRows[2500][1], 'No code');
+  });
+});
@@ -1,14 +1,94 @@
 import * as XLSX from 'xlsx';
 import { Logger } from '../utils/logger';
 import { ErrorCollector } from '../utils/error-handler';
-import { RuleRecord, RULE_TABLE_COLUMNS } from '../database/schema';
+import { RuleRecord, RULE_TABLE_COLUMNS, getSchemaColumnNames } from '../database/schema';
+import { SourceDocument } from '../sources/types';
+import {
+  MappingProfile,
+  ColumnMappingRule,
+  ColumnMappingReport,
+  DEFAULT_MAPPING_PROFILE,
+  findHeaderIndex,
+  isRequiredColumn,
+  buildColumnMapping,
+  applyColumnRule,
+  getTableSchema,
+} from './mapping-profile';
+import { ValueList, findValueListColumns, groupValueListRows } from './value-lists';
+
+/**
+ * A rule record read from a sheet
+ */
+export interface SheetRecord {
+  record: RuleRecord;
+  /** Source row (record number for records documents) */
+  rowNumber: number;
+}
 
+/**
+ * A sheet whose headers have been mapped. Its rows are only read as the records are iterated, so validRows,
+ * errors and rejectedRows are complete once records has been read.
+ */
 export interface ParsedSheet {
   sheetName: string;
-  data: RuleRecord[];
+  /** Rule records, mapped from the sheet rows as they are iterated (once) */
+  records: Iterable<SheetRecord>;
+  /** Reads the unmapped source rows again (cell arrays, or the records of API sources) */
+  sourceRows: () => Iterable<unknown>;
+  /** Rows below the header */
   totalRows: number;
   validRows: number;
   errors: string[];
+  /** Non-empty rows dropped because they could not be read (missing code, refused headers) */
+  rejectedRows?: number;
+  /** How the sheet's headers were mapped (not set for records documents) */
+  mapping?: ColumnMappingReport;
+  /** Lists read from a value-list tab (or fetched by an API source); such sheets carry no rules */
+  valueLists?: ValueList[];
+}
+
+export interface ParseOptions {
+  /** Column mapping profile (default: the built-in headers) */
+  profile?: MappingProfile;
+  /** Refuse sheets with missing required, ambiguous or multiply-matched columns */
+  strictHeaders?: boolean;
+}
+
+/**
+ * Raised when --strict-headers refuses one or more sheets; carries the mapping of every sheet
+ */
+export class HeaderMappingError extends Error {
+  readonly reports: ColumnMappingReport[];
+
+  constructor(message: string, reports: ColumnMappingReport[]) {
+    super(message);
+    this.name = 'HeaderMappingError';
+    this.reports = reports;
+  }
+}
+
+// Worksheet rows are converted this many at a time, so a sheet is never held as a single array of rows
+const ROW_CHUNK_SIZE = 1000;
+
+/**
+ * Reads the rows of a worksheet in chunks, as sheet_to_json with header: 1 returns them (blank rows included)
+ * @param worksheet - Worksheet
+ * @param firstRow - Rows to skip from the top of the used range
+ * @yields Cell values of each row
+ */
+function* readWorksheetRows(worksheet: XLSX.WorkSheet, firstRow: number = 0): Generator<any[]> {
+  if (!worksheet || !worksheet['!ref']) {
+    return;
+  }
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  for (let start = range.s.r + firstRow; start <= range.e.r; start += ROW_CHUNK_SIZE) {
+    const end = Math.min(start + ROW_CHUNK_SIZE - 1, range.e.r);
+    yield* XLSX.utils.sheet_to_json<any[]>(worksheet, {
+      header: 1,
+      range: { s: { r: start, c: range.s.c }, e: { r: end, c: range.e.c } },
+    });
+  }
 }
 
 export class XLSXParser {
@@ -17,66 +97,353 @@ export class XLSXParser {
    * @param buffer - Buffer containing XLSX data
    * @param sourceName - Name for logging/error tracking
    * @param errorCollector - Error collector instance
+   * @param options - Mapping profile and strict header check
    * @returns Promise with parsed data
    */
   async parseXLSXBuffer(
     buffer: Buffer, 
     sourceName: string, 
-    errorCollector: ErrorCollector
+    errorCollector: ErrorCollector,
+    options: ParseOptions = {}
   ): Promise<ParsedSheet[]> {
     try {
-      Logger.info('Starting XLSX parsing', { sourceName, bufferSize: buffer.length });
+      Logger.info('Starting XLSX parsing', { sourceName, bufferSize: buffer.length, mappingProfile: options.profile?.name });
 
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      const sheets: ParsedSheet[] = [];
+      // cellDates keeps date cells as dates instead of serial numbers
+      const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+      return this.parseWorkbook(workbook, sourceName, errorCollector, options);
+    } catch (error: any) {
+      const message = `Failed to parse XLSX for ${sourceName}`;
+      Logger.error(message, { error: error.message, sourceName });
+      errorCollector.addError('XLSXParser', message, { sourceName, error: error.message });
+      throw error;
+    }
+  }
 
-      for (const sheetName of workbook.SheetNames) {
-        Logger.debug('Processing sheet', { sheetName, sourceName });
-        
-        const worksheet = workbook.Sheets[sheetName];
-        const rawData: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
-        const parsedSheet = this.processSheet(rawData, sheetName, sourceName, errorCollector);
-        sheets.push(parsedSheet);
+  /**
+   * Parses a fetched source document (XLSX/ODS workbook or CSV file)
+   * @param document - Source document
+   * @param sourceName - Name for logging/error tracking
+   * @param errorCollector - Error collector instance
+   * @param options - Mapping profile and strict header check (not used for records documents, which are already mapped)
+   * @returns Promise with parsed data
+   */
+  async parseDocument(
+    document: SourceDocument,
+    sourceName: string,
+    errorCollector: ErrorCollector,
+    options: ParseOptions = {}
+  ): Promise<ParsedSheet[]> {
+    if (document.format === 'records') {
+      const sheets = [this.parseRecordsDocument(document, sourceName, errorCollector)];
+      if (document.valueLists?.length) {
+        sheets.push({
+          sheetName: `${document.name} value lists`,
+          records: [],
+          sourceRows: () => [],
+          totalRows: 0,
+          validRows: 0,
+          errors: [],
+          valueLists: document.valueLists,
+        });
       }
+      return sheets;
+    }
 
-      Logger.info('XLSX parsing completed', { 
-        sourceName, 
-        sheetsCount: sheets.length,
-        totalRows: sheets.reduce((sum, sheet) => sum + sheet.totalRows, 0),
-        validRows: sheets.reduce((sum, sheet) => sum + sheet.validRows, 0)
-      });
+    // SheetJS reads ODS workbooks through the same entry point as XLSX
+    if (document.format !== 'csv') {
+      return this.parseXLSXBuffer(document.buffer, sourceName, errorCollector, options);
+    }
 
-      return sheets;
+    try {
+      Logger.info('Starting CSV parsing', { sourceName, file: document.name, bufferSize: document.buffer.length });
+
+      // raw keeps codes such as "007" as text instead of guessing numbers
+      const text = document.buffer.toString('utf8').replace(/^\uFEFF/, '');
+      const workbook = XLSX.read(text, { type: 'string', raw: true });
+
+      // A CSV has a single sheet; name it after the file so errors point at the right input
+      workbook.Sheets[document.name] = workbook.Sheets[workbook.SheetNames[0]];
+      workbook.SheetNames = [document.name];
+
+      return this.parseWorkbook(workbook, sourceName, errorCollector, options);
     } catch (error: any) {
-      const message = `Failed to parse XLSX for ${sourceName}`;
+      const message = `Failed to parse CSV ${document.name} for ${sourceName}`;
       Logger.error(message, { error: error.message, sourceName });
-      errorCollector.addError('XLSXParser', message, { sourceName, error: error.message });
+      errorCollector.addError('XLSXParser', message, { sourceName, file: document.name, error: error.message });
       throw error;
     }
   }
 
   /**
-   * Processes a single worksheet and extracts rule records
-   * @param rawData - Raw sheet data from XLSX
+   * Wraps records mapped by an API source as a single parsed sheet, applying the same row checks as workbooks
+   * @param document - Source document carrying records
+   * @param sourceName - Name for logging/error tracking
+   * @param errorCollector - Error collector instance
+   * @returns Parsed sheet
+   */
+  private parseRecordsDocument(
+    document: SourceDocument,
+    sourceName: string,
+    errorCollector: ErrorCollector
+  ): ParsedSheet {
+    const records = document.records || [];
+    const sheet: ParsedSheet = {
+      sheetName: document.name,
+      records: [],
+      sourceRows: () => records,
+      totalRows: records.length,
+      validRows: 0,
+      errors: [],
+      rejectedRows: 0,
+    };
+    sheet.records = this.readSourceRecords(records, sheet, document, sourceName, errorCollector);
+    return sheet;
+  }
+
+  /**
+   * Copies the records of an API source as they are iterated, counting them and reporting records without a code
+   * @param records - Records mapped by the source
+   * @param sheet - Sheet receiving the counts and errors
+   * @param document - Source document carrying the records
+   * @param sourceName - Name for logging/error tracking
+   * @param errorCollector - Error collector instance
+   * @yields Records with their record number
+   */
+  private *readSourceRecords(
+    records: RuleRecord[],
+    sheet: ParsedSheet,
+    document: SourceDocument,
+    sourceName: string,
+    errorCollector: ErrorCollector
+  ): Generator<SheetRecord> {
+    for (let index = 0; index < records.length; index++) {
+      const source = records[index];
+      const record = {} as RuleRecord;
+      for (const column of RULE_TABLE_COLUMNS) {
+        record[column] = this.formatCellValue(source[column]);
+      }
+      record.extras = { ...(source.extras || {}) };
+
+      if (!record.code) {
+        const message = `Record ${index + 1}: Missing required field 'code'`;
+        sheet.errors.push(message);
+        sheet.rejectedRows++;
+        errorCollector.addError('XLSXParser', `Error processing record in ${document.name}`, {
+          sourceName,
+          recordNumber: index + 1,
+          error: message,
+        });
+        continue;
+      }
+
+      sheet.validRows++;
+      yield { record, rowNumber: index + 1 };
+    }
+
+    Logger.info('Source records processed', {
+      sourceName,
+      document: document.name,
+      totalRows: records.length,
+      validRows: sheet.validRows,
+      errorCount: sheet.errors.length,
+    });
+  }
+
+  /**
+   * Extracts rule data from every rule tab of a workbook, and the lists of its value-list tabs
+   * @param workbook - Parsed workbook
+   * @param sourceName - Name for logging/error tracking
+   * @param errorCollector - Error collector instance
+   * @param options - Mapping profile and strict header check
+   * @returns Parsed rule and value-list sheets
+   * @throws HeaderMappingError when strict headers are on and a rule sheet's mapping has problems
+   */
+  private parseWorkbook(
+    workbook: XLSX.WorkBook,
+    sourceName: string,
+    errorCollector: ErrorCollector,
+    options: ParseOptions
+  ): ParsedSheet[] {
+    const profile = options.profile || DEFAULT_MAPPING_PROFILE;
+    const sheets: ParsedSheet[] = [];
+    const skippedSheets: string[] = [];
+    const rejectedSheets: string[] = [];
+
+    for (const sheetName of workbook.SheetNames) {
+      const worksheet = workbook.Sheets[sheetName];
+      const [headerRow] = readWorksheetRows(worksheet);
+
+      if (headerRow) {
+        const valueListSheet = this.processValueListSheet(worksheet, headerRow, sheetName, sourceName, errorCollector);
+        if (valueListSheet) {
+          sheets.push(valueListSheet);
+          continue;
+        }
+
+        if (!this.isRuleSheet(headerRow, profile)) {
+          Logger.warn('Skipping sheet without a code column and another required rule column', {
+            sheetName,
+            sourceName,
+            mappingProfile: profile.name,
+            headers: headerRow.map(h => this.formatCellValue(h)).filter(Boolean),
+          });
+          skippedSheets.push(sheetName);
+          continue;
+        }
+      }
+
+      Logger.debug('Processing sheet', { sheetName, sourceName });
+      const parsedSheet = this.processSheet(
+        worksheet, headerRow, sheetName, sourceName, errorCollector, profile, options.strictHeaders
+      );
+      sheets.push(parsedSheet);
+
+      if (options.strictHeaders && parsedSheet.mapping?.problems.length) {
+        rejectedSheets.push(`${sheetName}: ${parsedSheet.mapping.problems.join('; ')}`);
+      }
+    }
+
+    if (rejectedSheets.length > 0) {
+      throw new HeaderMappingError(
+        `Strict header check failed for ${sourceName} - ${rejectedSheets.join(' | ')}`,
+        sheets.map(sheet => sheet.mapping).filter(Boolean)
+      );
+    }
+
+    if (sheets.every(sheet => sheet.valueLists)) {
+      errorCollector.addError('XLSXParser', `No rule sheet found in ${sourceName}`, {
+        sourceName,
+        sheetNames: workbook.SheetNames,
+      });
+    }
+
+    Logger.info('XLSX parsing completed', { 
+      sourceName, 
+      sheetsCount: sheets.length,
+      skippedSheets,
+      totalRows: sheets.reduce((sum, sheet) => sum + sheet.totalRows, 0),
+    });
+
+    return sheets;
+  }
+
+  /**
+   * Reads a value-list tab (one row per allowed value, with the code of its list)
+   * @param worksheet - Worksheet
+   * @param headerRow - First row of the sheet
    * @param sheetName - Name of the sheet
    * @param sourceName - Source name for logging
    * @param errorCollector - Error collector instance
+   * @returns Sheet carrying the lists, or null when the sheet has no list and value code columns
+   */
+  private processValueListSheet(
+    worksheet: XLSX.WorkSheet,
+    headerRow: any[],
+    sheetName: string,
+    sourceName: string,
+    errorCollector: ErrorCollector
+  ): ParsedSheet | null {
+    const headers = headerRow.map(h => this.formatCellValue(h));
+    const columns = findValueListColumns(headers);
+    if (!columns) {
+      return null;
+    }
+
+    // Lists are loaded whole, so their rows are read at once
+    const rows = [...readWorksheetRows(worksheet, 1)].map(row => (row || []).map(cell => this.formatCellValue(cell)));
+    const { lists, errors } = groupValueListRows(rows, columns);
+
+    for (const error of errors) {
+      errorCollector.addError('XLSXParser', `Error processing value list row in ${sheetName}`, {
+        sheetName,
+        sourceName,
+        error,
+      });
+    }
+
+    Logger.info('Value list sheet processed', {
+      sheetName,
+      sourceName,
+      lists: lists.length,
+      values: lists.reduce((sum, list) => sum + list.values.length, 0),
+      errorCount: errors.length,
+    });
+
+    return {
+      sheetName,
+      records: [],
+      sourceRows: () => [],
+      totalRows: 0,
+      validRows: 0,
+      errors,
+      valueLists: lists,
+    };
+  }
+
+  /**
+   * Checks whether a header row belongs to a rule tab: the profile's code column and at least one of its
+   * other required columns match a header. Narrow tabs qualify; the columns they lack are reported by
+   * the column mapping. Index fallbacks match any sheet, so only header names and patterns count.
+   * Value-list tabs are recognized before, by their list and value code columns.
+   * @param headerRow - First row of the sheet
+   * @param profile - Column mapping profile
+   * @returns True for rule tabs
+   */
+  private isRuleSheet(headerRow: any[], profile: MappingProfile): boolean {
+    const headers = (headerRow || []).map(h => this.formatCellValue(h));
+    const matches = (rule: ColumnMappingRule) => findHeaderIndex(rule, headers) !== -1;
+
+    return !!profile.columns.code && matches(profile.columns.code) && Object.entries(profile.columns).some(
+      ([column, rule]) => column !== 'code' && isRequiredColumn(rule) && matches(rule)
+    );
+  }
+
+  /**
+   * Converts a typed cell value to the text stored in the rule tables
+   * @param value - Cell value (string, number, boolean or Date)
+   * @returns Trimmed text ('' for empty cells)
+   */
+  private formatCellValue(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (value instanceof Date) {
+      // Date-only cells are stored as YYYY-MM-DD
+      const iso = value.toISOString();
+      return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+    }
+
+    return String(value).trim();
+  }
+
+  /**
+   * Maps the headers of a worksheet; its rule records are read as the returned sheet's records are iterated
+   * @param worksheet - Worksheet
+   * @param headerRow - First row of the sheet (undefined when the sheet has no cells)
+   * @param sheetName - Name of the sheet
+   * @param sourceName - Source name for logging
+   * @param errorCollector - Error collector instance
+   * @param profile - Column mapping profile
+   * @param strictHeaders - Skip the rows of sheets whose mapping has problems (the caller rejects them)
    * @returns Processed sheet data
    */
   private processSheet(
-    rawData: any[][], 
+    worksheet: XLSX.WorkSheet,
+    headerRow: any[] | undefined,
     sheetName: string, 
     sourceName: string,
-    errorCollector: ErrorCollector
+    errorCollector: ErrorCollector,
+    profile: MappingProfile,
+    strictHeaders: boolean = false
   ): ParsedSheet {
-    Logger.debug('Processing sheet data', { sheetName, sourceName, rows: rawData.length });
-
-    if (rawData.length === 0) {
+    if (!headerRow) {
       Logger.warn('Empty sheet detected', { sheetName, sourceName });
       return {
         sheetName,
-        data: [],
+        records: [],
+        sourceRows: () => [],
         totalRows: 0,
         validRows: 0,
         errors: ['Sheet is empty'],
@@ -84,121 +451,150 @@ export class XLSXParser {
     }
 
     // Assume first row contains headers
-    const headers = rawData[0]?.map(h => String(h || '').trim()) || [];
-    const dataRows = rawData.slice(1);
+    const headers = headerRow.map(h => this.formatCellValue(h));
+    const range = XLSX.utils.decode_range(worksheet['!ref']);
+    const totalRows = range.e.r - range.s.r;
 
     Logger.debug('Sheet structure', { 
       sheetName, 
       sourceName, 
       headers: headers.length, 
-      dataRows: dataRows.length 
+      dataRows: totalRows 
     });
 
-    const data: RuleRecord[] = [];
-    const errors: string[] = [];
-    let validRows = 0;
-
     // Map headers to expected column names
-    const columnMapping = this.createColumnMapping(headers, sheetName, errorCollector);
+    const mappingReport = this.createColumnMapping(headers, sheetName, sourceName, errorCollector, profile);
+    const rejected = strictHeaders && mappingReport.problems.length > 0;
 
-    for (let i = 0; i < dataRows.length; i++) {
-      const row = dataRows[i];
-      const rowNumber = i + 2; // +2 because we start from row 1 (header) + 1 (0-indexed)
+    const sheet: ParsedSheet = {
+      sheetName,
+      records: [],
+      sourceRows: () => readWorksheetRows(worksheet, 1),
+      totalRows,
+      validRows: 0,
+      errors: rejected ? [...mappingReport.problems] : [],
+      rejectedRows: 0,
+      mapping: mappingReport,
+    };
+    sheet.records = this.readSheetRecords(worksheet, sheet, headers, sourceName, errorCollector, profile, rejected);
+    return sheet;
+  }
 
-      try {
-        const record = this.processRow(row, columnMapping, rowNumber);
-        if (record) {
-          data.push(record);
-          validRows++;
+  /**
+   * Maps the rows of a worksheet to rule records as they are iterated, counting them and reporting rows
+   * that cannot be read
+   * @param worksheet - Worksheet
+   * @param sheet - Sheet receiving the counts and errors
+   * @param headers - Sheet headers
+   * @param sourceName - Source name for logging
+   * @param errorCollector - Error collector instance
+   * @param profile - Column mapping profile
+   * @param rejected - The sheet's headers were refused: count its non-empty rows as rejected, yield none
+   * @yields Records with their sheet row
+   */
+  private *readSheetRecords(
+    worksheet: XLSX.WorkSheet,
+    sheet: ParsedSheet,
+    headers: string[],
+    sourceName: string,
+    errorCollector: ErrorCollector,
+    profile: MappingProfile,
+    rejected: boolean
+  ): Generator<SheetRecord> {
+    const columnMapping = new Map(
+      sheet.mapping.columns.filter(match => match.index !== null).map(match => [match.column, match.index])
+    );
+    const tableColumns = getSchemaColumnNames(getTableSchema(profile));
+    const mappedIndexes = new Set(columnMapping.values());
+    let rowNumber = 1; // the header row
+
+    for (const row of readWorksheetRows(worksheet, 1)) {
+      rowNumber++;
+
+      if (rejected) {
+        if (row && row.some(cell => this.formatCellValue(cell) !== '')) {
+          sheet.rejectedRows++;
         }
+        continue;
+      }
+
+      let record: RuleRecord | null;
+      try {
+        record = this.processRow(row, columnMapping, rowNumber, profile, tableColumns);
       } catch (error: any) {
-        const errorMessage = `Row ${rowNumber}: ${error.message}`;
-        errors.push(errorMessage);
+        sheet.errors.push(`Row ${rowNumber}: ${error.message}`);
+        sheet.rejectedRows++;
         errorCollector.addError(
           'XLSXParser',
-          `Error processing row in ${sheetName}`,
-          { sheetName, sourceName, rowNumber, error: error.message }
+          `Error processing row in ${sheet.sheetName}`,
+          { sheetName: sheet.sheetName, sourceName, rowNumber, error: error.message }
         );
+        continue;
+      }
+
+      if (record) {
+        record.extras = this.collectExtras(row, headers, mappedIndexes);
+        sheet.validRows++;
+        yield { record, rowNumber };
       }
     }
 
     Logger.info('Sheet processing completed', {
-      sheetName,
+      sheetName: sheet.sheetName,
       sourceName,
-      totalRows: dataRows.length,
-      validRows,
-      errorCount: errors.length,
+      totalRows: sheet.totalRows,
+      validRows: sheet.validRows,
+      errorCount: sheet.errors.length,
     });
-
-    return {
-      sheetName,
-      data,
-      totalRows: dataRows.length,
-      validRows,
-      errors,
-    };
   }
 
   /**
-   * Creates a mapping between sheet headers and database columns
+   * Creates a mapping between sheet headers and database columns using the profile's header names,
+   * patterns and index fallbacks (in that order)
    * @param headers - Array of header strings from the sheet
    * @param sheetName - Name of the sheet for logging
+   * @param sourceName - Source name for the report
    * @param errorCollector - Error collector instance
-   * @returns Mapping object
+   * @param profile - Column mapping profile
+   * @returns Mapping report
    */
   private createColumnMapping(
     headers: string[], 
     sheetName: string,
-    errorCollector: ErrorCollector
-  ): Map<string, number> {
-    const mapping = new Map<string, number>();
-    
-    // Create a flexible mapping that handles common variations
-    const headerVariations: { [key: string]: string[] } = {
-      'code': ['code', 'codigo', 'id'],
-      'description': ['description', 'descricao', 'desc'],
-      'label': ['label', 'nome', 'name'],
-      'requirement_level': ['requirement_level', 'nivel_requisito', 'required'],
-      'roles': ['roles', 'papeis', 'functions'],
-      'type': ['type', 'tipo', 'category'],
-      'validations': ['validations', 'validacoes', 'rules'],
-      'variant': ['variant', 'variante', 'version'],
-      'codigo-categoria-mirakl': ['codigo-categoria-mirakl', 'mirakl_category_code'],
-      'nome-categoria-mirakl': ['nome-categoria-mirakl', 'mirakl_category_name'],
-      'parent_code-categoria-mirakl': ['parent_code-categoria-mirakl', 'parent_mirakl_code'],
-    };
-
-    for (const [dbColumn, variations] of Object.entries(headerVariations)) {
-      const headerIndex = headers.findIndex(header => 
-        variations.some(variation => 
-          header.toLowerCase().includes(variation.toLowerCase())
-        )
-      );
+    sourceName: string,
+    errorCollector: ErrorCollector,
+    profile: MappingProfile
+  ): ColumnMappingReport {
+    const report = buildColumnMapping(headers, profile, sheetName, sourceName);
 
-      if (headerIndex !== -1) {
-        mapping.set(dbColumn, headerIndex);
+    for (const match of report.columns) {
+      if (match.matchedBy) {
         Logger.debug('Column mapped', { 
-          dbColumn, 
-          sheetHeader: headers[headerIndex], 
-          index: headerIndex,
+          dbColumn: match.column, 
+          sheetHeader: match.header, 
+          index: match.index,
+          matchedBy: match.matchedBy,
           sheetName 
         });
-      } else {
+      } else if (match.required) {
         errorCollector.addError(
           'XLSXParser',
-          `Could not map database column '${dbColumn}' to any sheet header`,
-          { sheetName, availableHeaders: headers, dbColumn }
+          `Could not map database column '${match.column}' to any sheet header`,
+          { sheetName, availableHeaders: headers, dbColumn: match.column, mappingProfile: profile.name }
         );
       }
     }
 
     Logger.info('Column mapping completed', { 
       sheetName, 
-      mappedColumns: mapping.size, 
-      expectedColumns: RULE_TABLE_COLUMNS.length 
+      mappingProfile: profile.name,
+      mappedColumns: report.columns.filter(match => match.matchedBy).length, 
+      expectedColumns: getTableSchema(profile).columns.length,
+      unusedHeaders: report.unusedHeaders,
+      problems: report.problems,
     });
 
-    return mapping;
+    return report;
   }
 
   /**
@@ -206,29 +602,31 @@ export class XLSXParser {
    * @param row - Array of cell values
    * @param mapping - Column mapping
    * @param rowNumber - Row number for error reporting
+   * @param profile - Column mapping profile supplying defaults and transforms
+   * @param tableColumns - Columns of the target table schema
    * @returns Processed RuleRecord or null if invalid
    */
   private processRow(
     row: any[], 
     mapping: Map<string, number>,
-    rowNumber: number
+    rowNumber: number,
+    profile: MappingProfile,
+    tableColumns: string[]
   ): RuleRecord | null {
     // Skip empty rows
-    if (!row || row.every(cell => !cell || String(cell).trim() === '')) {
+    if (!row || row.every(cell => this.formatCellValue(cell) === '')) {
       return null;
     }
 
     const record: Partial<RuleRecord> = {};
 
     // Map each database column to the corresponding row value
-    for (const dbColumn of RULE_TABLE_COLUMNS) {
+    for (const dbColumn of tableColumns) {
       const headerIndex = mapping.get(dbColumn);
-      if (headerIndex !== undefined && headerIndex < row.length) {
-        const cellValue = row[headerIndex];
-        record[dbColumn as keyof RuleRecord] = cellValue ? String(cellValue).trim() : '';
-      } else {
-        record[dbColumn as keyof RuleRecord] = '';
-      }
+      const value = headerIndex !== undefined && headerIndex < row.length
+        ? this.formatCellValue(row[headerIndex])
+        : '';
+      record[dbColumn] = applyColumnRule(value, profile.columns[dbColumn]);
     }
 
     // Validate required fields (you can customize this based on business rules)
@@ -241,6 +639,31 @@ export class XLSXParser {
     return record as RuleRecord;
   }
 
+  /**
+   * Captures the non-empty cells of columns no rule column is mapped to
+   * @param row - Array of cell values
+   * @param headers - Sheet headers
+   * @param mappedIndexes - Indexes of the columns mapped to rule columns
+   * @returns Cell values keyed by original header (column letter in brackets when the header is empty or repeated)
+   */
+  private collectExtras(row: any[], headers: string[], mappedIndexes: Set<number>): Record<string, string> {
+    const extras: Record<string, string> = {};
+
+    for (let index = 0; index < row.length; index++) {
+      if (mappedIndexes.has(index)) continue;
+
+      const value = this.formatCellValue(row[index]);
+      if (value === '') continue;
+
+      const header = headers[index] || '';
+      const letter = `[${XLSX.utils.encode_col(index)}]`;
+      const key = header === '' ? letter : extras[header] !== undefined ? `${header} ${letter}` : header;
+      extras[key] = value;
+    }
+
+    return extras;
+  }
+
   /**
    * Validates XLSX file structure
    * @param buffer - XLSX buffer
@@ -50,6 +50,7 @@ USAGE:
 COMMANDS:
   up       Run all pending migrations (default)
   status   Show migration status
+  dedupe   Remove duplicate rules (same code, category and variant) from every rule table and index them
   reset    Reset entire migration system (destructive)
   help     Show this help message
 
@@ -60,6 +61,7 @@ OPTIONS:
 EXAMPLES:
   npm run migrate              # Run all pending migrations
   npm run migrate status       # Show current migration status
+  npm run migrate dedupe       # Deduplicate rule tables that cannot get their natural key index
   npm run migrate up --verbose # Run migrations with detailed output
   npm run migrate reset --force # Reset system without confirmation
 
@@ -182,6 +184,20 @@ SAFETY:
     }
   }
 
+  /**
+   * Deduplicate every rule table
+   */
+  private async deduplicate(): Promise<void> {
+    try {
+      console.log('🧹 Deduplicating rule tables...');
+      await this.migrations.deduplicateRuleTables();
+      console.log('✅ Rule tables deduplicated and indexed on (code, codigo-categoria-mirakl, variant)');
+    } catch (error: any) {
+      console.error('❌ Deduplication failed:', error.message);
+      process.exit(1);
+    }
+  }
+
   /**
    * Reset the migration system
    */
@@ -237,6 +253,10 @@ SAFETY:
           await this.showStatus();
           break;
 
+        case 'dedupe':
+          await this.deduplicate();
+          break;
+
         case 'reset':
           await this.resetSystem(args.force);
           break;
@@ -0,0 +1,179 @@
+#!/usr/bin/env ts-node
+/**
+ * Mirakl Operator API Mock Server
+ *
+ * Serves recorded attributes (PM11), hierarchies (H11) and values lists (VL11) responses so mirakl:// sources
+ * can be exercised without access to a real Mirakl instance:
+ *
+ *   npm run mirakl:mock
+ *   MIRAKL_API_KEY=mock-api-key npm run start:ts -- --dry-run \
+ *     --table rules_worten_pt --source mirakl+http://localhost:8089
+ *
+ * List responses are paginated like the Mirakl APIs when the request has max/offset.
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+
+export interface MockServerArgs {
+  /** Port to listen on; 0 picks a free one */
+  port: number;
+  fixturesDir: string;
+  apiKey: string;
+  /** Skips the startup banner and request log (tests) */
+  quiet?: boolean;
+}
+
+export class MiraklMockServer {
+  private args: MockServerArgs;
+
+  constructor(args: MockServerArgs) {
+    this.args = args;
+  }
+
+  /**
+   * Starts listening and logs every request
+   * @returns The listening server
+   */
+  start(): Promise<http.Server> {
+    const server = http.createServer((req, res) => this.handle(req, res));
+
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.args.port, () => {
+        const port = (server.address() as AddressInfo).port;
+        this.log(`🧪 Mirakl mock API listening on http://localhost:${port}`);
+        this.log(`   Fixtures: ${this.args.fixturesDir}`);
+        this.log(`   API key:  ${this.args.apiKey}`);
+        this.log(`   Source:   mirakl+http://localhost:${port}`);
+        resolve(server);
+      });
+    });
+  }
+
+  /**
+   * Routes a request to the matching fixture
+   * @param req - Incoming request
+   * @param res - Response
+   */
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', `http://localhost:${this.args.port}`);
+    this.log(`${req.method} ${url.pathname}${url.search}`);
+
+    // Mirakl expects the raw key in the Authorization header, without a scheme
+    if (req.headers['authorization'] !== this.args.apiKey) {
+      return this.send(res, 401, { status: 401, message: 'Unauthorized' });
+    }
+
+    if (req.method !== 'GET') {
+      return this.send(res, 405, { status: 405, message: 'Method not allowed' });
+    }
+
+    switch (url.pathname) {
+      case '/api/products/attributes':
+        return this.send(res, 200, this.paginate(
+          this.filterAttributes(this.readFixture('attributes.json'), url.searchParams), 'attributes', url.searchParams
+        ));
+      case '/api/hierarchies':
+        return this.send(res, 200, this.paginate(this.readFixture('hierarchies.json'), 'hierarchies', url.searchParams));
+      case '/api/values_lists':
+        return this.send(res, 200, this.paginate(this.readFixture('values_lists.json'), 'values_lists', url.searchParams));
+      default:
+        return this.send(res, 404, { status: 404, message: `No fixture for ${url.pathname}` });
+    }
+  }
+
+  /**
+   * Applies the hierarchy filter of PM11: attributes of the category plus attributes common to all categories
+   * @param body - Recorded attributes response
+   * @param query - Request query parameters
+   * @returns Filtered response
+   */
+  private filterAttributes(body: any, query: URLSearchParams): any {
+    const hierarchy = query.get('hierarchy');
+    if (!hierarchy) {
+      return body;
+    }
+
+    return {
+      attributes: body.attributes.filter((attribute: any) =>
+        !attribute.hierarchy_code || attribute.hierarchy_code === hierarchy
+      ),
+    };
+  }
+
+  /**
+   * Returns one page of a list response when the request has max, with the total_count of the full list
+   * @param body - Recorded list response
+   * @param listField - Response field holding the items
+   * @param query - Request query parameters
+   * @returns The page, or the whole response without max
+   */
+  private paginate(body: any, listField: string, query: URLSearchParams): any {
+    const max = parseInt(query.get('max') || '', 10);
+    if (!max) {
+      return body;
+    }
+
+    const offset = parseInt(query.get('offset') || '0', 10);
+    const items: unknown[] = body[listField];
+    return { ...body, [listField]: items.slice(offset, offset + max), total_count: items.length };
+  }
+
+  /**
+   * Reads a recorded response (re-read on every request so fixtures can be edited while running)
+   * @param fileName - Fixture file name
+   * @returns Parsed fixture
+   */
+  private readFixture(fileName: string): any {
+    return JSON.parse(fs.readFileSync(path.join(this.args.fixturesDir, fileName), 'utf8'));
+  }
+
+  /**
+   * Sends a JSON response
+   * @param res - Response
+   * @param statusCode - HTTP status
+   * @param body - Response body
+   */
+  private send(res: http.ServerResponse, statusCode: number, body: any): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Prints a line unless the server runs quietly
+   * @param message - Line to print
+   */
+  private log(message: string): void {
+    if (!this.args.quiet) {
+      console.log(message);
+    }
+  }
+}
+
+/**
+ * Parses --port and --fixtures, falling back to environment variables
+ * @param argv - Process arguments
+ * @returns Server arguments
+ */
+function parseArgs(argv: string[]): MockServerArgs {
+  const valueOf = (flag: string): string | undefined => {
+    const index = argv.indexOf(flag);
+    return index !== -1 ? argv[index + 1] : undefined;
+  };
+
+  return {
+    port: parseInt(valueOf('--port') || process.env.MIRAKL_MOCK_PORT || '8089', 10),
+    fixturesDir: path.resolve(valueOf('--fixtures') || path.join(__dirname, '../../fixtures/mirakl')),
+    apiKey: process.env.MIRAKL_MOCK_API_KEY || 'mock-api-key',
+  };
+}
+
+if (require.main === module) {
+  new MiraklMockServer(parseArgs(process.argv)).start().catch(error => {
+    console.error(`❌ Mirakl mock API failed to start: ${error.message}`);
+    process.exit(1);
+  });
+}
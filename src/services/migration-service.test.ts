@@ -0,0 +1,128 @@
+import { describe, it, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { MigrationService } from './migration-service';
+import { MigrationRun } from '../database/history';
+import { DEFAULT_MAPPING_PROFILE } from '../processing/mapping-profile';
+import { DEFAULT_VOCABULARY } from '../processing/vocabulary';
+import { XLSXParser } from '../processing/xlsx-parser';
+import { DataTransformer } from '../processing/data-transformer';
+import { SourceState } from '../sources/source-state';
+import { ErrorCollector } from '../utils/error-handler';
+
+describe('MigrationService resume', () => {
+  let service: any;
+  let run: MigrationRun;
+  let lockFree: boolean;
+
+  beforeEach(() => {
+    run = {
+      id: 7,
+      startedAt: new Date(),
+      finishedAt: null,
+      status: 'running',
+      options: { command: 'migrate', mode: 'sync', tableName: null },
+      tableResults: [],
+      error: null,
+    };
+    lockFree = true;
+
+    service = Object.create(MigrationService.prototype);
+    service.history = {
+      listRuns: async () => [run],
+      lockRun: async (runId: number) => runId === run.id && lockFree,
+    };
+    service.checkpoints = { getCheckpoints: async () => new Map() };
+  });
+
+  it('resumes a run left running by a process that is gone', async () => {
+    const interrupted = await service.findInterruptedRun({});
+
+    assert.equal(interrupted.run.id, 7);
+  });
+
+  it('refuses a run that is still executing in another process', async () => {
+    lockFree = false;
+
+    await assert.rejects(service.findInterruptedRun({}), /Run 7 is still running in another process/);
+  });
+
+  it('refuses a completed run', async () => {
+    run.status = 'completed';
+
+    await assert.rejects(service.findInterruptedRun({}), /Run 7 completed/);
+  });
+});
+
+describe('MigrationService unchanged sources', () => {
+  const HEADERS = 'code,label,description,requirement_level,roles,type,validations,variant,' +
+    'codigo-categoria-mirakl,nome-categoria-mirakl,parent_code-categoria-mirakl';
+  const revision = { revisionId: '42', modifiedTime: '2026-10-01T00:00:00Z' };
+  let service: any;
+  let csv: string;
+  let saved: SourceState[];
+  let fetches: number;
+
+  beforeEach(() => {
+    csv = `${HEADERS}\nEAN,EAN,Barcode,REQUIRED,,TEXT,,false,1204,Phones,\n`;
+    saved = [];
+    fetches = 0;
+
+    service = Object.create(MigrationService.prototype);
+    service.errorCollector = new ErrorCollector();
+    service.mappingProfiles = { load: async () => DEFAULT_MAPPING_PROFILE };
+    service.vocabularies = { load: async () => DEFAULT_VOCABULARY };
+    service.sources = {
+      fetch: async (location: string) => {
+        fetches++;
+        return [{ name: 'rules.csv', location, format: 'csv', buffer: Buffer.from(csv) }];
+      },
+    };
+    service.xlsxParser = new XLSXParser();
+    service.dataTransformer = new DataTransformer();
+    service.databaseMigration = {
+      tableExists: async () => true,
+      saveSourceState: async (tableName: string, state: SourceState) => { saved.push(state); },
+      migrateToTable: async (tableName: string, batches: AsyncIterable<any[]>) => {
+        let recordsInserted = 0;
+        for await (const batch of batches) recordsInserted += batch.length;
+        return { tableName, recordsInserted, recordsUpdated: 0, recordsUnchanged: 0, recordsSkipped: 0, errors: [] };
+      },
+    };
+    service.rebuildCategories = async () => undefined;
+    service.loadValueLists = async () => undefined;
+  });
+
+  const migrate = (sourceCheck: any, options: any = { mode: 'sync' }) =>
+    service.processTable('rules_test', '/data/rules.csv', null, options, undefined, undefined, sourceCheck);
+
+  it('records the settings the table was migrated with and skips the next run while they match', async () => {
+    await migrate({ stored: null, revision, skipUnchanged: true });
+    assert.equal(saved.length, 1);
+    assert.equal(saved[0].revisionId, '42');
+    assert.match(saved[0].configHash!, /^[0-9a-f]{64}$/);
+
+    const result = await migrate({ stored: saved[0], revision, skipUnchanged: true });
+    assert.equal(result.unchanged, true);
+    assert.equal(fetches, 1);
+  });
+
+  it('migrates an unchanged source again when the mode changes', async () => {
+    await migrate({ stored: null, revision, skipUnchanged: true });
+
+    const result = await migrate({ stored: saved[0], revision, skipUnchanged: true }, { mode: 'append' });
+    assert.equal(result.unchanged, undefined);
+    assert.equal(result.recordsInserted, 1);
+    assert.equal(fetches, 2);
+    assert.notEqual(saved[1].configHash, saved[0].configHash);
+  });
+
+  it('does not record the source when it has unknown terms, so they are reported again', async () => {
+    csv = `${HEADERS}\nEAN,EAN,Barcode,SOMETIMES,,TEXT,,false,1204,Phones,\n`;
+
+    const result = await migrate({ stored: null, revision, skipUnchanged: true });
+
+    assert.equal(result.recordsInserted, 1);
+    assert.equal(result.errors.length, 1);
+    assert.deepEqual(saved, []);
+  });
+});
@@ -1,10 +1,42 @@
 import { Logger } from '../utils/logger';
 import { ErrorCollector } from '../utils/error-handler';
 import { GoogleSheetsService } from '../google/sheets';
-import { XLSXParser } from '../processing/xlsx-parser';
+import { XLSXParser, ParsedSheet, HeaderMappingError } from '../processing/xlsx-parser';
 import { DataTransformer } from '../processing/data-transformer';
-import { DatabaseMigration, MigrationOptions } from '../database/migration';
+import { VocabularyLoader } from '../processing/vocabulary';
+import {
+  MappingProfileLoader,
+  ColumnMappingReport,
+  DEFAULT_MAPPING_PROFILE_NAME,
+  getTableSchema,
+} from '../processing/mapping-profile';
+import { DatabaseMigration, LoadMethod, MigrationOptions } from '../database/migration';
+import { MigrationHistory, MigrationRun, StoredRuleChange } from '../database/history';
+import { MigrationCheckpoints, TableCheckpoint } from '../database/checkpoints';
+import { RestoreResult, RuleSnapshots } from '../database/snapshots';
+import { MiraklCategories, CategoryTreeSummary, CategoryRule } from '../database/categories';
+import { MiraklCategory } from '../processing/category-tree';
+import { MiraklValueLists, ValueListSummary } from '../database/value-lists';
+import { ValueList, mergeValueLists } from '../processing/value-lists';
+import { AttributeComparison, MarketplaceRules, buildAttributeComparison } from '../processing/attribute-comparison';
+import { getSourceRevision } from '../processing/source-revision';
 import { INITIAL_TABLE_MAPPINGS } from '../database/schema';
+import { DiffPreview, DiffReportFiles, writeDiffPreviewReport } from '../utils/diff-preview';
+import { writeComparisonReport } from '../utils/comparison-report';
+import { SourceRegistry } from '../sources/source-registry';
+import { SourceRevision } from '../sources/types';
+import {
+  SourceState,
+  hashMigrationConfig,
+  hashSourceDocuments,
+  isSameContent,
+  isSameRevision,
+} from '../sources/source-state';
+import { LocalFileSource } from '../sources/local-file-source';
+import { HttpSource } from '../sources/http-source';
+import { MiraklApiSource } from '../sources/mirakl-source';
+import { appConfig } from '../config/environment';
+import { createDeadline, throwIfAborted } from '../utils/retry';
 import { CLIOptions } from '../cli';
 
 export interface MigrationProgress {
@@ -20,10 +52,19 @@ export interface MigrationProgress {
 
 export interface MigrationSummary {
   success: boolean;
+  runId?: number;
+  /** Dry-run report files */
+  reportFiles?: DiffReportFiles;
   totalTables: number;
   tablesProcessed: number;
+  /** Tables skipped because their source did not change since their last migration */
+  tablesUnchanged: number;
   totalRecords: number;
   recordsMigrated: number;
+  recordsUpdated: number;
+  recordsUnchanged: number;
+  recordsRemoved: number;
+  recordsPruned: number;
   recordsSkipped: number;
   totalErrors: number;
   duration: number;
@@ -31,25 +72,102 @@ export interface MigrationSummary {
     tableName: string;
     sourceUrl: string;
     recordsInserted: number;
+    recordsUpdated: number;
+    recordsUnchanged: number;
+    recordsRemoved: number;
+    recordsPruned: number;
     recordsSkipped: number;
     errors: string[];
     duration: number;
+    preview?: DiffPreview;
+    /** How each sheet's headers were mapped to rule columns */
+    mappingReports: ColumnMappingReport[];
+    /** ALTER TABLE statements run (planned in dry runs) to match the table schema */
+    schemaChanges?: string[];
+    /** How the batches were loaded (not set for dry runs) */
+    loadMethod?: LoadMethod;
+    /** Records read from the source per second of table migration */
+    recordsPerSecond?: number;
+    /** Records committed by the interrupted run this one resumed (--resume) */
+    recordsResumed?: number;
+    /** Skipped because the source did not change since the table's last migration */
+    unchanged?: boolean;
+    /** Category tree rebuilt from the migrated rules (not built in dry runs) */
+    categories?: CategoryTreeSummary;
+    /** Value lists stored and LIST rules checked against them (not in dry runs) */
+    valueLists?: ValueListSummary;
   }>;
 }
 
+export interface MarketplaceComparison {
+  comparison: AttributeComparison;
+  /** Configured tables left out because they were never migrated */
+  skippedTables: string[];
+  /** Exported report (when an output path was given) */
+  reportFile?: string;
+}
+
+/**
+ * The interrupted run --resume continues
+ */
+interface ResumedRun {
+  runId: number;
+  /** Checkpoints of the interrupted run, keyed by table name */
+  checkpoints: Map<string, TableCheckpoint>;
+}
+
+/**
+ * Everything processTable needs to tell whether a table's source changed
+ */
+interface SourceCheck {
+  /** What the table was last migrated from */
+  stored: SourceState | null;
+  /** Revision the source reported before the download */
+  revision: SourceRevision | null;
+  /** Skip the table when its source is unchanged */
+  skipUnchanged: boolean;
+}
+
+export interface RollbackResult extends RestoreResult {
+  runId: number;
+  duration: number;
+}
+
 export class MigrationService {
   private googleSheets: GoogleSheetsService;
+  private sources: SourceRegistry;
   private xlsxParser: XLSXParser;
   private dataTransformer: DataTransformer;
   private databaseMigration: DatabaseMigration;
+  private history: MigrationHistory;
+  private snapshots: RuleSnapshots;
+  private checkpoints: MigrationCheckpoints;
+  private categories: MiraklCategories;
+  private valueLists: MiraklValueLists;
+  private mappingProfiles: MappingProfileLoader;
+  private vocabularies: VocabularyLoader;
   private errorCollector: ErrorCollector;
 
   constructor(errorCollector: ErrorCollector) {
     this.errorCollector = errorCollector;
     this.googleSheets = new GoogleSheetsService();
+    // Google Sheets URLs must be matched before the generic HTTP source
+    this.sources = new SourceRegistry([
+      this.googleSheets,
+      new MiraklApiSource(),
+      new HttpSource(),
+      new LocalFileSource(),
+    ]);
     this.xlsxParser = new XLSXParser();
     this.dataTransformer = new DataTransformer();
     this.databaseMigration = new DatabaseMigration();
+    this.history = new MigrationHistory();
+    this.snapshots = new RuleSnapshots();
+    this.checkpoints = new MigrationCheckpoints();
+    this.categories = new MiraklCategories();
+    this.valueLists = new MiraklValueLists();
+    this.mappingProfiles = new MappingProfileLoader();
+    this.vocabularies = new VocabularyLoader();
   }
 
   /**
@@ -61,19 +179,43 @@ export class MigrationService {
     const startTime = Date.now();
     
     Logger.info('Starting complete migration process', { options });
+    let runId: number | undefined;
 
     try {
       // Step 1: Setup and validation
       await this.setupAndValidate(options);
 
-      // Step 2: Get migration configuration
+      // Step 2: Find the interrupted run to continue; it decides the mode and table
+      let resumed: ResumedRun | undefined;
+      if (options.resume) {
+        const interrupted = await this.findInterruptedRun(options);
+        resumed = { runId: interrupted.run.id, checkpoints: interrupted.checkpoints };
+        options = {
+          ...options,
+          mode: interrupted.run.options.mode || options.mode,
+          tableName: options.tableName || interrupted.run.options.tableName || undefined,
+          prune: !!interrupted.run.options.prune,
+        };
+      }
+
+      // Step 3: Get migration configuration
       const configurations = await this.getMigrationConfiguration(options);
 
-      // Step 3: Execute migrations for each table
-      const tableResults = await this.processTables(configurations, options);
+      // Step 4: Record the run so row-level changes and checkpoints can be linked to it
+      runId = await this.startRun(options, resumed?.runId);
 
-      // Step 4: Generate final summary
+      // Step 5: Execute migrations for each table
+      const tableResults = await this.processTables(configurations, options, runId, resumed);
+
+      // Step 6: Generate final summary
       const summary = this.generateMigrationSummary(tableResults, startTime);
+      summary.runId = runId;
+
+      await this.finishRun(runId, summary);
+
+      if (options.dryRun) {
+        summary.reportFiles = await this.writeDryRunReport(tableResults, options);
+      }
 
       Logger.info('Migration process completed', { summary });
       return summary;
@@ -86,17 +228,157 @@ export class MigrationService {
         error: error.message 
       });
 
+      await this.finishRun(runId, null, error.message);
+
       return {
         success: false,
         totalTables: 0,
         tablesProcessed: 0,
+        tablesUnchanged: 0,
         totalRecords: 0,
         recordsMigrated: 0,
+        recordsUpdated: 0,
+        recordsUnchanged: 0,
+        recordsRemoved: 0,
+        recordsPruned: 0,
         recordsSkipped: 0,
         totalErrors: this.errorCollector.getErrorCount(),
         duration,
         tableResults: [],
       };
+    } finally {
+      await this.history.releaseRunLocks();
+    }
+  }
+
+  /**
+   * Records the start of a migration run (dry runs and config-only runs are not recorded)
+   * @param options - CLI options
+   * @param resumedFrom - Interrupted run this run continues
+   * @returns Run id, or undefined when the run is not recorded
+   */
+  private async startRun(options: CLIOptions, resumedFrom?: number): Promise<number | undefined> {
+    if (options.dryRun || options.configOnly) {
+      return undefined;
+    }
+
+    const runId = await this.history.startRun({
+      command: 'migrate',
+      mode: options.mode,
+      tableName: options.tableName || null,
+      prune: options.prune,
+      resumedFrom: resumedFrom || null,
+    });
+
+    // Held until the run finishes, so --resume in another process can tell it is still executing
+    await this.history.lockRun(runId);
+    return runId;
+  }
+
+  /**
+   * Finds the latest migrate run and checks that it was interrupted. A run marked running is only resumed
+   * when its process is gone (its advisory lock is free); the lock is then kept until this run finishes,
+   * so two resumes cannot continue the same run.
+   * @param options - CLI options
+   * @returns Interrupted run and its table checkpoints
+   */
+  private async findInterruptedRun(
+    options: CLIOptions
+  ): Promise<{ run: MigrationRun; checkpoints: Map<string, TableCheckpoint> }> {
+    const runs = await this.history.listRuns(50);
+    const run = runs.find(candidate => candidate.options.command === 'migrate');
+
+    if (!run || run.status === 'completed') {
+      throw new Error(
+        run ? `Run ${run.id} completed; there is no interrupted migration run to resume` : 'No migration run to resume'
+      );
+    }
+
+    if (options.tableName && run.options.tableName && options.tableName !== run.options.tableName) {
+      throw new Error(`Run ${run.id} migrated ${run.options.tableName} only; it cannot be resumed for ${options.tableName}`);
+    }
+
+    if (!await this.history.lockRun(run.id)) {
+      throw new Error(`Run ${run.id} is still running in another process; wait for it to finish before resuming it`);
+    }
+
+    const checkpoints = await this.checkpoints.getCheckpoints(run.id);
+
+    Logger.info('Resuming interrupted migration run', {
+      runId: run.id,
+      status: run.status,
+      mode: run.options.mode,
+      tableName: run.options.tableName || 'all',
+      tablesStarted: checkpoints.size,
+      tablesCompleted: [...checkpoints.values()].filter(checkpoint => checkpoint.status === 'completed').length,
+    });
+
+    return { run, checkpoints };
+  }
+
+  /**
+   * Records the end of a migration run without letting history failures fail the migration
+   * @param runId - Run id (no-op when undefined)
+   * @param summary - Migration summary, or null when the run aborted
+   * @param error - Error message for aborted runs
+   */
+  private async finishRun(runId: number | undefined, summary: MigrationSummary | null, error?: string): Promise<void> {
+    if (runId === undefined) {
+      return;
+    }
+
+    try {
+      const tableResults = (summary?.tableResults || []).map(result => ({
+        tableName: result.tableName,
+        recordsInserted: result.recordsInserted,
+        recordsUpdated: result.recordsUpdated,
+        recordsUnchanged: result.recordsUnchanged,
+        recordsSkipped: result.recordsSkipped,
+        recordsRemoved: result.recordsRemoved,
+        errors: result.errors.length,
+        duration: result.duration,
+        recordsResumed: result.recordsResumed,
+        unchanged: result.unchanged,
+        loadMethod: result.loadMethod,
+        recordsPerSecond: result.recordsPerSecond,
+      }));
+      const status = summary && summary.success ? 'completed' : 'failed';
+
+      await this.history.finishRun(runId, status, tableResults, error);
+    } catch (historyError: any) {
+      Logger.error('Failed to record migration run result', { runId, error: historyError.message });
+    }
+  }
+
+  /**
+   * Writes the dry-run comparison of every table as JSON and markdown reports
+   * @param tableResults - Results from all table migrations
+   * @param options - CLI options
+   * @returns Report files, or undefined if no table produced a preview or writing failed
+   */
+  private async writeDryRunReport(
+    tableResults: MigrationSummary['tableResults'],
+    options: CLIOptions
+  ): Promise<DiffReportFiles | undefined> {
+    const previews = tableResults
+      .map(result => result.preview)
+      .filter((preview): preview is DiffPreview => !!preview);
+
+    if (previews.length === 0) {
+      return undefined;
+    }
+
+    const basePath = options.reportPath || `reports/dry-run-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+    try {
+      return await writeDiffPreviewReport(previews, basePath);
+    } catch (error: any) {
+      Logger.error('Failed to write dry-run report', { basePath, error: error.message });
+      this.errorCollector.addError('MigrationService', 'Failed to write dry-run report', {
+        basePath,
+        error: error.message,
+      });
+      return undefined;
     }
   }
 
@@ -136,6 +418,8 @@ export class MigrationService {
   private async getMigrationConfiguration(options: CLIOptions): Promise<Array<{
     tableName: string;
     sourceUrl: string;
+    mappingProfile: string | null;
+    sourceState: SourceState | null;
   }>> {
     if (options.configOnly) {
       return [];
@@ -147,6 +431,8 @@ export class MigrationService {
     let configurations = dbConfigurations.map(config => ({
       tableName: config.table_name,
       sourceUrl: config.google_sheets_url,
+      mappingProfile: config.mapping_profile,
+      sourceState: config.source_state,
     }));
 
     // Filter by specific table if requested
@@ -156,6 +442,15 @@ export class MigrationService {
       if (configurations.length === 0) {
         throw new Error(`Table '${options.tableName}' not found in configuration`);
       }
+
+      // A one-off source (e.g. a file sent by a supplier) replaces the configured one for this run
+      if (options.source) {
+        configurations[0].sourceUrl = options.source;
+      }
+
+      if (options.mappingProfile) {
+        configurations[0].mappingProfile = options.mappingProfile;
+      }
     }
 
     Logger.info('Migration configuration loaded', { 
@@ -170,11 +465,20 @@ export class MigrationService {
    * Process all configured tables
    * @param configurations - Table configurations
    * @param options - CLI options
+   * @param runId - Migration run id for change tracking
+   * @param resumed - Interrupted run this run continues (--resume)
    * @returns Array of table results
    */
   private async processTables(
-    configurations: Array<{ tableName: string; sourceUrl: string }>,
-    options: CLIOptions
+    configurations: Array<{
+      tableName: string;
+      sourceUrl: string;
+      mappingProfile: string | null;
+      sourceState: SourceState | null;
+    }>,
+    options: CLIOptions,
+    runId?: number,
+    resumed?: ResumedRun
   ): Promise<MigrationSummary['tableResults']> {
     const tableResults: MigrationSummary['tableResults'] = [];
 
@@ -186,16 +490,51 @@ export class MigrationService {
         tableName: config.tableName, 
         tableNumber, 
         totalTables: configurations.length,
-        sourceUrl: config.sourceUrl
+        sourceUrl: config.sourceUrl,
+        mappingProfile: config.mappingProfile || DEFAULT_MAPPING_PROFILE_NAME
       });
 
+      const checkpoint = resumed?.checkpoints.get(config.tableName);
+      if (checkpoint?.status === 'completed') {
+        tableResults.push(await this.skipCompletedTable(config.tableName, config.sourceUrl, checkpoint, runId));
+        continue;
+      }
+
+      // Once the table runs past MIGRATION_TIMEOUT, pending downloads are aborted and loads stop between
+      // batches, keeping what was committed
+      const deadline = createDeadline(
+        appConfig.migration.timeout,
+        `Table ${config.tableName} exceeded MIGRATION_TIMEOUT (${appConfig.migration.timeout / 1000}s); ` +
+        `batches committed before the timeout are kept${options.dryRun ? '' : ', continue with --resume'}`
+      );
+
       try {
-        const result = await this.processTable(config.tableName, config.sourceUrl, options);
+        // Unfinished (resumed) tables and one-off mapping profiles are always migrated
+        const sourceCheck: SourceCheck = {
+          stored: config.sourceState,
+          revision: await this.sources.getRevision(config.sourceUrl, deadline.signal),
+          skipUnchanged: !options.force && !checkpoint && !options.mappingProfile,
+        };
+
+        const result = await this.processTable(
+          config.tableName,
+          config.sourceUrl,
+          config.mappingProfile,
+          options,
+          runId,
+          checkpoint,
+          sourceCheck,
+          deadline.signal
+        );
         tableResults.push(result);
 
         Logger.info('Table processing completed', { 
           tableName: config.tableName,
           recordsInserted: result.recordsInserted,
+          recordsUpdated: result.recordsUpdated,
+          recordsUnchanged: result.recordsUnchanged,
+          recordsRemoved: result.recordsRemoved,
+          recordsPruned: result.recordsPruned,
           recordsSkipped: result.recordsSkipped,
           errors: result.errors.length
         });
@@ -210,16 +549,147 @@ export class MigrationService {
           tableName: config.tableName,
           sourceUrl: config.sourceUrl,
           recordsInserted: 0,
+          recordsUpdated: 0,
+          recordsUnchanged: 0,
+          recordsRemoved: 0,
+          recordsPruned: 0,
           recordsSkipped: 0,
           errors: [error.message],
           duration: 0,
+          mappingReports: [],
         });
+      } finally {
+        deadline.clear();
       }
     }
 
     return tableResults;
   }
 
+  /**
+   * Builds the result of a table skipped because its source did not change
+   * @param tableName - Rule table name
+   * @param sourceUrl - Source location
+   * @returns Table result without any write
+   */
+  private createUnchangedResult(tableName: string, sourceUrl: string): MigrationSummary['tableResults'][0] {
+    return {
+      tableName,
+      sourceUrl,
+      recordsInserted: 0,
+      recordsUpdated: 0,
+      recordsUnchanged: 0,
+      recordsRemoved: 0,
+      recordsPruned: 0,
+      recordsSkipped: 0,
+      errors: [],
+      duration: 0,
+      mappingReports: [],
+      unchanged: true,
+    };
+  }
+
+  /**
+   * Records what a table was migrated from; failures are only logged since the data is committed
+   * @param tableName - Rule table name
+   * @param state - Source location, revision and content hash
+   */
+  private async saveSourceState(tableName: string, state: SourceState): Promise<void> {
+    try {
+      await this.databaseMigration.saveSourceState(tableName, state);
+    } catch (error: any) {
+      Logger.warn('Failed to record source state', { tableName, error: error.message });
+    }
+  }
+
+  /**
+   * Skips a table the interrupted run finished, carrying its checkpoint over so a later --resume skips it too
+   * @param tableName - Rule table name
+   * @param sourceUrl - Configured source
+   * @param checkpoint - Completed checkpoint of the interrupted run
+   * @param runId - Current run id
+   * @returns Table result without any write
+   */
+  private async skipCompletedTable(
+    tableName: string,
+    sourceUrl: string,
+    checkpoint: TableCheckpoint,
+    runId?: number
+  ): Promise<MigrationSummary['tableResults'][0]> {
+    Logger.info('Table already migrated by the interrupted run - skipped', { tableName, runId: checkpoint.runId });
+
+    if (runId) {
+      await this.checkpoints.startTable(runId, tableName, checkpoint.sourceRevision, checkpoint);
+      await this.checkpoints.completeTable(runId, tableName);
+    }
+
+    return {
+      tableName,
+      sourceUrl,
+      recordsInserted: 0,
+      recordsUpdated: 0,
+      recordsUnchanged: 0,
+      recordsRemoved: 0,
+      recordsPruned: 0,
+      recordsSkipped: 0,
+      recordsResumed: checkpoint.recordsCommitted,
+      errors: [],
+      duration: 0,
+      mappingReports: [],
+    };
+  }
+
+  /**
+   * Records that this run started a table and works out where its load starts
+   * @param tableName - Rule table name
+   * @param sourceRevision - Revision of the parsed source
+   * @param options - CLI options
+   * @param runId - Current run id (nothing is recorded without one)
+   * @param checkpoint - Checkpoint of the interrupted run, when resuming
+   * @returns Progress the load continues from, or undefined to load every record
+   */
+  private async startTableCheckpoint(
+    tableName: string,
+    sourceRevision: string,
+    options: CLIOptions,
+    runId?: number,
+    checkpoint?: TableCheckpoint
+  ): Promise<MigrationOptions['resumeFrom']> {
+    if (checkpoint && checkpoint.sourceRevision !== sourceRevision) {
+      throw new Error(
+        `Source of ${tableName} changed since run ${checkpoint.runId} was interrupted; refusing to resume it ` +
+        `(run without --resume to migrate the table from the start)`
+      );
+    }
+
+    // The shadow table of an interrupted replace run is discarded, so replace mode loads everything again
+    const resumable = checkpoint && options.mode !== 'replace' ? checkpoint : undefined;
+    if (checkpoint && !resumable) {
+      Logger.info('Replace mode reloads the table from the start', { tableName, interruptedRun: checkpoint.runId });
+    }
+
+    if (runId && !options.dryRun) {
+      await this.checkpoints.startTable(runId, tableName, sourceRevision, resumable);
+    }
+
+    return resumable && resumable.recordsCommitted > 0
+      ? { batches: resumable.batchesCommitted, records: resumable.recordsCommitted }
+      : undefined;
+  }
+
+  /**
+   * Marks a table as finished so --resume skips it; failures are only logged since the data is committed
+   * @param tableName - Rule table name
+   * @param runId - Current run id
+   */
+  private async completeTableCheckpoint(tableName: string, runId: number): Promise<void> {
+    try {
+      await this.checkpoints.completeTable(runId, tableName);
+    } catch (error: any) {
+      Logger.warn('Failed to record table checkpoint', { tableName, runId, error: error.message });
+    }
+  }
+
   /**
    * Validates Google Sheets access via HTTP without authentication
    * @param exportUrl - The XLSX export URL
@@ -272,98 +742,152 @@ export class MigrationService {
    * Process a single table migration
    * @param tableName - Target table name
    * @param sourceUrl - Google Sheets URL
+   * @param mappingProfileName - Column mapping profile (null for the built-in default)
    * @param options - CLI options
+   * @param runId - Migration run id for change tracking
+   * @param checkpoint - Checkpoint of the interrupted run this run continues (--resume)
+   * @param sourceCheck - Stored and current source revision, to skip unchanged downloads
+   * @param signal - Aborts once the table runs past MIGRATION_TIMEOUT
    * @returns Table migration result
    */
   private async processTable(
     tableName: string, 
     sourceUrl: string, 
-    options: CLIOptions
+    mappingProfileName: string | null,
+    options: CLIOptions,
+    runId?: number,
+    checkpoint?: TableCheckpoint,
+    sourceCheck?: SourceCheck,
+    signal?: AbortSignal
   ): Promise<MigrationSummary['tableResults'][0]> {
     const startTime = Date.now();
+    const mappingReports: ColumnMappingReport[] = [];
 
     try {
-      // Step 1: Skip validation and attempt direct download (authentication handled by download method)
-      Logger.debug('Skipping validation - will attempt direct XLSX download', { tableName, sourceUrl });
-
-      // Step 2: Download XLSX data
-      Logger.debug('Downloading XLSX data', { tableName });
-      const xlsxBuffer = await this.googleSheets.downloadXLSX(sourceUrl);
-
-      // Step 3: Parse XLSX data
-      Logger.debug('Parsing XLSX data', { tableName, bufferSize: xlsxBuffer.length });
-      const parsedSheets = await this.xlsxParser.parseXLSXBuffer(
-        xlsxBuffer, 
-        tableName, 
-        this.errorCollector
-      );
-
-      // Step 4: Transform data
-      Logger.debug('Transforming data', { tableName, sheetsCount: parsedSheets.length });
-      const transformResult = await this.dataTransformer.transformSheetsData(
-        parsedSheets,
-        tableName,
-        this.errorCollector
-      );
+      // Step 1: Skip validation and attempt direct download (authentication handled by the source)
+      Logger.debug('Skipping validation - will attempt direct download', { tableName, sourceUrl });
+
+      // Load the mapping profile and its vocabulary first so a broken profile fails before anything is downloaded
+      const mappingProfile = await this.mappingProfiles.load(mappingProfileName);
+      const tableSchema = getTableSchema(mappingProfile);
+      const vocabulary = await this.vocabularies.load(mappingProfile.vocabulary);
+      const configHash = hashMigrationConfig({
+        profile: mappingProfile,
+        vocabulary,
+        schema: tableSchema,
+        mode: options.mode || 'append',
+      });
 
-      // Step 5: Handle large dataset streaming
-      if (transformResult.records.length === 0 && transformResult.totalProcessed > 0) {
-        Logger.info('Large dataset detected - using streaming migration', {
+      // A source still at the revision the table was migrated from, with the same settings, is not downloaded
+      if (
+        sourceCheck?.skipUnchanged &&
+        isSameRevision(sourceCheck.stored, sourceUrl, sourceCheck.revision, configHash) &&
+        await this.databaseMigration.tableExists(tableName)
+      ) {
+        Logger.info('Source revision unchanged - table skipped', {
           tableName,
-          totalRows: transformResult.totalProcessed
+          revisionId: sourceCheck.revision!.revisionId,
+          modifiedTime: sourceCheck.revision!.modifiedTime,
         });
+        return this.createUnchangedResult(tableName, sourceUrl);
+      }
 
-        // Use streaming migration for large datasets
-        const migrationOptions: MigrationOptions = {
-          dryRun: options.dryRun,
-          batchSize: 500, // Smaller batches for streaming
-          skipExisting: true,
-          truncateTable: false,
-        };
+      // Step 2: Fetch the source documents (Google Sheets workbook, local files, ...)
+      Logger.debug('Fetching source documents', { tableName });
+      const documents = await this.sources.fetch(sourceUrl, signal);
+      throwIfAborted(signal);
+      const sourceState: SourceState = {
+        location: sourceUrl,
+        revisionId: sourceCheck?.revision?.revisionId ?? null,
+        modifiedTime: sourceCheck?.revision?.modifiedTime ?? null,
+        contentHash: hashSourceDocuments(documents),
+        configHash,
+      };
 
-        const migrationResult = await this.databaseMigration.migrateToTableStreaming(
-          tableName,
-          this.dataTransformer,
-          migrationOptions,
-          this.errorCollector
-        );
+      // Sources without revisions (and Drive files touched without edits) are compared by content
+      if (
+        sourceCheck?.skipUnchanged &&
+        isSameContent(sourceCheck.stored, sourceUrl, sourceState.contentHash!, configHash) &&
+        await this.databaseMigration.tableExists(tableName)
+      ) {
+        Logger.info('Source content unchanged - table skipped', { tableName, contentHash: sourceState.contentHash });
+        if (!options.dryRun) {
+          await this.saveSourceState(tableName, sourceState);
+        }
+        return this.createUnchangedResult(tableName, sourceUrl);
+      }
 
-        return {
-          tableName,
-          sourceUrl,
-          recordsInserted: migrationResult.recordsInserted,
-          recordsSkipped: migrationResult.recordsSkipped,
-          errors: migrationResult.errors,
-          duration: Date.now() - startTime,
-        };
+      // Step 3: Parse every document; rule rows are only read as the migration consumes the batches
+      const parsedSheets: ParsedSheet[] = [];
+      const valueListSheets: ParsedSheet[] = [];
+      for (const document of documents) {
+        Logger.debug('Parsing source document', { tableName, file: document.name, bufferSize: document.buffer.length });
+        const sourceName = documents.length > 1 ? `${tableName} (${document.name})` : tableName;
+        const sheets = await this.xlsxParser.parseDocument(document, sourceName, this.errorCollector, {
+          profile: mappingProfile,
+          strictHeaders: options.strictHeaders,
+        });
+        parsedSheets.push(...sheets.filter(sheet => !sheet.valueLists));
+        valueListSheets.push(...sheets.filter(sheet => sheet.valueLists));
+        mappingReports.push(...sheets.filter(sheet => sheet.mapping).map(sheet => sheet.mapping));
       }
 
-      // Step 5: Validate transformed data (normal path)
-      const validationResult = await this.dataTransformer.validateTransformedRecords(
-        transformResult.records,
-        tableName,
-        this.errorCollector
-      );
+      const valueLists = mergeValueLists(valueListSheets.flatMap(sheet => sheet.valueLists));
+      const valueListErrors = valueListSheets.flatMap(sheet => sheet.errors.map(error => `${sheet.sheetName}: ${error}`));
+      throwIfAborted(signal);
+
+      // A resumed table must read exactly what the interrupted run read
+      const sourceRevision = getSourceRevision([...parsedSheets, ...valueListSheets]);
+      const resumeFrom = await this.startTableCheckpoint(tableName, sourceRevision, options, runId, checkpoint);
 
-      // Step 6: Migrate to database (normal path)
+      // Step 4: Transform and validate the records as the database migration reads them
+      const transformation = this.dataTransformer.transformRecords(parsedSheets, tableName, this.errorCollector, {
+        schema: tableSchema,
+        vocabulary,
+        batchSize: appConfig.migration.batchSize,
+      });
+
+      // Step 5: Migrate to database
       const migrationOptions: MigrationOptions = {
         dryRun: options.dryRun,
-        batchSize: 1000,
+        batchSize: appConfig.migration.batchSize,
         skipExisting: true,
         truncateTable: false,
+        mode: options.mode,
+        loadMethod: options.loadMethod,
+        expectedRecords: () => transformation.result.validRecords,
+        rejectedRecords: () => transformation.result.skippedRecords +
+          parsedSheets.reduce((sum, sheet) => sum + (sheet.rejectedRows || 0), 0),
+        prune: options.prune,
+        runId,
+        resumeFrom,
+        schema: tableSchema,
+        signal,
       };
 
       Logger.debug('Starting database migration', { 
         tableName, 
-        recordCount: validationResult.validRecords.length 
+        sourceRows: parsedSheets.reduce((sum, sheet) => sum + sheet.totalRows, 0)
       });
 
       const migrationResult = await this.databaseMigration.migrateToTable(
         tableName,
-        validationResult.validRecords,
+        transformation.batches,
         migrationOptions,
         this.errorCollector
       );
+      if (!options.dryRun && migrationResult.errors.length === 0) {
+        if (runId) {
+          await this.completeTableCheckpoint(tableName, runId);
+        }
+        // A source with rejected rows or unknown terms is migrated again next run, so they keep being reported
+        if (transformation.result.errors.length === 0 && migrationOptions.rejectedRecords() === 0) {
+          await this.saveSourceState(tableName, sourceState);
+        }
+      }
+
+      const categories = await this.rebuildCategories(tableName, options);
+      const valueListSummary = await this.loadValueLists(tableName, valueLists, options);
 
       const duration = Date.now() - startTime;
 
@@ -371,17 +895,33 @@ export class MigrationService {
         tableName,
         sourceUrl,
         recordsInserted: migrationResult.recordsInserted,
-        recordsSkipped: migrationResult.recordsSkipped + validationResult.invalidRecords,
+        recordsUpdated: migrationResult.recordsUpdated,
+        recordsUnchanged: migrationResult.recordsUnchanged,
+        recordsRemoved: migrationResult.recordsRemoved,
+        recordsPruned: migrationResult.recordsPruned,
+        recordsSkipped: migrationResult.recordsSkipped + transformation.result.skippedRecords,
         errors: [
-          ...transformResult.errors,
-          ...validationResult.errors,
-          ...migrationResult.errors
+          ...transformation.result.errors,
+          ...valueListErrors,
+          ...migrationResult.errors,
+          ...this.getMissingListErrors(valueListSummary),
         ],
         duration,
+        preview: migrationResult.preview,
+        mappingReports,
+        schemaChanges: migrationResult.schemaChanges,
+        recordsResumed: migrationResult.recordsResumed,
+        loadMethod: migrationResult.loadMethod,
+        recordsPerSecond: migrationResult.recordsPerSecond,
+        categories,
+        valueLists: valueListSummary,
       };
 
     } catch (error: any) {
       const duration = Date.now() - startTime;
+      if (error instanceof HeaderMappingError) {
+        mappingReports.push(...error.reports);
+      }
       this.errorCollector.addError('MigrationService', `Table processing failed: ${tableName}`, {
         tableName,
         sourceUrl,
@@ -392,13 +932,90 @@ export class MigrationService {
         tableName,
         sourceUrl,
         recordsInserted: 0,
+        recordsUpdated: 0,
+        recordsUnchanged: 0,
+        recordsRemoved: 0,
+        recordsPruned: 0,
         recordsSkipped: 0,
         errors: [error.message],
         duration,
+        mappingReports,
       };
     }
   }
 
+  /**
+   * Rebuilds a table's category tree after its rules were migrated, without failing the table
+   * @param tableName - Rule table name
+   * @param options - CLI options
+   * @returns Tree summary, or undefined in dry runs and when the rebuild failed
+   */
+  private async rebuildCategories(tableName: string, options: CLIOptions): Promise<CategoryTreeSummary | undefined> {
+    if (options.dryRun) {
+      return undefined;
+    }
+
+    try {
+      return await this.categories.rebuild(tableName);
+    } catch (error: any) {
+      Logger.error('Failed to rebuild category tree', { tableName, error: error.message });
+      this.errorCollector.addError('MigrationService', `Failed to rebuild category tree: ${tableName}`, {
+        tableName,
+        error: error.message,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores the value lists read for a table (kept from earlier runs when the sources have none)
+   * and checks the table's LIST rules against the stored lists, without failing the table
+   * @param tableName - Rule table name
+   * @param lists - Value lists read from the table's sources
+   * @param options - CLI options
+   * @returns Value list summary, or undefined in dry runs and when storing or checking failed
+   */
+  private async loadValueLists(
+    tableName: string,
+    lists: ValueList[],
+    options: CLIOptions
+  ): Promise<ValueListSummary | undefined> {
+    if (options.dryRun) {
+      return undefined;
+    }
+
+    try {
+      if (lists.length > 0) {
+        await this.valueLists.replaceLists(tableName, lists);
+      }
+
+      const summary = await this.valueLists.checkListReferences(tableName);
+      if (summary.missing.length > 0) {
+        this.errorCollector.addError('MigrationService', `LIST rules reference missing value lists: ${tableName}`, {
+          tableName,
+          missing: summary.missing,
+        });
+      }
+      return summary;
+    } catch (error: any) {
+      Logger.error('Failed to load value lists', { tableName, error: error.message });
+      this.errorCollector.addError('MigrationService', `Failed to load value lists: ${tableName}`, {
+        tableName,
+        error: error.message,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists the LIST rules of a value list check whose list is missing, as table errors
+   * @param summary - Value list summary
+   * @returns Error messages
+   */
+  private getMissingListErrors(summary: ValueListSummary | undefined): string[] {
+    return (summary?.missing || []).map(reference => `Value list not found for LIST rule ${reference}`);
+  }
+
   /**
    * Generate final migration summary
    * @param tableResults - Results from all table migrations
@@ -415,8 +1032,13 @@ export class MigrationService {
       success: true,
       totalTables: tableResults.length,
       tablesProcessed: tableResults.length,
+      tablesUnchanged: tableResults.filter(result => result.unchanged).length,
       totalRecords: 0,
       recordsMigrated: 0,
+      recordsUpdated: 0,
+      recordsUnchanged: 0,
+      recordsRemoved: 0,
+      recordsPruned: 0,
       recordsSkipped: 0,
       totalErrors: this.errorCollector.getErrorCount(),
       duration,
@@ -425,8 +1047,12 @@ export class MigrationService {
 
     // Calculate totals
     for (const result of tableResults) {
-      summary.totalRecords += result.recordsInserted + result.recordsSkipped;
+      summary.totalRecords += result.recordsInserted + result.recordsUpdated + result.recordsUnchanged + result.recordsSkipped;
       summary.recordsMigrated += result.recordsInserted;
+      summary.recordsUpdated += result.recordsUpdated;
+      summary.recordsUnchanged += result.recordsUnchanged;
+      summary.recordsRemoved += result.recordsRemoved;
+      summary.recordsPruned += result.recordsPruned;
       summary.recordsSkipped += result.recordsSkipped;
       
       if (result.errors.length > 0) {
@@ -443,6 +1069,9 @@ export class MigrationService {
       success: summary.success,
       totalTables: summary.totalTables,
       recordsMigrated: summary.recordsMigrated,
+      recordsUpdated: summary.recordsUpdated,
+      recordsUnchanged: summary.recordsUnchanged,
+      recordsRemoved: summary.recordsRemoved,
       totalErrors: summary.totalErrors,
       durationMs: summary.duration,
     });
@@ -451,24 +1080,42 @@ export class MigrationService {
   }
 
   /**
-   * Validates all Google Sheets URLs
+   * Validates every configured source location through the source that reads it
    * @returns Validation results
    */
   async validateAllSheets(): Promise<{ valid: string[]; invalid: string[] }> {
-    Logger.info('Validating all configured Google Sheets URLs');
+    Logger.info('Validating all configured source locations');
 
     const configurations = await this.databaseMigration.getMigrationConfiguration();
     const urls = configurations.map(config => config.google_sheets_url);
+    const valid: string[] = [];
+    const invalid: string[] = [];
 
-    const result = await this.googleSheets.validateAllSheets(urls, this.errorCollector);
+    for (const url of urls) {
+      try {
+        if (await this.sources.validate(url)) {
+          valid.push(url);
+          Logger.debug('Sheet validation passed', { url });
+        } else {
+          invalid.push(url);
+          this.errorCollector.addError('MigrationService', `Sheet validation failed for URL: ${url}`, { url });
+        }
+      } catch (error: any) {
+        invalid.push(url);
+        this.errorCollector.addError('MigrationService', `Sheet validation error for URL: ${url}`, {
+          url,
+          error: error.message,
+        });
+      }
+    }
 
     Logger.info('Sheet validation completed', {
       totalSheets: urls.length,
-      validSheets: result.valid.length,
-      invalidSheets: result.invalid.length,
+      validSheets: valid.length,
+      invalidSheets: invalid.length,
     });
 
-    return result;
+    return { valid, invalid };
   }
 
   /**
@@ -511,6 +1158,168 @@ export class MigrationService {
     return status;
   }
 
+  /**
+   * Restores a rule table to its contents after a previous migration run.
+   * The rollback is recorded as a run of its own, with its change events and snapshot.
+   * @param tableName - Rule table name
+   * @param toRunId - Run whose table state is restored
+   * @returns Rollback result
+   */
+  async rollbackTable(tableName: string, toRunId: number): Promise<RollbackResult> {
+    const startTime = Date.now();
+
+    const targetRun = await this.history.getRun(toRunId);
+    if (!targetRun) {
+      throw new Error(`Migration run not found: ${toRunId}`);
+    }
+
+    const snapshotRunId = await this.snapshots.findSnapshotRun(tableName, toRunId);
+    if (snapshotRunId === null) {
+      const available = await this.snapshots.listSnapshots(tableName);
+      throw new Error(
+        `No snapshot of ${tableName} at or before run ${toRunId}. ` +
+        `Available runs: ${available.length > 0 ? available.map(snapshot => snapshot.runId).join(', ') : 'none'}`
+      );
+    }
+
+    const runId = await this.history.startRun({ command: 'rollback', tableName, toRunId, snapshotRunId });
+
+    try {
+      const restored = await this.snapshots.restoreSnapshot(tableName, snapshotRunId, runId);
+      const duration = Date.now() - startTime;
+
+      // The restored state becomes the latest rollback target for this table
+      await this.snapshots.takeSnapshot(runId, tableName);
+      await this.snapshots.pruneSnapshots(tableName, appConfig.migration.snapshotRetentionRuns);
+      await this.categories.rebuild(tableName);
+      await this.valueLists.checkListReferences(tableName);
+      // The table no longer matches its source, so the next run must migrate it even if the source is unchanged
+      await this.databaseMigration.saveSourceState(tableName, null);
+
+      await this.history.finishRun(runId, 'completed', [{
+        tableName,
+        recordsInserted: restored.changes.added,
+        recordsUpdated: restored.changes.modified,
+        recordsUnchanged: 0,
+        recordsSkipped: 0,
+        recordsRemoved: restored.changes.removed,
+        errors: 0,
+        duration,
+      }]);
+
+      return { ...restored, runId, duration };
+
+    } catch (error: any) {
+      Logger.error('Rollback failed', { tableName, toRunId, runId, error: error.message });
+      this.errorCollector.addError('MigrationService', `Rollback failed: ${tableName}`, {
+        tableName,
+        toRunId,
+        error: error.message,
+      });
+
+      await this.history.finishRun(runId, 'failed', [], error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists recent migration runs
+   * @param limit - Maximum number of runs
+   * @returns Runs, newest first
+   */
+  async getRunHistory(limit: number = 20): Promise<MigrationRun[]> {
+    return this.history.listRuns(limit);
+  }
+
+  /**
+   * Gets a migration run with its row-level changes
+   * @param runId - Run id
+   * @param tableName - Optional table filter
+   * @param limit - Maximum number of changes
+   * @returns Run and changes, or null if the run does not exist
+   */
+  async getRunDetails(
+    runId: number,
+    tableName?: string,
+    limit?: number
+  ): Promise<{ run: MigrationRun; changes: StoredRuleChange[] } | null> {
+    const run = await this.history.getRun(runId);
+    if (!run) {
+      return null;
+    }
+
+    const changes = await this.history.getRunChanges(runId, tableName, limit);
+    return { run, changes };
+  }
+
+  /**
+   * Lists the category tree of a table as built by its last migration
+   * @param tableName - Rule table name
+   * @returns Categories ordered by path
+   */
+  async getCategories(tableName: string): Promise<MiraklCategory[]> {
+    return this.categories.listCategories(tableName);
+  }
+
+  /**
+   * Gets a category with every rule that applies to it, inherited rules included
+   * @param tableName - Rule table name
+   * @param code - Category code
+   * @returns Category and rules, or null if the category does not exist
+   */
+  async getCategoryRules(
+    tableName: string,
+    code: string
+  ): Promise<{ category: MiraklCategory; rules: CategoryRule[] } | null> {
+    const category = await this.categories.getCategory(tableName, code);
+    if (!category) {
+      return null;
+    }
+
+    const rules = await this.categories.getRulesForCategory(tableName, code);
+    return { category, rules };
+  }
+
+  /**
+   * Compares the attributes of the configured rule tables: requirement level, type and validations
+   * of every attribute code in every marketplace, with the conflicts between marketplaces
+   * @param tableNames - Tables to compare (default: every configured table)
+   * @param outputPath - Report path (.csv, .xlsx or .json)
+   * @returns Attribute matrix
+   */
+  async compareMarketplaces(tableNames: string[] = [], outputPath?: string): Promise<MarketplaceComparison> {
+    const configured = (await this.databaseMigration.getMigrationConfiguration()).map(config => config.table_name);
+    const unknown = tableNames.filter(tableName => !configured.includes(tableName));
+    if (unknown.length > 0) {
+      throw new Error(`Table '${unknown[0]}' not found in configuration`);
+    }
+
+    const marketplaces: MarketplaceRules[] = [];
+    const skippedTables: string[] = [];
+    for (const tableName of tableNames.length > 0 ? tableNames : configured) {
+      const rules = await this.databaseMigration.getComparedRules(tableName);
+      if (rules) {
+        marketplaces.push({ tableName, rules });
+      } else {
+        skippedTables.push(tableName);
+      }
+    }
+
+    if (skippedTables.length > 0) {
+      Logger.warn('Tables not migrated yet are left out of the comparison', { skippedTables });
+    }
+
+    const comparison = buildAttributeComparison(marketplaces);
+    Logger.info('Marketplaces compared', {
+      tables: comparison.tables,
+      attributes: comparison.rows.length,
+      conflicting: comparison.rows.filter(row => row.conflicts.length > 0).length,
+    });
+
+    const reportFile = outputPath ? await writeComparisonReport(comparison, outputPath) : undefined;
+    return { comparison, skippedTables, reportFile };
+  }
+
   /**
    * Closes all connections and cleans up resources
    */
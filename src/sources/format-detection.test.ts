@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { detectFormat, formatFromExtension, isZipArchive } from './format-detection';
+
+function workbookBuffer(bookType: 'xlsx' | 'ods'): Buffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['code'], ['EAN']]), 'Rules');
+  return XLSX.write(workbook, { type: 'buffer', bookType });
+}
+
+describe('formatFromExtension', () => {
+  it('maps spreadsheet extensions case-insensitively', () => {
+    assert.equal(formatFromExtension('.xlsx'), 'xlsx');
+    assert.equal(formatFromExtension('.XLSM'), 'xlsx');
+    assert.equal(formatFromExtension('.xls'), 'xlsx');
+    assert.equal(formatFromExtension('.ods'), 'ods');
+    assert.equal(formatFromExtension('.csv'), 'csv');
+  });
+
+  it('returns null for other files', () => {
+    assert.equal(formatFromExtension('.txt'), null);
+    assert.equal(formatFromExtension(''), null);
+  });
+});
+
+describe('detectFormat', () => {
+  const csv = Buffer.from('code,label\nEAN,EAN\n');
+
+  it('prefers the content type', () => {
+    assert.equal(detectFormat('text/csv; charset=utf-8', 'rules.xlsx', csv), 'csv');
+    assert.equal(
+      detectFormat('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', undefined, Buffer.alloc(0)),
+      'xlsx'
+    );
+  });
+
+  it('falls back to the file name', () => {
+    assert.equal(detectFormat('application/octet-stream', 'rules.ods', Buffer.alloc(0)), 'ods');
+  });
+
+  it('tells XLSX from ODS archives by their contents', () => {
+    const xlsx = workbookBuffer('xlsx');
+    const ods = workbookBuffer('ods');
+
+    assert.equal(isZipArchive(xlsx), true);
+    assert.equal(detectFormat('application/octet-stream', undefined, xlsx), 'xlsx');
+    assert.equal(detectFormat(undefined, 'download', ods), 'ods');
+  });
+
+  it('detects delimited text served as text/plain', () => {
+    assert.equal(detectFormat('text/plain', undefined, csv), 'csv');
+  });
+
+  it('rejects HTML pages and unknown binaries', () => {
+    assert.equal(detectFormat('text/html', undefined, Buffer.from('<!DOCTYPE html><html>Sign in, please</html>')), null);
+    assert.equal(detectFormat('application/octet-stream', undefined, Buffer.from([1, 2, 3, 4])), null);
+    assert.equal(isZipArchive(Buffer.from('PK')), false);
+  });
+});
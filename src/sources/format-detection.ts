@@ -0,0 +1,73 @@
+import { SourceFormat } from './types';
+
+const FORMATS_BY_EXTENSION: Record<string, SourceFormat> = {
+  '.xlsx': 'xlsx',
+  '.xlsm': 'xlsx',
+  '.xls': 'xlsx',
+  '.ods': 'ods',
+  '.csv': 'csv',
+};
+
+// XLSX and ODS files are ZIP archives starting with "PK\x03\x04"
+const ZIP_SIGNATURE = 0x04034b50;
+const ODS_MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+const FORMATS_BY_CONTENT_TYPE: Record<string, SourceFormat> = {
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-excel.sheet.macroenabled.12': 'xlsx',
+  'application/vnd.ms-excel': 'xlsx',
+  [ODS_MIME_TYPE]: 'ods',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+};
+
+/**
+ * Maps a file extension to a source format
+ * @param extension - Extension including the dot
+ * @returns Format, or null for unsupported files
+ */
+export function formatFromExtension(extension: string): SourceFormat | null {
+  return FORMATS_BY_EXTENSION[extension.toLowerCase()] || null;
+}
+
+/**
+ * Checks whether a buffer is a ZIP archive (XLSX, ODS)
+ * @param buffer - File contents
+ * @returns True when the ZIP local file header signature is present
+ */
+export function isZipArchive(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_SIGNATURE;
+}
+
+/**
+ * Detects the format of a downloaded file from its content type, file name and contents
+ * @param contentType - Content-Type header, if any
+ * @param fileName - File name from Content-Disposition or the URL path, if any
+ * @param buffer - File contents
+ * @returns Detected format, or null if the file is not a spreadsheet
+ */
+export function detectFormat(contentType: string | undefined, fileName: string | undefined, buffer: Buffer): SourceFormat | null {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (FORMATS_BY_CONTENT_TYPE[mimeType]) {
+    return FORMATS_BY_CONTENT_TYPE[mimeType];
+  }
+
+  const extension = fileName && fileName.includes('.') ? fileName.slice(fileName.lastIndexOf('.')) : '';
+  const byExtension = formatFromExtension(extension);
+  if (byExtension) {
+    return byExtension;
+  }
+
+  // Servers often send application/octet-stream or text/plain, so fall back to the contents
+  if (isZipArchive(buffer)) {
+    // ODS archives store their mimetype entry uncompressed
+    return buffer.includes(ODS_MIME_TYPE, 0, 'latin1') ? 'ods' : 'xlsx';
+  }
+
+  const sample = buffer.subarray(0, 512).toString('utf8');
+  if (mimeType.startsWith('text/') && !/<html|<!doctype/i.test(sample) && /[,;\t]/.test(sample)) {
+    return 'csv';
+  }
+
+  return null;
+}
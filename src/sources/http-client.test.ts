@@ -0,0 +1,74 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { httpGet } from './http-client';
+import { createDeadline } from '../utils/retry';
+import { appConfig } from '../config/environment';
+
+describe('httpGet abort signal', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: number;
+  let closedRequests: number;
+
+  before(async () => {
+    requests = 0;
+    closedRequests = 0;
+    server = http.createServer((req, res) => {
+      requests++;
+      if (req.url === '/unavailable') {
+        res.writeHead(503);
+        res.end('Service Unavailable');
+        return;
+      }
+      // Never answers; the client has to give up
+      req.socket.on('close', () => closedRequests++);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('destroys a pending request once the deadline passes', async () => {
+    const deadline = createDeadline(100, 'Table exceeded MIGRATION_TIMEOUT');
+    const started = Date.now();
+
+    await assert.rejects(httpGet(`${baseUrl}/hanging`, { signal: deadline.signal }), {
+      name: 'TimeoutError',
+      message: 'Table exceeded MIGRATION_TIMEOUT',
+    });
+    assert.ok(Date.now() - started < 5000);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.equal(closedRequests, 1);
+  });
+
+  it('stops retrying once aborted', async () => {
+    requests = 0;
+    const maxRetries = appConfig.migration.maxRetries;
+    appConfig.migration.maxRetries = 20;
+    const deadline = createDeadline(200, 'Table exceeded MIGRATION_TIMEOUT');
+
+    try {
+      await assert.rejects(httpGet(`${baseUrl}/unavailable`, { signal: deadline.signal }), { name: 'TimeoutError' });
+    } finally {
+      appConfig.migration.maxRetries = maxRetries;
+    }
+    const attempts = requests;
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.equal(requests, attempts);
+  });
+
+  it('does not send a request with an aborted signal', async () => {
+    requests = 0;
+    const controller = new AbortController();
+    controller.abort(new Error('stopped'));
+
+    await assert.rejects(httpGet(`${baseUrl}/hanging`, { signal: controller.signal }), /stopped/);
+    assert.equal(requests, 0);
+  });
+});
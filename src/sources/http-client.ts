@@ -0,0 +1,141 @@
+import { Logger } from '../utils/logger';
+import { onAbort, throwIfAborted, withRetry } from '../utils/retry';
+
+export interface HttpResponse {
+  /** URL the body was finally served from, after redirects */
+  url: string;
+  statusCode: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: Buffer;
+}
+
+export interface HttpGetOptions {
+  headers?: Record<string, string>;
+  maxRedirects?: number;
+  timeout?: number;
+  /** Destroys the pending request and stops retrying once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Raised for a non-2xx response; carries the status so retry policies can match it
+ */
+export class HttpError extends Error {
+  /**
+   * @param message - Error message
+   * @param statusCode - HTTP status of the response
+   * @param body - Start of the response body, for callers that read API error reasons
+   */
+  constructor(message: string, public readonly statusCode: number, public readonly body: string = '') {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Performs a GET request over HTTP or HTTPS, following redirects, and returns the full response body.
+ * Authorization headers are only sent to the host of the original URL.
+ * Transient failures (resets, timeouts, 429, 5xx) are retried with the configured retry policy.
+ * @param url - The URL to fetch
+ * @param options - Request headers, redirect limit, timeout and abort signal
+ * @returns Promise with the final response
+ */
+export async function httpGet(url: string, options: HttpGetOptions = {}): Promise<HttpResponse> {
+  return withRetry(() => httpGetOnce(url, options), `Download ${url}`, { signal: options.signal });
+}
+
+/**
+ * Performs a single GET request, following redirects
+ * @param url - The URL to fetch
+ * @param options - Request headers, redirect limit, timeout and abort signal
+ * @returns Promise with the final response
+ */
+async function httpGetOnce(url: string, options: HttpGetOptions): Promise<HttpResponse> {
+  const maxRedirects = options.maxRedirects ?? 5;
+  const timeout = options.timeout ?? 30000;
+  const http = await import('http');
+  const https = await import('https');
+  const { URL } = await import('url');
+
+  const originHost = new URL(url).host;
+  let currentUrl = url;
+
+  for (let redirects = 0; redirects <= maxRedirects; redirects++) {
+    throwIfAborted(options.signal);
+    const urlObj = new URL(currentUrl);
+    const headers: Record<string, string> = {
+      ...(options.headers || {}),
+      'User-Agent': 'XLSX-Migration-Tool/1.0.0',
+    };
+
+    // Never leak credentials to a host we were redirected to
+    if (urlObj.host !== originHost) {
+      delete headers['Authorization'];
+    }
+
+    let removeAbortListener: () => void = () => undefined;
+    const response = await new Promise<HttpResponse>((resolve, reject) => {
+      const transport = urlObj.protocol === 'http:' ? http : https;
+      const request = transport.request({
+        protocol: urlObj.protocol,
+        hostname: urlObj.hostname,
+        port: urlObj.port || undefined,
+        path: urlObj.pathname + urlObj.search,
+        method: 'GET',
+        headers,
+      }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => resolve({
+          url: currentUrl,
+          statusCode: res.statusCode || 0,
+          headers: res.headers,
+          body: Buffer.concat(chunks),
+        }));
+        res.on('error', reject);
+      });
+
+      request.on('error', reject);
+      request.setTimeout(timeout, () => {
+        request.destroy();
+        const error: NodeJS.ErrnoException = new Error(`Download timeout after ${timeout / 1000} seconds`);
+        error.code = 'ETIMEDOUT';
+        reject(error);
+      });
+      removeAbortListener = onAbort(options.signal, reason => {
+        request.destroy();
+        reject(reason);
+      });
+      request.end();
+    }).finally(() => removeAbortListener());
+
+    // Handle redirects (3xx status codes)
+    const location = response.headers.location;
+    if (response.statusCode >= 300 && response.statusCode < 400 && typeof location === 'string') {
+      const nextUrl = new URL(location, currentUrl).toString();
+      Logger.debug('Following redirect', {
+        from: currentUrl,
+        to: nextUrl,
+        statusCode: response.statusCode,
+        redirectsRemaining: maxRedirects - redirects - 1,
+      });
+      currentUrl = nextUrl;
+      continue;
+    }
+
+    // Handle error responses
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      const body = response.body.toString('utf8').slice(0, 4096);
+      throw new HttpError(
+        `Failed to download ${currentUrl}: ${response.statusCode} ${body.slice(0, 200)}`.trim(),
+        response.statusCode,
+        body
+      );
+    }
+
+    Logger.debug('Download completed', { url: currentUrl, bufferSize: response.body.length });
+    return response;
+  }
+
+  throw new Error('Too many redirects');
+}
@@ -0,0 +1,93 @@
+import { Logger } from '../utils/logger';
+import { appConfig } from '../config/environment';
+import { httpGet } from './http-client';
+import { detectFormat } from './format-detection';
+import { SheetSource, SourceDocument } from './types';
+
+export class HttpSource implements SheetSource {
+  readonly name = 'http';
+
+  /**
+   * Handles plain http:// and https:// URLs (register after more specific URL sources)
+   * @param location - Configured location
+   * @returns True for HTTP(S) URLs
+   */
+  canHandle(location: string): boolean {
+    return /^https?:\/\//i.test(location);
+  }
+
+  /**
+   * Downloads a spreadsheet published at a URL
+   * @param location - XLSX, ODS or CSV URL
+   * @param signal - Aborts the download
+   * @returns The downloaded document
+   */
+  async fetch(location: string, signal?: AbortSignal): Promise<SourceDocument[]> {
+    Logger.info('Downloading spreadsheet over HTTP', { location });
+
+    const response = await httpGet(location, { headers: this.buildAuthHeaders(), signal });
+    const contentType = this.headerValue(response.headers['content-type']);
+    const fileName = this.extractFileName(response.headers['content-disposition'], response.url);
+    const format = detectFormat(contentType, fileName, response.body);
+
+    if (!format) {
+      throw new Error(
+        `Unsupported content at ${location} (content-type: ${contentType || 'none'}); expected XLSX, ODS or CSV`
+      );
+    }
+
+    Logger.info('HTTP download completed', { location, fileName, contentType, format, bufferSize: response.body.length });
+
+    return [{
+      name: fileName || `download.${format}`,
+      location,
+      format,
+      buffer: response.body,
+    }];
+  }
+
+  /**
+   * Builds the Authorization header from the configured credentials
+   * @returns Headers (empty when no credentials are configured)
+   */
+  private buildAuthHeaders(): Record<string, string> {
+    const { httpBearerToken, httpUsername, httpPassword } = appConfig.sources;
+
+    if (httpBearerToken) {
+      return { 'Authorization': `Bearer ${httpBearerToken}` };
+    }
+
+    if (httpUsername) {
+      const credentials = Buffer.from(`${httpUsername}:${httpPassword}`).toString('base64');
+      return { 'Authorization': `Basic ${credentials}` };
+    }
+
+    return {};
+  }
+
+  /**
+   * Gets the file name from Content-Disposition, falling back to the last URL path segment
+   * @param contentDisposition - Content-Disposition header
+   * @param url - Final download URL
+   * @returns File name, if any
+   */
+  private extractFileName(contentDisposition: string | string[] | undefined, url: string): string | undefined {
+    const disposition = this.headerValue(contentDisposition);
+    const match = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+    if (match) {
+      return decodeURIComponent(match[1]);
+    }
+
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : undefined;
+  }
+
+  /**
+   * Normalizes a header that may have been sent more than once
+   * @param value - Header value
+   * @returns First value
+   */
+  private headerValue(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { LocalFileSource } from './local-file-source';
+
+const FIXTURES = path.resolve(__dirname, '../../fixtures/local/pccomp_es');
+
+describe('LocalFileSource', () => {
+  const source = new LocalFileSource();
+
+  it('handles paths and file:// URLs, but not other URLs', () => {
+    assert.equal(source.canHandle('./incoming/rules.xlsx'), true);
+    assert.equal(source.canHandle('/data/carrefour_fr'), true);
+    assert.equal(source.canHandle('file:///data/rules.csv'), true);
+    assert.equal(source.canHandle('https://example.com/rules.xlsx'), false);
+    assert.equal(source.canHandle('mirakl://worten.mirakl.net'), false);
+  });
+
+  it('reads a single file with its format', async () => {
+    const documents = await source.fetch(path.join(FIXTURES, 'pccomp_es_1.csv'));
+
+    assert.equal(documents.length, 1);
+    assert.equal(documents[0].name, 'pccomp_es_1.csv');
+    assert.equal(documents[0].format, 'csv');
+    assert.match(documents[0].buffer.toString('utf8'), /^code,label/);
+  });
+
+  it('reads a file:// URL', async () => {
+    const documents = await source.fetch(pathToFileURL(path.join(FIXTURES, 'pccomp_es_2.csv')).toString());
+
+    assert.deepEqual(documents.map(document => document.name), ['pccomp_es_2.csv']);
+  });
+
+  it('reads every spreadsheet of a directory in name order, skipping other files and lock files', async () => {
+    const documents = await source.fetch(FIXTURES);
+
+    assert.deepEqual(documents.map(document => document.name), ['pccomp_es_1.csv', 'pccomp_es_2.csv']);
+    assert.equal(documents[0].location, path.join(FIXTURES, 'pccomp_es_1.csv'));
+  });
+
+  it('reads the files matching a glob in the file name', async () => {
+    const documents = await source.fetch(path.join(FIXTURES, 'PCCOMP_ES_?.csv'));
+
+    assert.deepEqual(documents.map(document => document.name), ['pccomp_es_1.csv', 'pccomp_es_2.csv']);
+  });
+
+  it('fails for a glob without matches', async () => {
+    await assert.rejects(source.fetch(path.join(FIXTURES, '*.xlsx')), /No spreadsheet files found/);
+  });
+
+  it('fails for a missing file', async () => {
+    await assert.rejects(source.fetch(path.join(FIXTURES, 'missing.csv')), /Source file not found/);
+  });
+
+  it('fails for a file that is not a spreadsheet', async () => {
+    await assert.rejects(source.fetch(path.join(FIXTURES, 'README.txt')), /Unsupported source file type/);
+  });
+});
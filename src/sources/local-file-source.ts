@@ -0,0 +1,108 @@
+import { Logger } from '../utils/logger';
+import { throwIfAborted } from '../utils/retry';
+import { formatFromExtension } from './format-detection';
+import { SheetSource, SourceDocument } from './types';
+
+export class LocalFileSource implements SheetSource {
+  readonly name = 'local-file';
+
+  /**
+   * Handles file:// URLs and anything that is not a URL (absolute or relative paths, globs)
+   * @param location - Configured location
+   * @returns True for local paths
+   */
+  canHandle(location: string): boolean {
+    return location.startsWith('file://') || !/^[a-z][a-z0-9+.-]*:\/\//i.test(location);
+  }
+
+  /**
+   * Reads a file, every spreadsheet in a directory, or the files matching a glob in the last path segment
+   * @param location - File path, directory, glob (e.g. ./incoming/*.xlsx) or file:// URL
+   * @param signal - Stops reading further files once aborted
+   * @returns Documents sorted by file name
+   */
+  async fetch(location: string, signal?: AbortSignal): Promise<SourceDocument[]> {
+    const fs = await import('fs');
+    const path = await import('path');
+    const { fileURLToPath } = await import('url');
+
+    const filePath = path.resolve(location.startsWith('file://') ? fileURLToPath(location) : location);
+    let files: string[];
+
+    if (this.isGlob(path.basename(filePath))) {
+      const directory = path.dirname(filePath);
+      const pattern = this.globToRegExp(path.basename(filePath));
+      files = this.listFiles(fs, path, directory).filter(file => pattern.test(path.basename(file)));
+    } else if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+      files = this.listFiles(fs, path, filePath).filter(file => formatFromExtension(path.extname(file)) !== null);
+    } else if (fs.existsSync(filePath)) {
+      files = [filePath];
+    } else {
+      throw new Error(`Source file not found: ${filePath}`);
+    }
+
+    if (files.length === 0) {
+      throw new Error(`No spreadsheet files found for source: ${location}`);
+    }
+
+    const documents = files.map(file => {
+      throwIfAborted(signal);
+      const format = formatFromExtension(path.extname(file));
+      if (!format) {
+        throw new Error(`Unsupported source file type: ${file} (expected .xlsx, .xls, .ods or .csv)`);
+      }
+
+      return {
+        name: path.basename(file),
+        location: file,
+        format,
+        buffer: fs.readFileSync(file),
+      };
+    });
+
+    Logger.info('Local source files read', {
+      location,
+      files: documents.map(document => document.name),
+      totalBytes: documents.reduce((sum, document) => sum + document.buffer.length, 0),
+    });
+
+    return documents;
+  }
+
+  /**
+   * Lists the regular files of a directory
+   * @param fs - fs module
+   * @param path - path module
+   * @param directory - Directory to list
+   * @returns Absolute file paths sorted by name
+   */
+  private listFiles(fs: typeof import('fs'), path: typeof import('path'), directory: string): string[] {
+    if (!fs.existsSync(directory)) {
+      throw new Error(`Source directory not found: ${directory}`);
+    }
+
+    return fs.readdirSync(directory, { withFileTypes: true })
+      .filter(entry => entry.isFile() && !entry.name.startsWith('~$')) // ~$ files are Office lock files
+      .map(entry => path.join(directory, entry.name))
+      .sort();
+  }
+
+  /**
+   * Checks whether a path segment contains glob wildcards
+   * @param segment - Path segment
+   * @returns True for * or ? patterns
+   */
+  private isGlob(segment: string): boolean {
+    return /[*?]/.test(segment);
+  }
+
+  /**
+   * Converts a file name glob to a regular expression
+   * @param glob - Pattern using * and ?
+   * @returns Anchored regular expression
+   */
+  private globToRegExp(glob: string): RegExp {
+    const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, 'i');
+  }
+}
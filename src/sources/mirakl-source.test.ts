@@ -0,0 +1,122 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { MiraklApiSource } from './mirakl-source';
+import { MiraklMockServer } from '../scripts/mirakl-mock-server';
+import { appConfig } from '../config/environment';
+import { RuleRecord } from '../database/schema';
+
+const API_KEY = 'test-api-key';
+
+describe('MiraklApiSource against the mock server', () => {
+  let server: http.Server;
+  let location: string;
+  let keyVariable: string;
+  let requests: string[];
+
+  before(async () => {
+    server = await new MiraklMockServer({
+      port: 0,
+      fixturesDir: path.resolve(__dirname, '../../fixtures/mirakl'),
+      apiKey: API_KEY,
+      quiet: true,
+    }).start();
+    server.on('request', (req: http.IncomingMessage) => requests.push(req.url || ''));
+
+    const port = (server.address() as AddressInfo).port;
+    location = `mirakl+http://127.0.0.1:${port}`;
+    keyVariable = `MIRAKL_API_KEY_127_0_0_1_${port}`;
+  });
+
+  after(() => {
+    delete process.env[keyVariable];
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    process.env[keyVariable] = API_KEY;
+  });
+
+  const find = (records: RuleRecord[], code: string, category: string) =>
+    records.find(record => record.code === code && record['codigo-categoria-mirakl'] === category);
+
+  it('maps PM11 attributes to rules with their H11 category', async () => {
+    const [document] = await new MiraklApiSource().fetch(location);
+
+    assert.equal(document.format, 'records');
+    assert.equal(document.records!.length, 8);
+
+    const screenSize = find(document.records!, 'screen_size', 'portateis')!;
+    assert.equal(screenSize['nome-categoria-mirakl'], 'Portáteis');
+    assert.equal(screenSize['parent_code-categoria-mirakl'], 'computadores');
+    assert.equal(screenSize.requirement_level, 'REQUIRED');
+    assert.ok(find(document.records!, 'screen_size', 'monitores'));
+
+    const productId = find(document.records!, 'product_id', '')!;
+    assert.equal(productId['nome-categoria-mirakl'], '');
+    assert.equal(productId.roles, 'UNIQUE_IDENTIFIER');
+    assert.equal(productId.validations, 'MAX_LENGTH|13');
+    assert.equal(productId.variant, 'false');
+    assert.equal(productId.extras!.example, '5601234567890');
+
+    assert.equal(find(document.records!, 'main_image', '')!.roles, 'MAIN_IMAGE,IMAGE');
+  });
+
+  it('reads the VL11 value lists', async () => {
+    const [document] = await new MiraklApiSource().fetch(location);
+
+    const colors = document.valueLists!.find(list => list.code === 'colors')!;
+    assert.equal(colors.label, 'Cores');
+    assert.deepEqual(colors.values.map(value => value.code), ['black', 'white', 'silver', 'blue']);
+  });
+
+  it('passes the hierarchy filter on to the attributes API', async () => {
+    const [document] = await new MiraklApiSource().fetch(`${location}?hierarchy=maquinas-lavar-roupa&locale=pt_PT`);
+
+    assert.deepEqual(
+      document.records!.map(record => record.code).sort(),
+      ['capacity_kg', 'energy_class', 'main_image', 'product_id', 'title']
+    );
+    assert.ok(requests.some(url => url.startsWith('/api/products/attributes?hierarchy=maquinas-lavar-roupa&locale=pt_PT')));
+    assert.ok(requests.some(url => url.startsWith('/api/hierarchies?locale=pt_PT&')));
+  });
+
+  it('follows pages until total_count is reached', async () => {
+    const [document] = await new MiraklApiSource(3).fetch(location);
+
+    assert.equal(document.records!.length, 8);
+    assert.deepEqual(
+      requests.filter(url => url.startsWith('/api/products/attributes')),
+      [
+        '/api/products/attributes?max=3&offset=0',
+        '/api/products/attributes?max=3&offset=3',
+        '/api/products/attributes?max=3&offset=6',
+      ]
+    );
+    assert.equal(requests.filter(url => url.startsWith('/api/hierarchies')).length, 2);
+    assert.equal(find(document.records!, 'capacity_kg', 'maquinas-lavar-roupa')!['nome-categoria-mirakl'], 'Máquinas de Lavar Roupa');
+  });
+
+  it('reports a rejected API key', async () => {
+    process.env[keyVariable] = 'wrong-key';
+
+    await assert.rejects(new MiraklApiSource().fetch(location), /Mirakl API rejected the API key \(401\)/);
+    assert.equal(requests.length, 1);
+  });
+
+  it('fails before calling the API without a key', async () => {
+    delete process.env[keyVariable];
+    const sharedKey = appConfig.sources.miraklApiKey;
+    appConfig.sources.miraklApiKey = '';
+
+    try {
+      await assert.rejects(new MiraklApiSource().fetch(location), new RegExp(`set ${keyVariable} or MIRAKL_API_KEY`));
+      assert.equal(requests.length, 0);
+    } finally {
+      appConfig.sources.miraklApiKey = sharedKey;
+    }
+  });
+});
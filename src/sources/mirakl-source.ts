@@ -0,0 +1,302 @@
+import { Logger } from '../utils/logger';
+import { appConfig } from '../config/environment';
+import { RuleRecord } from '../database/schema';
+import { ValueList } from '../processing/value-lists';
+import { HttpError, httpGet } from './http-client';
+import { SheetSource, SourceDocument } from './types';
+
+/** Query parameters of a mirakl:// location that are forwarded to the attributes API */
+const ATTRIBUTE_QUERY_PARAMETERS = ['hierarchy', 'max_level', 'locale'];
+
+/** Items requested per page (max) from endpoints that paginate with max/offset */
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Attribute fields mapped to rule columns; every other field is kept in the record's extras */
+const MAPPED_ATTRIBUTE_FIELDS = [
+  'code', 'label', 'description', 'hierarchy_code', 'required', 'requirement_level', 'roles', 'type', 'validations', 'variant',
+];
+
+/**
+ * Attribute as returned by the operator attributes API (PM11)
+ */
+interface MiraklAttribute {
+  code: string;
+  label?: string;
+  description?: string;
+  hierarchy_code?: string | null;
+  required?: boolean;
+  requirement_level?: string;
+  roles?: { type: string }[];
+  type?: string;
+  validations?: string | null;
+  variant?: boolean;
+  [field: string]: unknown;
+}
+
+/**
+ * Category as returned by the operator hierarchies API (H11)
+ */
+interface MiraklHierarchy {
+  code: string;
+  label?: string;
+  level?: number;
+  parent_code?: string | null;
+}
+
+/**
+ * Value list as returned by the operator values lists API (VL11)
+ */
+interface MiraklValueList {
+  code: string;
+  label?: string;
+  values?: { code: string; label?: string }[];
+}
+
+export class MiraklApiSource implements SheetSource {
+  readonly name = 'mirakl-api';
+  private pageSize: number;
+
+  /**
+   * Creates the source
+   * @param pageSize - Items requested per page from paginated endpoints
+   */
+  constructor(pageSize: number = DEFAULT_PAGE_SIZE) {
+    this.pageSize = pageSize;
+  }
+
+  /**
+   * Handles mirakl://<instance host> locations (mirakl+http:// talks plain HTTP, e.g. to the mock server)
+   * @param location - Configured location
+   * @returns True for Mirakl API locations
+   */
+  canHandle(location: string): boolean {
+    return /^mirakl(\+http)?:\/\//i.test(location);
+  }
+
+  /**
+   * Reads the attribute definitions of a Mirakl instance and maps them to rule records,
+   * with the value lists of its LIST attributes
+   * @param location - mirakl://<host>[?hierarchy=<code>&max_level=<n>&locale=<locale>]
+   * @param signal - Aborts pending requests
+   * @returns A single records document
+   */
+  async fetch(location: string, signal?: AbortSignal): Promise<SourceDocument[]> {
+    const { baseUrl, host, query } = this.parseLocation(location);
+    const headers = { 'Authorization': this.getApiKey(host), 'Accept': 'application/json' };
+
+    Logger.info('Fetching attributes from Mirakl operator API', { location, baseUrl });
+
+    const attributeQuery = new URLSearchParams();
+    for (const name of ATTRIBUTE_QUERY_PARAMETERS) {
+      const value = query.get(name);
+      if (value) attributeQuery.set(name, value);
+    }
+    // Hierarchies and value lists are only localized, never filtered
+    const localeQuery = new URLSearchParams();
+    if (query.get('locale')) localeQuery.set('locale', query.get('locale')!);
+
+    const attributesBody = await this.getAllPages(`${baseUrl}/api/products/attributes`, attributeQuery, headers, 'attributes', signal);
+    const hierarchiesBody = await this.getAllPages(`${baseUrl}/api/hierarchies`, localeQuery, headers, 'hierarchies', signal);
+    const valueListsBody = await this.getAllPages(`${baseUrl}/api/values_lists`, localeQuery, headers, 'values_lists', signal);
+
+    const attributes: MiraklAttribute[] = attributesBody.attributes || [];
+    const hierarchies: MiraklHierarchy[] = hierarchiesBody.hierarchies || [];
+    const records = this.mapAttributes(attributes, hierarchies);
+    const valueLists = this.mapValueLists(valueListsBody.values_lists || []);
+
+    Logger.info('Mirakl attributes fetched', {
+      location,
+      attributes: attributes.length,
+      hierarchies: hierarchies.length,
+      valueLists: valueLists.length,
+      records: records.length,
+    });
+
+    return [{
+      name: `mirakl-${host}`,
+      location,
+      format: 'records',
+      buffer: Buffer.from(JSON.stringify({
+        attributes: attributesBody,
+        hierarchies: hierarchiesBody,
+        values_lists: valueListsBody,
+      })),
+      records,
+      valueLists,
+    }];
+  }
+
+  /**
+   * Maps API attributes to rule records, resolving category names and parents from the hierarchy
+   * @param attributes - PM11 attributes
+   * @param hierarchies - H11 categories
+   * @returns Rule records (attributes without a hierarchy apply to every category)
+   */
+  mapAttributes(attributes: MiraklAttribute[], hierarchies: MiraklHierarchy[]): RuleRecord[] {
+    const categories = new Map(hierarchies.map(hierarchy => [hierarchy.code, hierarchy]));
+
+    return attributes.map(attribute => {
+      const categoryCode = attribute.hierarchy_code || '';
+      const category = categories.get(categoryCode);
+
+      if (categoryCode && !category) {
+        Logger.warn('Attribute refers to an unknown hierarchy', { code: attribute.code, categoryCode });
+      }
+
+      return {
+        code: attribute.code || '',
+        description: attribute.description || '',
+        label: attribute.label || '',
+        requirement_level: attribute.requirement_level || (attribute.required ? 'REQUIRED' : 'OPTIONAL'),
+        roles: (attribute.roles || []).map(role => role.type).join(','),
+        type: attribute.type || '',
+        validations: attribute.validations || '',
+        variant: attribute.variant ? 'true' : 'false',
+        'codigo-categoria-mirakl': categoryCode,
+        'nome-categoria-mirakl': category?.label || '',
+        'parent_code-categoria-mirakl': category?.parent_code || '',
+        extras: this.getUnmappedFields(attribute),
+      };
+    });
+  }
+
+  /**
+   * Maps API value lists, dropping values without a code
+   * @param valueLists - VL11 value lists
+   * @returns Value lists
+   */
+  mapValueLists(valueLists: MiraklValueList[]): ValueList[] {
+    return valueLists
+      .filter(list => list.code)
+      .map(list => ({
+        code: list.code,
+        label: list.label || '',
+        values: (list.values || [])
+          .filter(value => value.code)
+          .map(value => ({ code: value.code, label: value.label || '' })),
+      }));
+  }
+
+  /**
+   * Collects the attribute fields no rule column is mapped to (example values, units, transformations...)
+   * @param attribute - PM11 attribute
+   * @returns Non-empty fields as text, objects and arrays as JSON
+   */
+  private getUnmappedFields(attribute: MiraklAttribute): Record<string, string> {
+    const extras: Record<string, string> = {};
+
+    for (const [field, value] of Object.entries(attribute)) {
+      const empty = value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+      if (empty || MAPPED_ATTRIBUTE_FIELDS.includes(field)) continue;
+      extras[field] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    return extras;
+  }
+
+  /**
+   * Splits a mirakl:// location into the API base URL and its options
+   * @param location - Configured location
+   * @returns Base URL, instance host and query parameters
+   */
+  private parseLocation(location: string): { baseUrl: string; host: string; query: URLSearchParams } {
+    const match = location.match(/^mirakl(\+http)?:\/\/([^/?#]+)([^?#]*)(\?[^#]*)?/i);
+    if (!match) {
+      throw new Error(`Invalid Mirakl location: ${location}`);
+    }
+
+    const [, plainHttp, host, path, search] = match;
+    const protocol = plainHttp ? 'http' : 'https';
+    return {
+      baseUrl: `${protocol}://${host}${path.replace(/\/+$/, '')}`,
+      host,
+      query: new URLSearchParams(search || ''),
+    };
+  }
+
+  /**
+   * Gets the API key for an instance: MIRAKL_API_KEY_<HOST> first, then MIRAKL_API_KEY
+   * @param host - Instance host (port included)
+   * @returns API key
+   */
+  private getApiKey(host: string): string {
+    const hostVariable = `MIRAKL_API_KEY_${host.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+    const apiKey = process.env[hostVariable] || appConfig.sources.miraklApiKey;
+
+    if (!apiKey) {
+      throw new Error(`No Mirakl API key configured for ${host} (set ${hostVariable} or MIRAKL_API_KEY)`);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Reads every page of a list endpoint. Pages are requested with max/offset and followed while the
+   * response reports a total_count above the items received; a response without total_count is complete.
+   * @param url - Endpoint URL
+   * @param query - Query parameters
+   * @param headers - Request headers
+   * @param listField - Response field holding the items
+   * @param signal - Aborts pending requests
+   * @returns Response body with the items of every page
+   */
+  private async getAllPages(
+    url: string,
+    query: URLSearchParams,
+    headers: Record<string, string>,
+    listField: string,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const items: unknown[] = [];
+    let body: any;
+
+    for (let offset = 0; ; offset = items.length) {
+      const pageQuery = new URLSearchParams(query);
+      pageQuery.set('max', String(this.pageSize));
+      pageQuery.set('offset', String(offset));
+
+      body = await this.getJson(url, pageQuery, headers, signal);
+      const page: unknown[] = Array.isArray(body[listField]) ? body[listField] : [];
+      items.push(...page);
+
+      if (typeof body.total_count !== 'number' || page.length === 0 || items.length >= body.total_count) {
+        break;
+      }
+      Logger.debug('Fetching next Mirakl API page', { url, offset: items.length, totalCount: body.total_count });
+    }
+
+    return { ...body, [listField]: items };
+  }
+
+  /**
+   * Calls a Mirakl API endpoint and parses the JSON response
+   * @param url - Endpoint URL
+   * @param query - Query parameters
+   * @param headers - Request headers
+   * @param signal - Aborts the request
+   * @returns Parsed response body
+   */
+  private async getJson(
+    url: string,
+    query: URLSearchParams,
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const search = query.toString();
+    let response;
+
+    try {
+      response = await httpGet(search ? `${url}?${search}` : url, { headers, signal });
+    } catch (error: any) {
+      if (error instanceof HttpError && (error.statusCode === 401 || error.statusCode === 403)) {
+        throw new Error(`Mirakl API rejected the API key (${error.statusCode}) for ${url}; check the operator key of the instance`);
+      }
+      throw error;
+    }
+
+    try {
+      return JSON.parse(response.body.toString('utf8'));
+    } catch (error: any) {
+      throw new Error(`Mirakl API returned invalid JSON from ${url}: ${error.message}`);
+    }
+  }
+}
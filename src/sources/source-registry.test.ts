@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SourceRegistry } from './source-registry';
+import { SheetSource, SourceDocument, SourceRevision } from './types';
+
+function fakeSource(name: string, prefix: string, revision?: () => Promise<SourceRevision>): SheetSource {
+  return {
+    name,
+    canHandle: location => location.startsWith(prefix),
+    fetch: async (location): Promise<SourceDocument[]> => [
+      { name: `${name}.csv`, location, format: 'csv', buffer: Buffer.from('code\nEAN\n') },
+    ],
+    getRevision: revision,
+  };
+}
+
+describe('SourceRegistry', () => {
+  it('routes a location to the first source that handles it', async () => {
+    const registry = new SourceRegistry([
+      fakeSource('sheets', 'https://docs.google.com/'),
+      fakeSource('http', 'https://'),
+    ]);
+
+    assert.equal(registry.resolve('https://docs.google.com/spreadsheets/d/abc').name, 'sheets');
+    assert.equal(registry.resolve('https://example.com/rules.csv').name, 'http');
+    const [document] = await registry.fetch('https://example.com/rules.csv');
+    assert.equal(document.name, 'http.csv');
+  });
+
+  it('fails for a location no source handles', () => {
+    const registry = new SourceRegistry([fakeSource('http', 'https://')]);
+
+    assert.throws(() => registry.resolve('ftp://example.com/rules.csv'), /No source can read location/);
+  });
+
+  it('returns null revisions for sources without them or when the lookup fails', async () => {
+    const registry = new SourceRegistry([
+      fakeSource('plain', 'plain:'),
+      fakeSource('broken', 'broken:', async () => { throw new Error('Drive unavailable'); }),
+      fakeSource('drive', 'drive:', async () => ({ revisionId: '42', modifiedTime: '2026-01-01T00:00:00Z' })),
+    ]);
+
+    assert.equal(await registry.getRevision('plain:x'), null);
+    assert.equal(await registry.getRevision('broken:x'), null);
+    assert.deepEqual(await registry.getRevision('drive:x'), { revisionId: '42', modifiedTime: '2026-01-01T00:00:00Z' });
+  });
+
+  it('validates a location with its source check, or by fetching it', async () => {
+    const checked: string[] = [];
+    const sheets: SheetSource = {
+      ...fakeSource('sheets', 'https://docs.google.com/'),
+      validate: async location => { checked.push(location); return false; },
+    };
+    const registry = new SourceRegistry([
+      sheets,
+      fakeSource('local', './'),
+      { ...fakeSource('http', 'https://'), fetch: async () => { throw new Error('404 Not Found'); } },
+    ]);
+
+    assert.equal(await registry.validate('https://docs.google.com/spreadsheets/d/abc'), false);
+    assert.deepEqual(checked, ['https://docs.google.com/spreadsheets/d/abc']);
+    assert.equal(await registry.validate('./incoming/rules.csv'), true);
+    assert.equal(await registry.validate('https://example.com/rules.csv'), false);
+  });
+});
@@ -0,0 +1,90 @@
+import { Logger } from '../utils/logger';
+import { throwIfAborted } from '../utils/retry';
+import { SheetSource, SourceDocument, SourceRevision } from './types';
+
+export class SourceRegistry {
+  private sources: SheetSource[] = [];
+
+  /**
+   * Creates a registry
+   * @param sources - Sources in priority order
+   */
+  constructor(sources: SheetSource[] = []) {
+    sources.forEach(source => this.register(source));
+  }
+
+  /**
+   * Adds a source; sources registered first win when several can handle a location
+   * @param source - Source to add
+   */
+  register(source: SheetSource): void {
+    this.sources.push(source);
+  }
+
+  /**
+   * Finds the source for a configured location
+   * @param location - Configured location
+   * @returns Matching source
+   */
+  resolve(location: string): SheetSource {
+    const source = this.sources.find(candidate => candidate.canHandle(location));
+    if (!source) {
+      throw new Error(`No source can read location: ${location}`);
+    }
+    return source;
+  }
+
+  /**
+   * Fetches the documents behind a configured location
+   * @param location - Configured location
+   * @param signal - Aborts the fetch
+   * @returns Documents
+   */
+  async fetch(location: string, signal?: AbortSignal): Promise<SourceDocument[]> {
+    const source = this.resolve(location);
+    Logger.debug('Fetching source documents', { location, source: source.name });
+    return source.fetch(location, signal);
+  }
+
+  /**
+   * Gets the current revision of a location without downloading it
+   * @param location - Configured location
+   * @param signal - Aborts the lookup
+   * @returns Revision, or null when the source cannot tell or the lookup failed
+   * @throws The abort reason once the signal aborts
+   */
+  async getRevision(location: string, signal?: AbortSignal): Promise<SourceRevision | null> {
+    const source = this.resolve(location);
+    if (!source.getRevision) {
+      return null;
+    }
+
+    try {
+      return await source.getRevision(location, signal);
+    } catch (error: any) {
+      throwIfAborted(signal);
+      Logger.warn('Failed to get source revision', { location, source: source.name, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Checks that a configured location is accessible, downloading it when its source has no cheaper check
+   * @param location - Configured location
+   * @returns True if the location can be read
+   */
+  async validate(location: string): Promise<boolean> {
+    const source = this.resolve(location);
+
+    try {
+      if (source.validate) {
+        return await source.validate(location);
+      }
+      await source.fetch(location);
+      return true;
+    } catch (error: any) {
+      Logger.warn('Source validation failed', { location, source: source.name, error: error.message });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { createHash } from 'crypto';
+import { SourceDocument, SourceRevision } from './types';
+
+/**
+ * What a table was last migrated from, stored with its configuration row
+ */
+export interface SourceState {
+  /** Location the table was migrated from (the configured one or a --source override) */
+  location: string;
+  revisionId: string | null;
+  modifiedTime: string | null;
+  /** SHA-256 of the downloaded documents */
+  contentHash: string | null;
+  /** SHA-256 of the mapping profile, vocabulary, table schema and mode the table was migrated with */
+  configHash: string | null;
+}
+
+/**
+ * Settings that decide what a source is migrated into; a change migrates the table again
+ */
+export interface MigrationConfig {
+  profile: unknown;
+  vocabulary: unknown;
+  schema: unknown;
+  mode: string;
+}
+
+/**
+ * Hashes the downloaded documents of a source
+ * @param documents - Documents in fetch order
+ * @returns SHA-256 hex digest
+ */
+export function hashSourceDocuments(documents: SourceDocument[]): string {
+  const hash = createHash('sha256');
+  for (const document of documents) {
+    hash.update(`${document.name}\u0000${document.buffer.length}\u0000`);
+    hash.update(document.buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Hashes the settings a table is migrated with
+ * @param config - Resolved mapping profile, vocabulary, table schema and mode
+ * @returns SHA-256 hex digest
+ */
+export function hashMigrationConfig(config: MigrationConfig): string {
+  return createHash('sha256')
+    .update(JSON.stringify([config.profile, config.vocabulary, config.schema, config.mode]))
+    .digest('hex');
+}
+
+/**
+ * Checks whether a source revision matches the one a table was last migrated from
+ * @param stored - Stored source state
+ * @param location - Location being migrated
+ * @param revision - Current revision reported by the source
+ * @param configHash - Hash of the settings the table is migrated with
+ * @returns True when the same location is still at the same revision and the settings did not change
+ */
+export function isSameRevision(
+  stored: SourceState | null,
+  location: string,
+  revision: SourceRevision | null,
+  configHash: string
+): boolean {
+  return !!stored && !!revision && stored.location === location && stored.configHash === configHash &&
+    stored.revisionId === revision.revisionId && stored.modifiedTime === revision.modifiedTime;
+}
+
+/**
+ * Checks whether downloaded documents match the ones a table was last migrated from
+ * @param stored - Stored source state
+ * @param location - Location being migrated
+ * @param contentHash - Hash of the downloaded documents
+ * @param configHash - Hash of the settings the table is migrated with
+ * @returns True when the same location returned the same bytes and the settings did not change
+ */
+export function isSameContent(
+  stored: SourceState | null,
+  location: string,
+  contentHash: string,
+  configHash: string
+): boolean {
+  return !!stored && stored.location === location && stored.contentHash === contentHash &&
+    stored.configHash === configHash;
+}
@@ -0,0 +1,70 @@
+import { RuleRecord } from '../database/schema';
+import { ValueList } from '../processing/value-lists';
+
+/** File formats, plus 'records' for sources (APIs) that return rule records directly */
+export type SourceFormat = 'xlsx' | 'ods' | 'csv' | 'records';
+
+/**
+ * A workbook, delimited file or API response fetched from a migration source
+ */
+export interface SourceDocument {
+  /** File name used in logs and error reports */
+  name: string;
+  /** Location the document was read from */
+  location: string;
+  format: SourceFormat;
+  /** Raw file contents (the API responses for 'records' documents) */
+  buffer: Buffer;
+  /** Rule records already mapped by the source; set when format is 'records' */
+  records?: RuleRecord[];
+  /** Value lists returned alongside the records (API sources) */
+  valueLists?: ValueList[];
+}
+
+/**
+ * Version of a location as reported by its source, without downloading it
+ */
+export interface SourceRevision {
+  /** Revision id (Drive head revision, or the file version for native spreadsheets) */
+  revisionId: string;
+  /** Last modification time (ISO 8601) */
+  modifiedTime: string;
+}
+
+/**
+ * A place migration data can be read from (Google Sheets, local files, ...)
+ */
+export interface SheetSource {
+  /** Short name used in logs */
+  readonly name: string;
+
+  /**
+   * Checks whether this source understands a configured location
+   * @param location - Value of migration_configuration.google_sheets_url
+   * @returns True if the location can be fetched by this source
+   */
+  canHandle(location: string): boolean;
+
+  /**
+   * Fetches every document behind a location
+   * @param location - Configured location
+   * @param signal - Aborts pending requests and retries (MIGRATION_TIMEOUT)
+   * @returns Documents in a stable order
+   */
+  fetch(location: string, signal?: AbortSignal): Promise<SourceDocument[]>;
+
+  /**
+   * Gets the current revision of a location, for sources that can tell without a download
+   * @param location - Configured location
+   * @param signal - Aborts pending requests and retries (MIGRATION_TIMEOUT)
+   * @returns Revision
+   */
+  getRevision?(location: string, signal?: AbortSignal): Promise<SourceRevision>;
+
+  /**
+   * Checks that a location is accessible, for sources that can tell without a download
+   * @param location - Configured location
+   * @returns True if the location can be read
+   */
+  validate?(location: string): Promise<boolean>;
+}
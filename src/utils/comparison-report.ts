@@ -0,0 +1,58 @@
+import * as XLSX from 'xlsx';
+import { Logger } from './logger';
+import { AttributeComparison, toComparisonSheet } from '../processing/attribute-comparison';
+
+export type ComparisonReportFormat = 'csv' | 'xlsx' | 'json';
+
+export const COMPARISON_REPORT_FORMATS: ComparisonReportFormat[] = ['csv', 'xlsx', 'json'];
+
+/**
+ * Gets the report format of a file path from its extension
+ * @param filePath - Report path
+ * @returns Format, or null for other extensions
+ */
+export function getComparisonReportFormat(filePath: string): ComparisonReportFormat | null {
+  const extension = filePath.split('.').pop()?.toLowerCase() as ComparisonReportFormat;
+  return COMPARISON_REPORT_FORMATS.includes(extension) ? extension : null;
+}
+
+/**
+ * Writes an attribute comparison as CSV, XLSX (one sheet with the matrix, one with the conflicts) or JSON
+ * @param comparison - Attribute comparison
+ * @param filePath - Report path; its extension picks the format
+ * @returns Absolute path of the written file
+ */
+export async function writeComparisonReport(comparison: AttributeComparison, filePath: string): Promise<string> {
+  const fs = await import('fs');
+  const path = await import('path');
+
+  const format = getComparisonReportFormat(filePath);
+  if (!format) {
+    throw new Error(`Unsupported report format: ${filePath} (use ${COMPARISON_REPORT_FORMATS.map(f => `.${f}`).join(', ')})`);
+  }
+
+  const resolved = path.resolve(filePath);
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+
+  if (format === 'json') {
+    fs.writeFileSync(resolved, JSON.stringify({ generatedAt: new Date().toISOString(), ...comparison }, null, 2));
+  } else {
+    const matrix = XLSX.utils.aoa_to_sheet(toComparisonSheet(comparison));
+
+    if (format === 'csv') {
+      // The BOM lets spreadsheet programs detect UTF-8 (accented labels and validations)
+      fs.writeFileSync(resolved, '\uFEFF' + XLSX.utils.sheet_to_csv(matrix));
+    } else {
+      const conflicts = comparison.rows.flatMap(row =>
+        row.conflicts.map(conflict => [row.code, conflict.kind, conflict.message])
+      );
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, matrix, 'Attributes');
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['code', 'conflict', 'details'], ...conflicts]), 'Conflicts');
+      fs.writeFileSync(resolved, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+    }
+  }
+
+  Logger.info('Comparison report written', { file: resolved, format, attributes: comparison.rows.length });
+  return resolved;
+}
@@ -0,0 +1,246 @@
+import { Logger } from './logger';
+import { ColumnChange, RuleChange, createRuleChange, diffRuleRecords } from './record-diff';
+import { RuleRecord, RULE_TABLE_COLUMNS } from '../database/schema';
+
+export interface ColumnDiffSample extends ColumnChange {
+  code: string;
+  categoryCode: string;
+  variant: string;
+}
+
+export interface ColumnDiffSummary {
+  /** Number of modified rules where this column changes */
+  changed: number;
+  samples: ColumnDiffSample[];
+}
+
+export interface DiffPreview {
+  tableName: string;
+  mode: string;
+  recordsCompared: number;
+  added: number;
+  modified: number;
+  unchanged: number;
+  removed: number;
+  skipped: number;
+  columns: Record<string, ColumnDiffSummary>;
+  samples: {
+    added: RuleChange[];
+    modified: RuleChange[];
+    removed: RuleChange[];
+  };
+}
+
+export interface DiffReportFiles {
+  json: string;
+  markdown: string;
+}
+
+/**
+ * Accumulates the differences between incoming records and the rows currently in a table
+ */
+export class DiffPreviewBuilder {
+  private preview: DiffPreview;
+  private sampleLimit: number;
+  private tableColumns: readonly string[];
+
+  constructor(tableName: string, mode: string, tableColumns: readonly string[] = RULE_TABLE_COLUMNS, sampleLimit: number = 5) {
+    this.sampleLimit = sampleLimit;
+    this.tableColumns = tableColumns;
+    this.preview = {
+      tableName,
+      mode,
+      recordsCompared: 0,
+      added: 0,
+      modified: 0,
+      unchanged: 0,
+      removed: 0,
+      skipped: 0,
+      columns: {},
+      samples: { added: [], modified: [], removed: [] },
+    };
+  }
+
+  /**
+   * Compares an incoming record with the existing row for its natural key
+   * @param record - Incoming record
+   * @param existing - Existing row (null when the rule is new)
+   */
+  addRecord(record: RuleRecord, existing: any | null): void {
+    this.preview.recordsCompared++;
+
+    if (!existing) {
+      this.preview.added++;
+      this.addSample('added', createRuleChange('added', record, diffRuleRecords(null, record, this.tableColumns)));
+      return;
+    }
+
+    const changes = diffRuleRecords(existing, record, this.tableColumns);
+    if (existing.deleted_at) {
+      changes.deleted_at = { before: new Date(existing.deleted_at).toISOString(), after: null };
+    }
+
+    if (Object.keys(changes).length === 0) {
+      this.preview.unchanged++;
+      return;
+    }
+
+    const change = createRuleChange('modified', record, changes);
+    this.preview.modified++;
+    this.addSample('modified', change);
+
+    for (const [column, value] of Object.entries(changes)) {
+      const summary = this.preview.columns[column] || (this.preview.columns[column] = { changed: 0, samples: [] });
+      summary.changed++;
+      if (summary.samples.length < this.sampleLimit) {
+        summary.samples.push({
+          code: change.code,
+          categoryCode: change.categoryCode,
+          variant: change.variant,
+          ...value,
+        });
+      }
+    }
+  }
+
+  /**
+   * Counts a record that would not be written (duplicate key or already present)
+   */
+  addSkipped(count: number = 1): void {
+    this.preview.skipped += count;
+  }
+
+  /**
+   * Records an existing row that would be removed
+   * @param row - Existing row
+   */
+  addRemoved(row: any): void {
+    this.preview.removed++;
+    this.addSample('removed', createRuleChange('removed', row, diffRuleRecords(row, null, this.tableColumns)));
+  }
+
+  /**
+   * Returns the accumulated preview
+   * @returns Diff preview
+   */
+  build(): DiffPreview {
+    return this.preview;
+  }
+
+  /**
+   * Keeps the first few change events of each type
+   * @param type - Change type
+   * @param change - Change event
+   */
+  private addSample(type: keyof DiffPreview['samples'], change: RuleChange): void {
+    if (this.preview.samples[type].length < this.sampleLimit) {
+      this.preview.samples[type].push(change);
+    }
+  }
+}
+
+/**
+ * Renders dry-run previews as a markdown document for change reviews
+ * @param previews - Per-table previews
+ * @param generatedAt - Report timestamp
+ * @returns Markdown text
+ */
+export function renderDiffPreviewMarkdown(previews: DiffPreview[], generatedAt: Date = new Date()): string {
+  const lines: string[] = [
+    '# Dry-run migration preview',
+    '',
+    `Generated: ${generatedAt.toISOString()}`,
+    '',
+    '| Table | Mode | Added | Modified | Removed | Unchanged | Skipped |',
+    '|-------|------|------:|---------:|--------:|----------:|--------:|',
+  ];
+
+  for (const preview of previews) {
+    lines.push(
+      `| ${preview.tableName} | ${preview.mode} | ${preview.added} | ${preview.modified} | ` +
+      `${preview.removed} | ${preview.unchanged} | ${preview.skipped} |`
+    );
+  }
+
+  for (const preview of previews) {
+    lines.push('', `## ${preview.tableName}`, '');
+
+    const columns = Object.entries(preview.columns).sort((a, b) => b[1].changed - a[1].changed);
+    if (columns.length > 0) {
+      lines.push('### Changed columns', '');
+      for (const [column, summary] of columns) {
+        lines.push(`- **${column}**: ${summary.changed} rule(s)`);
+        for (const sample of summary.samples) {
+          lines.push(
+            `  - \`${formatRuleKey(sample)}\`: ${formatCell(sample.before)} → ${formatCell(sample.after)}`
+          );
+        }
+      }
+      lines.push('');
+    }
+
+    for (const type of ['added', 'removed'] as const) {
+      const samples = preview.samples[type];
+      if (samples.length === 0) continue;
+
+      lines.push(`### Sample ${type} rules`, '');
+      for (const change of samples) {
+        lines.push(`- \`${formatRuleKey(change)}\``);
+      }
+      lines.push('');
+    }
+
+    if (preview.added + preview.modified + preview.removed === 0) {
+      lines.push('No changes.', '');
+    }
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Writes dry-run previews as JSON and markdown reports
+ * @param previews - Per-table previews
+ * @param basePath - Report path without extension
+ * @returns Paths of the written files
+ */
+export async function writeDiffPreviewReport(previews: DiffPreview[], basePath: string): Promise<DiffReportFiles> {
+  const fs = await import('fs');
+  const path = await import('path');
+
+  const generatedAt = new Date();
+  const resolved = path.resolve(basePath.replace(/\.(json|md)$/i, ''));
+  fs.mkdirSync(path.dirname(resolved), { recursive: true });
+
+  const files: DiffReportFiles = {
+    json: `${resolved}.json`,
+    markdown: `${resolved}.md`,
+  };
+
+  fs.writeFileSync(files.json, JSON.stringify({ generatedAt: generatedAt.toISOString(), tables: previews }, null, 2));
+  fs.writeFileSync(files.markdown, renderDiffPreviewMarkdown(previews, generatedAt));
+
+  Logger.info('Dry-run report written', files);
+  return files;
+}
+
+/**
+ * Formats a rule's natural key for display
+ * @param rule - Object carrying the natural key
+ * @returns Display key
+ */
+function formatRuleKey(rule: { code: string; categoryCode: string; variant: string }): string {
+  return [rule.code, rule.categoryCode, rule.variant].filter(Boolean).join(' / ');
+}
+
+/**
+ * Formats a cell value for markdown output
+ * @param value - Cell value
+ * @returns Display value
+ */
+function formatCell(value: string | null): string {
+  if (value === null) return '_(none)_';
+  if (value === '') return '_(empty)_';
+  const singleLine = value.replace(/\s+/g, ' ');
+  return `\`${singleLine.length > 80 ? singleLine.slice(0, 77) + '...' : singleLine}\``;
+}
@@ -0,0 +1,87 @@
+import { RuleRecord, RULE_TABLE_COLUMNS, RULE_NATURAL_KEY_COLUMNS } from '../database/schema';
+
+export type ChangeType = 'added' | 'modified' | 'removed';
+
+export interface ColumnChange {
+  before: string | null;
+  after: string | null;
+}
+
+export interface RuleChange {
+  changeType: ChangeType;
+  code: string;
+  categoryCode: string;
+  variant: string;
+  changes: Record<string, ColumnChange>;
+}
+
+/**
+ * Compares two versions of a rule column by column
+ * @param before - Existing row (null when the rule is new)
+ * @param after - Incoming record (null when the rule was removed)
+ * @param columns - Columns to compare
+ * @returns Changed columns with their before/after values
+ */
+export function diffRuleRecords(
+  before: Partial<RuleRecord> | null,
+  after: Partial<RuleRecord> | null,
+  columns: readonly string[] = RULE_TABLE_COLUMNS
+): Record<string, ColumnChange> {
+  const changes: Record<string, ColumnChange> = {};
+
+  for (const column of columns) {
+    const beforeValue = before ? normalizeValue(before[column]) : null;
+    const afterValue = after ? normalizeValue(after[column]) : null;
+
+    // Empty cells on the missing side are not worth reporting for added/removed rules
+    if ((beforeValue ?? '') === (afterValue ?? '')) {
+      continue;
+    }
+
+    changes[column] = { before: beforeValue, after: afterValue };
+  }
+
+  return changes;
+}
+
+/**
+ * Builds a change event for a rule
+ * @param changeType - Kind of change
+ * @param record - Rule providing the natural key (incoming record or removed row)
+ * @param changes - Changed columns
+ * @returns Change event
+ */
+export function createRuleChange(
+  changeType: ChangeType,
+  record: Partial<RuleRecord>,
+  changes: Record<string, ColumnChange>
+): RuleChange {
+  const [code, categoryCode, variant] = RULE_NATURAL_KEY_COLUMNS.map(col => normalizeValue(record[col]));
+
+  return { changeType, code, categoryCode, variant, changes };
+}
+
+/**
+ * Normalizes a cell value for comparison
+ * @param value - Raw value (typed columns come back from the database as numbers, booleans, dates, objects and arrays)
+ * @returns String value ('' for null/undefined)
+ */
+function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return JSON.stringify(value);
+  if (typeof value === 'object') return stableStringify(value as Record<string, unknown>);
+  return String(value);
+}
+
+/**
+ * Serializes an object with sorted keys, since JSONB does not keep the key order it was given
+ * @param value - Object (extras)
+ * @returns JSON text
+ */
+function stableStringify(value: Record<string, unknown>): string {
+  return JSON.stringify(Object.keys(value).sort().reduce<Record<string, unknown>>((sorted, key) => {
+    sorted[key] = value[key];
+    return sorted;
+  }, {}));
+}
@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  DEFAULT_RETRYABLE_ERRORS,
+  RetryPolicy,
+  TimeoutError,
+  createDeadline,
+  getRetryDelay,
+  isRetryableError,
+  withRetry,
+} from './retry';
+import { HttpError } from '../sources/http-client';
+
+function errorWith(message: string, fields: Record<string, unknown> = {}): Error {
+  return Object.assign(new Error(message), fields);
+}
+
+describe('isRetryableError', () => {
+  it('matches a whole class of HTTP statuses', () => {
+    assert.equal(isRetryableError(new HttpError('Bad gateway', 502, ''), ['5xx']), true);
+    assert.equal(isRetryableError(new HttpError('Not found', 404, ''), ['5xx']), false);
+    assert.equal(isRetryableError(errorWith('Failed', { code: '500' }), ['5xx']), false);
+  });
+
+  it('matches error codes, SQLSTATE codes and single statuses exactly', () => {
+    assert.equal(isRetryableError(errorWith('deadlock detected', { code: '40P01' }), DEFAULT_RETRYABLE_ERRORS), true);
+    assert.equal(isRetryableError(errorWith('read ECONNRESET', { code: 'ECONNRESET' }), DEFAULT_RETRYABLE_ERRORS), true);
+    assert.equal(isRetryableError(new HttpError('Too many requests', 429, ''), DEFAULT_RETRYABLE_ERRORS), true);
+    assert.equal(isRetryableError(errorWith('duplicate key', { code: '23505' }), DEFAULT_RETRYABLE_ERRORS), false);
+    assert.equal(isRetryableError(errorWith('40001 in the message is not a code'), ['40001']), false);
+  });
+
+  it('matches other entries as message fragments', () => {
+    assert.equal(isRetryableError(new Error('Connection terminated unexpectedly'), DEFAULT_RETRYABLE_ERRORS), true);
+    assert.equal(isRetryableError(new Error('socket hang up'), ['hang up']), true);
+    assert.equal(isRetryableError(new Error('syntax error'), DEFAULT_RETRYABLE_ERRORS), false);
+  });
+
+  it('never retries timeouts', () => {
+    const timeout = Object.assign(new TimeoutError('Connection terminated: deadline'), { code: 'ETIMEDOUT' });
+
+    assert.equal(isRetryableError(timeout, DEFAULT_RETRYABLE_ERRORS), false);
+    assert.equal(isRetryableError(null, DEFAULT_RETRYABLE_ERRORS), false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy: RetryPolicy = { maxRetries: 5, baseDelay: 100, maxDelay: 1000, retryableErrors: [] };
+
+  it('stays between 0 and min(maxDelay, baseDelay * 2^attempt)', () => {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const cap = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+      for (let sample = 0; sample < 50; sample++) {
+        const delay = getRetryDelay(attempt, policy);
+        assert.ok(delay >= 0 && delay <= cap, `attempt ${attempt}: ${delay} outside 0..${cap}`);
+      }
+    }
+  });
+
+  it('spans the whole range, not only the cap', () => {
+    const random = Math.random;
+    try {
+      Math.random = () => 0;
+      assert.equal(getRetryDelay(3, policy), 0);
+      Math.random = () => 1;
+      assert.equal(getRetryDelay(3, policy), 800);
+      assert.equal(getRetryDelay(10, policy), 1000);
+    } finally {
+      Math.random = random;
+    }
+  });
+});
+
+describe('withRetry', () => {
+  const policy = { maxRetries: 3, baseDelay: 1, maxDelay: 1, retryableErrors: ['ECONNRESET'] };
+  const reset = () => errorWith('read ECONNRESET', { code: 'ECONNRESET' });
+
+  it('retries retryable errors until the operation succeeds', async () => {
+    const attempts: number[] = [];
+
+    const result = await withRetry(async attempt => {
+      attempts.push(attempt);
+      if (attempt < 2) throw reset();
+      return 'done';
+    }, 'test', { policy });
+
+    assert.equal(result, 'done');
+    assert.deepEqual(attempts, [0, 1, 2]);
+  });
+
+  it('does not start an operation once the signal aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new TimeoutError('Table rules_test exceeded MIGRATION_TIMEOUT (1s)'));
+    let calls = 0;
+
+    await assert.rejects(
+      withRetry(async () => { calls++; }, 'test', { policy, signal: controller.signal }),
+      /exceeded MIGRATION_TIMEOUT/
+    );
+    assert.equal(calls, 0);
+  });
+
+  it('stops waiting for the next attempt when the signal aborts', async () => {
+    const deadline = createDeadline(20, 'Table rules_test exceeded MIGRATION_TIMEOUT');
+    let calls = 0;
+    const startTime = Date.now();
+
+    try {
+      await assert.rejects(
+        withRetry(async () => {
+          calls++;
+          throw reset();
+        }, 'test', { policy: { ...policy, baseDelay: 60000, maxDelay: 60000 }, signal: deadline.signal }),
+        (error: any) => error instanceof TimeoutError
+      );
+    } finally {
+      deadline.clear();
+    }
+
+    assert.ok(calls <= 2);
+    assert.ok(Date.now() - startTime < 5000);
+  });
+
+  it('does not retry when retryIf refuses the error', async () => {
+    let calls = 0;
+
+    await assert.rejects(
+      withRetry(async () => {
+        calls++;
+        throw reset();
+      }, 'test', { policy, retryIf: () => false }),
+      /ECONNRESET/
+    );
+    assert.equal(calls, 1);
+  });
+});
@@ -0,0 +1,232 @@
+import { Logger } from './logger';
+import { appConfig } from '../config/environment';
+
+/**
+ * How failed operations are retried
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  /** Delay cap of the first retry in milliseconds; doubles on every retry */
+  baseDelay: number;
+  /** Upper bound of any delay in milliseconds */
+  maxDelay: number;
+  /**
+   * Errors worth retrying: error codes (ECONNRESET, PostgreSQL SQLSTATE such as 40001),
+   * HTTP statuses (503, or 5xx for a whole class) and otherwise fragments of the error message
+   */
+  retryableErrors: string[];
+}
+
+export interface RetryOptions {
+  /** Overrides of the configured policy */
+  policy?: Partial<RetryPolicy>;
+  /** Stops retrying (and waiting) once aborted */
+  signal?: AbortSignal;
+  /** Further condition a retryable error must meet to be retried */
+  retryIf?: (error: any) => boolean;
+}
+
+/**
+ * Transient network, HTTP and PostgreSQL failures
+ */
+export const DEFAULT_RETRYABLE_ERRORS = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  '408',
+  '429',
+  '5xx',
+  // connection_exception class, admin/crash shutdown, cannot_connect_now, too_many_connections
+  '08000',
+  '08001',
+  '08003',
+  '08006',
+  '57P01',
+  '57P02',
+  '57P03',
+  '53300',
+  // serialization_failure, deadlock_detected
+  '40001',
+  '40P01',
+  // pg reports a dropped connection without a code
+  'Connection terminated',
+];
+
+/**
+ * Raised when an operation runs past its deadline
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Gets the configured retry policy
+ * @param overrides - Values replacing the configured ones
+ * @returns Retry policy
+ */
+export function getRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return {
+    maxRetries: appConfig.migration.maxRetries,
+    baseDelay: appConfig.migration.retryBaseDelay,
+    maxDelay: appConfig.migration.retryMaxDelay,
+    retryableErrors: appConfig.migration.retryableErrors.length > 0
+      ? appConfig.migration.retryableErrors
+      : DEFAULT_RETRYABLE_ERRORS,
+    ...overrides,
+  };
+}
+
+/**
+ * Checks whether an error matches one of the retryable errors of a policy
+ * @param error - Error thrown by the operation
+ * @param retryableErrors - Codes, HTTP statuses and message fragments
+ * @returns True when the operation may succeed if tried again
+ */
+export function isRetryableError(error: any, retryableErrors: string[]): boolean {
+  if (!error || error instanceof TimeoutError) {
+    return false;
+  }
+
+  const code = error.code ? String(error.code) : '';
+  const status = error.statusCode ? String(error.statusCode) : '';
+  const message = String(error.message || '');
+
+  return retryableErrors.some(entry => {
+    if (/^\dxx$/i.test(entry)) {
+      return status !== '' && status[0] === entry[0];
+    }
+    if (/^[A-Z0-9_]+$/.test(entry)) {
+      return entry === code || entry === status;
+    }
+    return message.includes(entry);
+  });
+}
+
+/**
+ * Gets the delay before a retry: exponential backoff with full jitter
+ * @param attempt - Number of the failed attempt (0 for the first)
+ * @param policy - Retry policy
+ * @returns Delay in milliseconds, between 0 and min(maxDelay, baseDelay * 2^attempt)
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  const cap = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+/**
+ * Runs an operation, retrying it after retryable errors with exponential backoff and jitter
+ * @param operation - Operation to run; receives the attempt number (0 for the first)
+ * @param description - Operation name for logs
+ * @param options - Policy overrides and abort signal
+ * @returns Result of the first successful attempt
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  description: string,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = getRetryPolicy(options.policy);
+
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(options.signal);
+
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      const retryable = isRetryableError(error, policy.retryableErrors) && (!options.retryIf || options.retryIf(error));
+      if (attempt >= policy.maxRetries || !retryable) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy);
+      Logger.warn('Transient error - retrying', {
+        operation: description,
+        attempt: attempt + 1,
+        maxRetries: policy.maxRetries,
+        delayMs: delay,
+        error: error.message,
+      });
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * Creates a signal that aborts with a TimeoutError once a deadline passes
+ * @param timeout - Deadline in milliseconds (0 or less never aborts)
+ * @param message - Message of the TimeoutError
+ * @returns Signal, and a function clearing the timer once the work is done
+ */
+export function createDeadline(timeout: number, message: string): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  if (timeout <= 0) {
+    return { signal: controller.signal, clear: () => undefined };
+  }
+
+  const timer = setTimeout(() => controller.abort(new TimeoutError(message)), timeout);
+  timer.unref();
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+/**
+ * Throws the abort reason of a signal
+ * @param signal - Abort signal (no-op when undefined)
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortReason(signal);
+  }
+}
+
+/**
+ * Runs a callback once a signal aborts, e.g. to destroy a pending request
+ * @param signal - Abort signal (no-op when undefined)
+ * @param callback - Receives the abort reason; called at once when the signal already aborted
+ * @returns Function removing the listener once the work is done
+ */
+export function onAbort(signal: AbortSignal | undefined, callback: (reason: Error) => void): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+  if (signal.aborted) {
+    callback(getAbortReason(signal));
+    return () => undefined;
+  }
+
+  const listener = () => callback(getAbortReason(signal));
+  signal.addEventListener('abort', listener, { once: true });
+  return () => signal.removeEventListener('abort', listener);
+}
+
+/**
+ * Gets the error an aborted signal carries
+ * @param signal - Aborted signal
+ * @returns Its reason, or a TimeoutError when the reason is not an error
+ */
+function getAbortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new TimeoutError('Operation aborted');
+}
+
+/**
+ * Waits for a delay, stopping early when the signal aborts
+ * @param delay - Delay in milliseconds
+ * @param signal - Abort signal
+ */
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      removeAbortListener();
+      resolve();
+    }, delay);
+    const removeAbortListener = onAbort(signal, reason => {
+      clearTimeout(timer);
+      reject(reason);
+    });
+  });
+}